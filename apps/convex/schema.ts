@@ -535,6 +535,16 @@ export default defineSchema({
     })
     .index("by_provider", {
       fields: ["provider", "userId"]
+    }),
+
+  // Sutradhar agent registry (non in-process agents, restored on boot)
+  agentDefinitions: defineTable({
+    agentId: "string",
+    definition: "json",         // AgentDefinition
+    updatedAt: "number"
+  })
+    .index("by_agent", {
+      fields: ["agentId"]
     })
 });
 
@@ -9,6 +9,7 @@
  */
 
 import type * as achievements from "../achievements.js";
+import type * as agentDefinitions from "../agentDefinitions.js";
 import type * as actions from "../actions.js";
 import type * as actions_list from "../actions_list.js";
 import type * as codeAssignments from "../codeAssignments.js";
@@ -58,6 +59,7 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   achievements: typeof achievements;
+  agentDefinitions: typeof agentDefinitions;
   actions: typeof actions;
   actions_list: typeof actions_list;
   codeAssignments: typeof codeAssignments;
@@ -0,0 +1,61 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+
+/**
+ * List persisted agent definitions (Sutradhar re-registers these on boot)
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const rows = await ctx.db.query("agentDefinitions").collect();
+    return rows.map((row) => row.definition);
+  },
+});
+
+/**
+ * Insert or replace an agent definition
+ */
+export const upsert = mutation({
+  args: {
+    agentId: v.string(),
+    definition: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("agentDefinitions")
+      .withIndex("by_agent", (q) => q.eq("agentId", args.agentId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        definition: args.definition,
+        updatedAt: Date.now(),
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("agentDefinitions", {
+      agentId: args.agentId,
+      definition: args.definition,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove an agent definition
+ */
+export const remove = mutation({
+  args: { agentId: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("agentDefinitions")
+      .withIndex("by_agent", (q) => q.eq("agentId", args.agentId))
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return { ok: true };
+  },
+});
@@ -106,10 +106,72 @@ export const useApi = () => {
     }
   }
 
+  /**
+   * POST and read a Server-Sent Events response, calling onDelta with each text chunk
+   * Resolves with the final `done` payload; plain JSON responses are returned as-is
+   */
+  const stream = async <T = any>(path: string, body: any, onDelta: (text: string) => void): Promise<ApiResponse<T>> => {
+    try {
+      const response = await fetch(`${baseURL}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify(body),
+      })
+
+      // Non-streaming answers (errors, actions) come back as JSON
+      if (!(response.headers.get('content-type') || '').includes('text/event-stream') || !response.body) {
+        return await response.json()
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      let final: ApiResponse<T> = { ok: false, error: 'Stream ended without a result' }
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary = buffer.indexOf('\n\n')
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary)
+          buffer = buffer.slice(boundary + 2)
+          boundary = buffer.indexOf('\n\n')
+
+          const event = block.match(/^event: (.*)$/m)?.[1]
+          const data = block.match(/^data: (.*)$/m)?.[1]
+          if (!event || !data) continue
+
+          const payload = JSON.parse(data)
+          if (event === 'delta') {
+            onDelta(payload.text)
+          } else if (event === 'done' || event === 'error') {
+            final = payload
+          }
+        }
+      }
+
+      return final
+    } catch (error: any) {
+      if (process.dev) {
+        console.error(`API stream ${path} failed:`, error.message)
+      }
+      return {
+        ok: false,
+        error: error.message || 'Request failed',
+      }
+    }
+  }
+
   return {
     baseURL,
     get,
     post,
+    stream,
     // Auth endpoints
     auth: {
       guest: () => post<AuthResponse>('/auth/guest', {}),
@@ -146,6 +208,12 @@ export const useApi = () => {
         if (sessionId) params.set('sessionId', sessionId)
         return post<{ answer?: string; summary?: string; action?: string; message?: string; citations?: any[] }>(`/lesson/${lessonId}/query?${params.toString()}`, { query, url })
       },
+      processLessonQueryStream: (lessonId: string, courseSlug: string, query: string, onDelta: (text: string) => void, sessionId?: string, url?: string) => {
+        const params = new URLSearchParams()
+        params.set('courseSlug', courseSlug)
+        if (sessionId) params.set('sessionId', sessionId)
+        return stream<{ answer?: string; summary?: string; action?: string; message?: string; citations?: any[] }>(`/lesson/${lessonId}/query?${params.toString()}`, { query, url }, onDelta)
+      },
     },
     // Quiz endpoints
     quiz: {
@@ -169,6 +237,8 @@ export const useApi = () => {
     assistant: {
       answer: (sessionId: string, question: string) =>
         post('/assistant/answer', { sessionId, question }),
+      answerStream: (sessionId: string, question: string, onDelta: (text: string) => void) =>
+        stream<{ answer: string; method?: string; followUp?: string }>('/assistant/answer', { sessionId, question }, onDelta),
       escalate: (sessionId: string, reason: string, email?: string) =>
         post('/assistant/escalate', { sessionId, reason, email }),
       forum: (sessionId: string, text: string, url?: string) =>
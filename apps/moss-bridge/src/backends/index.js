@@ -0,0 +1,42 @@
+// Search backends behind the bridge's endpoints
+// MOSS_BACKEND picks one: "moss" (hosted SDK), "local" (embedded, on-disk indexes in MOSS_LOCAL_DIR) or
+// "auto" (default), which uses Moss when credentials are set and the SDK loads, and the local backend otherwise
+//
+// A backend implements:
+//   init(), ready(), describe()
+//   ensure(index), index(index, docs), query(index, q, topK?), get(index, id)
+const { LocalBackend } = require("./local");
+const { MossBackend } = require("./moss");
+
+const BACKENDS = ["auto", "moss", "local"];
+
+async function openBackend(env = process.env) {
+  const kind = (env.MOSS_BACKEND || "auto").toLowerCase();
+  if (!BACKENDS.includes(kind)) {
+    throw new Error(`Unknown MOSS_BACKEND: ${kind} (expected ${BACKENDS.join(", ")})`);
+  }
+
+  const hasCredentials = !!(env.MOSS_PROJECT_ID && env.MOSS_PROJECT_KEY);
+  if (kind === "moss" || (kind === "auto" && hasCredentials)) {
+    const moss = new MossBackend({ projectId: env.MOSS_PROJECT_ID, projectKey: env.MOSS_PROJECT_KEY });
+    try {
+      await moss.init();
+      return moss;
+    } catch (e) {
+      if (kind === "moss") {
+        // Keep serving so /health can report why; endpoints answer 503 until restarted with a working setup
+        console.error("[moss-bridge] Failed to initialize Moss SDK:", e.message);
+        return moss;
+      }
+      console.warn(`[moss-bridge] Moss unavailable (${e.message}), using the local backend`);
+    }
+  } else if (kind === "auto") {
+    console.warn("[moss-bridge] MOSS_PROJECT_ID / MOSS_PROJECT_KEY missing, using the local backend");
+  }
+
+  const local = new LocalBackend({ dir: env.MOSS_LOCAL_DIR || "./data/moss-local" });
+  await local.init();
+  return local;
+}
+
+module.exports = { openBackend, BACKENDS };
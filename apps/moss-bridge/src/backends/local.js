@@ -0,0 +1,169 @@
+// Local backend - Embedded search with on-disk indexes, for dev machines and CI without Moss credentials
+// Each index is a JSON file in MOSS_LOCAL_DIR; documents are embedded as hashed word + character trigram
+// vectors and ranked by cosine similarity. Image documents are searched through their title, caption, tags
+// and other text metadata; the image data itself is only stored
+const fs = require("fs");
+const path = require("path");
+
+const DIMENSIONS = 1024;
+const INDEX_VERSION = 1;
+const DEFAULT_TOP_K = 10;
+// Image payloads and links aren't searchable text
+const UNSEARCHABLE_FIELDS = new Set(["id", "image", "image_url", "imageUrl", "url", "score"]);
+
+function hashToken(token) {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => token.length > 1);
+}
+
+function embed(text) {
+  const vector = new Float64Array(DIMENSIONS);
+  for (const word of tokenize(text)) {
+    vector[hashToken(`w:${word}`) % DIMENSIONS] += 1;
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      vector[hashToken(`c:${padded.slice(i, i + 3)}`) % DIMENSIONS] += 0.5;
+    }
+  }
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function cosine(a, b) {
+  let dot = 0;
+  for (let i = 0; i < DIMENSIONS; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Text of every searchable field; the title counts twice so it outweighs long descriptions
+ */
+function searchableText(doc) {
+  const parts = doc.title ? [doc.title, doc.title] : [];
+  for (const [key, value] of Object.entries(doc)) {
+    if (UNSEARCHABLE_FIELDS.has(key) || key === "title") continue;
+    if (typeof value === "string" && !value.startsWith("data:")) parts.push(value);
+    else if (Array.isArray(value)) parts.push(...value.filter(item => typeof item === "string"));
+  }
+  return parts.join("\n");
+}
+
+class LocalBackend {
+  constructor({ dir }) {
+    this.name = "local";
+    this.dir = path.resolve(dir);
+    // index name -> Map of id -> { doc, vector }
+    this.indexes = new Map();
+    // Writes to a file happen one at a time
+    this.writes = new Map();
+  }
+
+  async init() {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+  }
+
+  ready() {
+    return true;
+  }
+
+  describe() {
+    return { dir: this.dir, indexes: [...this.indexes.keys()] };
+  }
+
+  async ensure(name) {
+    if (!(await this.exists(name))) {
+      this.indexes.set(name, new Map());
+      await this.save(name);
+    }
+    await this.load(name);
+  }
+
+  /**
+   * Add or replace documents by id
+   */
+  async index(name, docs) {
+    const entries = await this.load(name);
+    for (const doc of docs) {
+      entries.set(String(doc.id), { doc, vector: embed(searchableText(doc)) });
+    }
+    await this.save(name);
+  }
+
+  async query(name, q, topK = DEFAULT_TOP_K) {
+    const entries = await this.load(name);
+    const queryVector = embed(q);
+    return [...entries.values()]
+      .map(({ doc, vector }) => ({ ...doc, score: Number(cosine(queryVector, vector).toFixed(4)) }))
+      .filter(doc => doc.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async get(name, id) {
+    const entry = (await this.load(name)).get(String(id));
+    return entry ? entry.doc : null;
+  }
+
+  file(name) {
+    return path.join(this.dir, `${encodeURIComponent(name)}.json`);
+  }
+
+  async exists(name) {
+    if (this.indexes.has(name)) return true;
+    return fs.promises.access(this.file(name)).then(() => true, () => false);
+  }
+
+  async load(name) {
+    if (this.indexes.has(name)) {
+      return this.indexes.get(name);
+    }
+    const entries = new Map();
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.file(name), "utf-8"));
+      if (data.version === INDEX_VERSION && Array.isArray(data.docs)) {
+        for (const doc of data.docs) {
+          entries.set(String(doc.id), { doc, vector: embed(searchableText(doc)) });
+        }
+      } else {
+        console.warn(`[moss-bridge] Ignoring local index ${name} with an unknown format`);
+      }
+    } catch (e) {
+      if (e.code !== "ENOENT") {
+        console.error(`[moss-bridge] Failed to load local index ${name}:`, e.message);
+      }
+    }
+    // Another request may have loaded it while this one was reading
+    if (!this.indexes.has(name)) {
+      this.indexes.set(name, entries);
+    }
+    return this.indexes.get(name);
+  }
+
+  /**
+   * Write to a temp file and rename, so a crash mid-write never leaves a truncated index
+   */
+  save(name) {
+    const previous = this.writes.get(name) || Promise.resolve();
+    const write = previous.then(async () => {
+      const docs = [...(this.indexes.get(name) || new Map()).values()].map(entry => entry.doc);
+      const file = this.file(name);
+      await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({ version: INDEX_VERSION, name, docs }));
+      await fs.promises.rename(`${file}.tmp`, file);
+    });
+    this.writes.set(name, write.catch(() => undefined));
+    return write;
+  }
+}
+
+module.exports = { LocalBackend };
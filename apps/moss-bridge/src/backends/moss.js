@@ -0,0 +1,99 @@
+// Moss backend - Proxies the hosted Moss SDK
+// The SDK is ESM-only, so it is imported from its ESM build at init
+const MODEL = "moss-minilm";
+
+class MossBackend {
+  constructor({ projectId, projectKey }) {
+    this.name = "moss";
+    this.projectId = projectId;
+    this.projectKey = projectKey;
+    this.client = null;
+    this.error = null;
+  }
+
+  async init() {
+    try {
+      if (!this.projectId || !this.projectKey) {
+        throw new Error("MOSS_PROJECT_ID / MOSS_PROJECT_KEY missing");
+      }
+      // Import the ESM build directly to avoid CommonJS/ESM conflicts
+      const mossPath = require.resolve("@inferedge/moss/dist/index.esm.js");
+      const MossModule = await import(mossPath);
+      const MossClient = MossModule.MossClient || MossModule.default?.MossClient || MossModule.default || MossModule;
+      this.client = new MossClient(this.projectId, this.projectKey);
+      this.error = null;
+      console.log("[moss-bridge] Moss client initialized successfully");
+    } catch (e) {
+      this.error = e.message;
+      throw e;
+    }
+  }
+
+  ready() {
+    return !!this.client;
+  }
+
+  describe() {
+    return this.error ? { error: this.error } : {};
+  }
+
+  async ensure(name) {
+    const client = this.requireClient();
+    // Try to create index, ignore if already exists
+    await client.createIndex(name, [], MODEL).catch(() => {});
+    await this.loadIndex(name);
+  }
+
+  async index(name, docs) {
+    const client = this.requireClient();
+    // Create index with docs, or add docs to existing index
+    try {
+      await client.createIndex(name, docs, MODEL);
+    } catch (e) {
+      if (e.message && e.message.includes("already exists")) {
+        await client.addDocs(name, docs).catch(() => {});
+      }
+    }
+    await this.loadIndex(name);
+  }
+
+  async query(name, q, topK) {
+    const client = this.requireClient();
+    await this.loadIndex(name);
+    const out = await client.query(name, q);
+    const docs = out.docs || [];
+    return topK ? docs.slice(0, topK) : docs;
+  }
+
+  /**
+   * Moss has no lookup by ID, so this queries for the ID and picks the exact match
+   */
+  async get(name, id) {
+    const docs = await this.query(name, id);
+    return docs.find(doc => doc.id === id) || null;
+  }
+
+  requireClient() {
+    if (!this.client) {
+      const error = new Error(this.error ? `Moss unavailable: ${this.error}` : "Moss client not initialized yet");
+      error.status = 503;
+      throw error;
+    }
+    return this.client;
+  }
+
+  /**
+   * Load an index into memory; already loaded, or not created yet (first index creates it), are both fine
+   */
+  async loadIndex(name) {
+    try {
+      await this.client.loadIndex(name);
+    } catch (e) {
+      if (e.message && !e.message.includes("already exists") && !e.message.includes("not found")) {
+        throw e;
+      }
+    }
+  }
+}
+
+module.exports = { MossBackend };
@@ -1,45 +1,29 @@
-// CommonJS server - Using async wrapper to handle Moss SDK ESM
+// CommonJS server - Text and image search over a pluggable backend (see ./backends)
 const express = require("express");
+const { openBackend } = require("./backends");
+
 const app = express();
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 const PORT = Number(process.env.PORT || 4050);
-const PROJECT_ID = process.env.MOSS_PROJECT_ID;
-const PROJECT_KEY = process.env.MOSS_PROJECT_KEY;
 const INDEX = process.env.MOSS_INDEX_NAME || "seed";
 const IMAGE_INDEX = process.env.MOSS_IMAGE_INDEX_NAME || "images";
 
-if (!PROJECT_ID || !PROJECT_KEY) {
-  console.error("MOSS_PROJECT_ID / MOSS_PROJECT_KEY missing");
-  process.exit(1);
-}
-
-let client;
-let MossClient;
+let backend;
 
-// Initialize Moss client asynchronously - use ESM build directly
-(async () => {
-  try {
-    // Import the ESM build directly to avoid CommonJS/ESM conflicts
-    const mossPath = require.resolve("@inferedge/moss/dist/index.esm.js");
-    const MossModule = await import(mossPath);
-    MossClient = MossModule.MossClient || MossModule.default?.MossClient || MossModule.default || MossModule;
-    client = new MossClient(PROJECT_ID, PROJECT_KEY);
-    console.log("[moss-bridge] Moss client initialized successfully");
-  } catch (e) {
-    console.error("[moss-bridge] Failed to initialize Moss SDK:", e.message);
-    console.error("[moss-bridge] Stack:", e.stack);
-    process.exit(1);
-  }
-})();
+function sendError(res, e) {
+  res.status(e.status || 500).json({ ok: false, error: e?.message || String(e) });
+}
 
 app.get("/health", (_req, res) => {
-  res.json({ 
-    ok: true, 
-    index: INDEX, 
+  res.json({
+    ok: true,
+    backend: backend.name,
+    index: INDEX,
     imageIndex: IMAGE_INDEX,
-    clientReady: !!client 
+    clientReady: backend.ready(),
+    ...backend.describe()
   });
 });
 
@@ -47,42 +31,30 @@ app.get("/health", (_req, res) => {
 
 app.post("/ensure", async (_req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
-    await client.createIndex(INDEX, [], "moss-minilm").catch(() => {});
-    await client.loadIndex(INDEX);
+    await backend.ensure(INDEX);
     res.json({ ok: true, index: INDEX });
   } catch (e) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.post("/index", async (req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
     const docs = req.body?.docs || [];
-    await client.createIndex(INDEX, docs, "moss-minilm").catch(() => {});
-    await client.loadIndex(INDEX);
+    await backend.index(INDEX, docs);
     res.json({ ok: true, index: INDEX, count: docs.length });
   } catch (e) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.post("/query", async (req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
     const q = String(req.body?.q || "");
-    await client.loadIndex(INDEX);
-    const out = await client.query(INDEX, q);
-    res.json({ ok: true, results: out.docs || [] });
+    const results = await backend.query(INDEX, q, Number(req.body?.topK) || undefined);
+    res.json({ ok: true, results });
   } catch (e) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
@@ -90,38 +62,17 @@ app.post("/query", async (req, res) => {
 
 app.post("/images/ensure", async (_req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
-    // Try to create index, ignore if already exists
-    await client.createIndex(IMAGE_INDEX, [], "moss-minilm").catch(() => {});
-    // Try to load index, ignore if not found (will be created on first index)
-    try {
-      await client.loadIndex(IMAGE_INDEX);
-    } catch (e) {
-      // Index doesn't exist yet, that's OK - it will be created on first index operation
-      if (!e.message.includes("not found")) {
-        throw e;
-      }
-    }
+    await backend.ensure(IMAGE_INDEX);
     res.json({ ok: true, index: IMAGE_INDEX });
   } catch (e) {
-    // If error is about index already existing, that's fine
-    if (e.message && e.message.includes("already exists")) {
-      res.json({ ok: true, index: IMAGE_INDEX, message: "Index already exists" });
-    } else {
-      res.status(500).json({ ok: false, error: e?.message || String(e) });
-    }
+    sendError(res, e);
   }
 });
 
 app.post("/images/index", async (req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
     const images = req.body?.images || [];
-    
+
     if (images.length === 0) {
       return res.status(400).json({ ok: false, error: "No images provided" });
     }
@@ -157,44 +108,22 @@ app.post("/images/index", async (req, res) => {
       return doc;
     });
 
-    // Create index with docs, or add docs to existing index
-    try {
-      await client.createIndex(IMAGE_INDEX, docs, "moss-minilm");
-    } catch (e) {
-      // Index might already exist, try to add docs instead
-      if (e.message && e.message.includes("already exists")) {
-        await client.addDocs(IMAGE_INDEX, docs).catch(() => {});
-      }
-    }
-    // Try to load index if it exists and isn't already loaded
-    try {
-      await client.loadIndex(IMAGE_INDEX);
-    } catch (e) {
-      // If index already exists in memory or doesn't exist yet, that's OK
-      if (e.message && (e.message.includes("not found") || e.message.includes("already exists"))) {
-        // Index either doesn't exist (will be created) or is already in memory
-      } else {
-        throw e;
-      }
-    }
+    await backend.index(IMAGE_INDEX, docs);
 
-    res.json({ 
-      ok: true, 
-      index: IMAGE_INDEX, 
+    res.json({
+      ok: true,
+      index: IMAGE_INDEX,
       count: docs.length,
       indexed: docs.map(d => ({ id: d.id, title: d.title || d.id }))
     });
   } catch (e) {
     console.error("Image indexing error:", e);
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.post("/images/query", async (req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
     const query = req.body?.query || "";
     const imageQuery = req.body?.image;
     const maxResults = req.body?.maxResults || 10;
@@ -203,73 +132,49 @@ app.post("/images/query", async (req, res) => {
       return res.status(400).json({ ok: false, error: "Query or image required" });
     }
 
-    // Try to load index if not already in memory
-    try {
-      await client.loadIndex(IMAGE_INDEX);
-    } catch (e) {
-      // If index already exists in memory, that's OK
-      if (e.message && !e.message.includes("already exists") && !e.message.includes("not found")) {
-        throw e;
-      }
-    }
+    // Neither backend embeds image pixels, so an image-only query searches the index's text
+    const searchQuery = imageQuery ? query || "image" : query;
+    const results = await backend.query(IMAGE_INDEX, searchQuery, maxResults);
 
-    let results;
-    if (imageQuery) {
-      const searchQuery = query || "image";
-      results = await client.query(IMAGE_INDEX, searchQuery);
-    } else {
-      results = await client.query(IMAGE_INDEX, query);
-    }
-
-    const limitedResults = (results.docs || []).slice(0, maxResults);
-
-    res.json({ 
-      ok: true, 
-      results: limitedResults,
-      count: limitedResults.length,
+    res.json({
+      ok: true,
+      results,
+      count: results.length,
       query: query || "image similarity"
     });
   } catch (e) {
     console.error("Image query error:", e);
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.get("/images/index/:imageId", async (req, res) => {
   try {
-    if (!client) {
-      return res.status(503).json({ ok: false, error: "Moss client not initialized yet" });
-    }
-    const imageId = req.params.imageId;
-    // Try to load index if not already in memory
-    try {
-      await client.loadIndex(IMAGE_INDEX);
-    } catch (e) {
-      // If index already exists in memory, that's OK
-      if (e.message && !e.message.includes("already exists") && !e.message.includes("not found")) {
-        throw e;
-      }
-    }
-    
-    const results = await client.query(IMAGE_INDEX, imageId);
-    const image = (results.docs || []).find((doc) => doc.id === imageId);
-    
+    const image = await backend.get(IMAGE_INDEX, req.params.imageId);
+
     if (!image) {
       return res.status(404).json({ ok: false, error: "Image not found" });
     }
 
     res.json({ ok: true, image });
   } catch (e) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
-// Start server after a short delay to allow Moss client to initialize
-setTimeout(() => {
-  app.listen(PORT, () => {
-    console.log(`[moss-bridge] listening on ${PORT}`);
-    console.log(`[moss-bridge] Text index: ${INDEX}`);
-    console.log(`[moss-bridge] Image index: ${IMAGE_INDEX}`);
-    console.log(`[moss-bridge] Client ready: ${!!client}`);
+// Start listening once the backend is open, so early requests don't race its initialization
+openBackend()
+  .then((opened) => {
+    backend = opened;
+    app.listen(PORT, () => {
+      console.log(`[moss-bridge] listening on ${PORT}`);
+      console.log(`[moss-bridge] Backend: ${backend.name}`);
+      console.log(`[moss-bridge] Text index: ${INDEX}`);
+      console.log(`[moss-bridge] Image index: ${IMAGE_INDEX}`);
+      console.log(`[moss-bridge] Client ready: ${backend.ready()}`);
+    });
+  })
+  .catch((e) => {
+    console.error("[moss-bridge] Failed to start:", e.message);
+    process.exitCode = 1;
   });
-}, 1000);
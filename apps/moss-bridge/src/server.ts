@@ -1,58 +1,68 @@
 import express from "express";
-// @ts-ignore - Moss SDK has obfuscated code and type issues
-const MossModule = require("@inferedge/moss");
-const MossClient = MossModule.MossClient || MossModule.default?.MossClient || MossModule;
+// Backends are plain CommonJS shared with server.js
+const { openBackend } = require("./backends");
+
+interface SearchBackend {
+  name: string;
+  ready(): boolean;
+  describe(): Record<string, any>;
+  ensure(index: string): Promise<void>;
+  index(index: string, docs: any[]): Promise<void>;
+  query(index: string, q: string, topK?: number): Promise<any[]>;
+  get(index: string, id: string): Promise<any | null>;
+}
 
 const app = express();
 app.use(express.json({ limit: '50mb' })); // Increase limit for image base64 data
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
 const PORT = Number(process.env.PORT || 4050);
-const PROJECT_ID = process.env.MOSS_PROJECT_ID!;
-const PROJECT_KEY = process.env.MOSS_PROJECT_KEY!;
 const INDEX = process.env.MOSS_INDEX_NAME || "seed";
 const IMAGE_INDEX = process.env.MOSS_IMAGE_INDEX_NAME || "images";
 
-if (!PROJECT_ID || !PROJECT_KEY) {
-  console.error("MOSS_PROJECT_ID / MOSS_PROJECT_KEY missing");
-  process.exit(1);
-}
+let backend: SearchBackend;
 
-const client = new MossClient(PROJECT_ID, PROJECT_KEY);
+function sendError(res: express.Response, e: any) {
+  res.status(e?.status || 500).json({ ok: false, error: e?.message || String(e) });
+}
 
-app.get("/health", (_req, res) => res.json({ ok: true, index: INDEX, imageIndex: IMAGE_INDEX }));
+app.get("/health", (_req, res) => res.json({
+  ok: true,
+  backend: backend.name,
+  index: INDEX,
+  imageIndex: IMAGE_INDEX,
+  clientReady: backend.ready(),
+  ...backend.describe(),
+}));
 
 // ========== Text Indexing Endpoints ==========
 
 app.post("/ensure", async (_req, res) => {
   try {
-    await client.createIndex(INDEX, [], "moss-minilm").catch(() => {});
-    await client.loadIndex(INDEX);
+    await backend.ensure(INDEX);
     res.json({ ok: true, index: INDEX });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.post("/index", async (req, res) => {
   try {
     const docs = req.body?.docs || [];
-    await client.createIndex(INDEX, docs, "moss-minilm").catch(() => {});
-    await client.loadIndex(INDEX);
+    await backend.index(INDEX, docs);
     res.json({ ok: true, index: INDEX, count: docs.length });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
 app.post("/query", async (req, res) => {
   try {
     const q = String(req.body?.q || "");
-    await client.loadIndex(INDEX);
-    const out = await client.query(INDEX, q);
-    res.json({ ok: true, results: out.docs || [] });
+    const results = await backend.query(INDEX, q, Number(req.body?.topK) || undefined);
+    res.json({ ok: true, results });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
@@ -64,11 +74,10 @@ app.post("/query", async (req, res) => {
  */
 app.post("/images/ensure", async (_req, res) => {
   try {
-    await client.createIndex(IMAGE_INDEX, [], "moss-minilm").catch(() => {});
-    await client.loadIndex(IMAGE_INDEX);
+    await backend.ensure(IMAGE_INDEX);
     res.json({ ok: true, index: IMAGE_INDEX });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
@@ -80,13 +89,12 @@ app.post("/images/ensure", async (_req, res) => {
 app.post("/images/index", async (req, res) => {
   try {
     const images = req.body?.images || [];
-    
+
     if (images.length === 0) {
       return res.status(400).json({ ok: false, error: "No images provided" });
     }
 
-    // Convert images to Moss document format
-    // Moss supports image embeddings when you provide image data
+    // Title, description (as text), tags and other metadata are what searches match
     const docs = images.map((img: any) => {
       const doc: any = {
         id: img.id || `img-${Date.now()}-${Math.random()}`,
@@ -123,19 +131,17 @@ app.post("/images/index", async (req, res) => {
       return doc;
     });
 
-    // Create/update index with images
-    await client.createIndex(IMAGE_INDEX, docs, "moss-minilm").catch(() => {});
-    await client.loadIndex(IMAGE_INDEX);
+    await backend.index(IMAGE_INDEX, docs);
 
-    res.json({ 
-      ok: true, 
-      index: IMAGE_INDEX, 
+    res.json({
+      ok: true,
+      index: IMAGE_INDEX,
       count: docs.length,
       indexed: docs.map((d: any) => ({ id: d.id, title: d.title || d.id }))
     });
   } catch (e: any) {
     console.error("Image indexing error:", e);
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
@@ -154,32 +160,19 @@ app.post("/images/query", async (req, res) => {
       return res.status(400).json({ ok: false, error: "Query or image required" });
     }
 
-    await client.loadIndex(IMAGE_INDEX);
-
-    let results;
-    if (imageQuery) {
-      // Image-to-image similarity search
-      // If Moss SDK supports image queries directly, use it
-      // Otherwise, fallback to text query if image has metadata
-      const searchQuery = query || "image";
-      results = await client.query(IMAGE_INDEX, searchQuery);
-    } else {
-      // Text-to-image search
-      results = await client.query(IMAGE_INDEX, query);
-    }
-
-    // Limit results
-    const limitedResults = (results.docs || []).slice(0, maxResults);
+    // Neither backend embeds image pixels, so an image-only query searches the index's text
+    const searchQuery = imageQuery ? query || "image" : query;
+    const results = await backend.query(IMAGE_INDEX, searchQuery, maxResults);
 
-    res.json({ 
-      ok: true, 
-      results: limitedResults,
-      count: limitedResults.length,
+    res.json({
+      ok: true,
+      results,
+      count: results.length,
       query: query || "image similarity"
     });
   } catch (e: any) {
     console.error("Image query error:", e);
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
@@ -189,26 +182,30 @@ app.post("/images/query", async (req, res) => {
  */
 app.get("/images/index/:imageId", async (req, res) => {
   try {
-    const imageId = req.params.imageId;
-    await client.loadIndex(IMAGE_INDEX);
-    
-    // Query for the specific image ID
-    const results = await client.query(IMAGE_INDEX, imageId);
-    const image = (results.docs || []).find((doc: any) => doc.id === imageId);
-    
+    const image = await backend.get(IMAGE_INDEX, req.params.imageId);
+
     if (!image) {
       return res.status(404).json({ ok: false, error: "Image not found" });
     }
 
     res.json({ ok: true, image });
   } catch (e: any) {
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    sendError(res, e);
   }
 });
 
-app.listen(PORT, () => {
-  console.log(`[moss-bridge] listening on ${PORT}`);
-  console.log(`[moss-bridge] Text index: ${INDEX}`);
-  console.log(`[moss-bridge] Image index: ${IMAGE_INDEX}`);
-});
-
+// Start listening once the backend is open; without Moss credentials it's the local backend
+openBackend()
+  .then((opened: SearchBackend) => {
+    backend = opened;
+    app.listen(PORT, () => {
+      console.log(`[moss-bridge] listening on ${PORT}`);
+      console.log(`[moss-bridge] Backend: ${backend.name}`);
+      console.log(`[moss-bridge] Text index: ${INDEX}`);
+      console.log(`[moss-bridge] Image index: ${IMAGE_INDEX}`);
+    });
+  })
+  .catch((e: any) => {
+    console.error("[moss-bridge] Failed to start:", e.message);
+    process.exitCode = 1;
+  });
@@ -71,37 +71,35 @@ export class AdaptiveLearningAgent extends BaseAgent {
 - Course: ${courseSlug}
 - Available lessons: ${lessons.map((l: any) => l.lessonId).join(', ')}
 
-Generate an ordered list of lesson IDs that best fits this user's needs. Return JSON: {lessons: string[], order: number[], difficulty: string}`;
+Generate an ordered list of lesson IDs that best fits this user's needs.`;
 
+      const lessonIds = lessons.map((l: any) => l.lessonId).filter(Boolean);
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert learning path designer. Return only valid JSON.',
+          system: 'You are an expert learning path designer.',
           user: pathPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['lessons', 'order', 'difficulty'],
+            properties: {
+              // Only lessons that exist in the course, so the path never points at a missing lesson
+              lessons: { type: 'array', minItems: 1, items: lessonIds.length > 0 ? { type: 'string', enum: lessonIds } : { type: 'string' } },
+              order: { type: 'array', items: { type: 'integer', minimum: 0 } },
+              difficulty: { type: 'string', enum: ['beginner', 'intermediate', 'advanced'] }
+            }
+          },
+          tag: 'learning-path'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate learning path');
+        return this.error(llmResult.error || 'Failed to generate learning path');
       }
 
-      let pathData: any;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        pathData = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        // Fallback to default path
-        pathData = {
-          lessons: lessons.map((l: any) => l.lessonId),
-          order: lessons.map((_: any, i: number) => i),
-          difficulty: preferences?.difficulty || 'intermediate'
-        };
-      }
+      const pathData: { lessons: string[]; order: number[]; difficulty: string } = llmResult.data.data;
 
       // Save or update learning path
       const existingPath = await this.convexQuery('learningPaths:get', { userId, courseSlug }, context);
@@ -109,9 +107,9 @@ Generate an ordered list of lesson IDs that best fits this user's needs. Return
       const path: LearningPath = {
         userId,
         courseSlug,
-        lessons: pathData.lessons || [],
-        order: pathData.order || [],
-        difficulty: pathData.difficulty || 'intermediate',
+        lessons: pathData.lessons,
+        order: pathData.order,
+        difficulty: pathData.difficulty,
         currentLesson: existingPath?.currentLesson || pathData.lessons[0] || '',
         startedAt: existingPath?.startedAt || Date.now()
       };
@@ -144,17 +142,35 @@ Generate an ordered list of lesson IDs that best fits this user's needs. Return
 - Recent activity: ${JSON.stringify(recentEvents?.slice(0, 5) || [])}
 - Streak: ${progress?.streak || 0}
 
-Recommend ${limit} items (courses, lessons, or practice exercises) that would help this student continue learning effectively. 
-Return JSON array: [{type: "course"|"lesson"|"practice", itemId: string, reason: string, score: number}]`;
+Recommend ${limit} items (courses, lessons, or practice exercises) that would help this student continue learning effectively, each with the reason and a relevance score (0-1).`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert educational recommender. Return only valid JSON array.',
+          system: 'You are an expert educational recommender.',
           user: analysisPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['recommendations'],
+            properties: {
+              recommendations: {
+                type: 'array',
+                maxItems: limit,
+                items: {
+                  type: 'object',
+                  required: ['type', 'itemId', 'reason', 'score'],
+                  properties: {
+                    type: { type: 'string', enum: ['course', 'lesson', 'practice'] },
+                    itemId: { type: 'string', minLength: 1 },
+                    reason: { type: 'string' },
+                    score: { type: 'number', minimum: 0, maximum: 1 }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'recommendations'
         },
         context
       );
@@ -163,14 +179,7 @@ Return JSON array: [{type: "course"|"lesson"|"practice", itemId: string, reason:
         return this.success([]);
       }
 
-      let recommendations: Recommendation[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        recommendations = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        // Fallback: return empty
-      }
+      const recommendations: Recommendation[] = llmResult.data.data.recommendations;
 
       // Save recommendations
       for (const rec of recommendations) {
@@ -302,17 +311,23 @@ Return JSON array: [{type: "course"|"lesson"|"practice", itemId: string, reason:
       const analysisPrompt = `Analyze this student's learning behavior:
 ${JSON.stringify(events?.slice(0, 20) || [])}
 
-Determine their learning style (visual, auditory, reading, kinesthetic) and confidence (0-100).
-Return JSON: {learningStyle: string, confidence: number}`;
+Determine their learning style (visual, auditory, reading, kinesthetic) and your confidence in it (0-100).`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert in learning psychology. Return only valid JSON.',
+          system: 'You are an expert in learning psychology.',
           user: analysisPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['learningStyle', 'confidence'],
+            properties: {
+              learningStyle: { type: 'string', enum: ['visual', 'auditory', 'reading', 'kinesthetic'] },
+              confidence: { type: 'number', minimum: 0, maximum: 100 }
+            }
+          },
+          tag: 'learning-style'
         },
         context
       );
@@ -321,16 +336,7 @@ Return JSON: {learningStyle: string, confidence: number}`;
         return this.success({ learningStyle: 'reading', confidence: 50 });
       }
 
-      let result: any;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        result = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        result = { learningStyle: 'reading', confidence: 50 };
-      }
-
-      return this.success(result);
+      return this.success(llmResult.data.data);
     } catch (error: any) {
       return this.error(error.message || 'Failed to detect learning style');
     }
@@ -129,37 +129,34 @@ export class AnalyticsAgent extends BaseAgent {
 - Recent activity: ${events?.length || 0} events
 - Recent engagement: ${JSON.stringify(analytics?.slice(0, 7) || [])}
 
-Return JSON: {type: "completion_probability", value: number (0-100), confidence: number (0-100), explanation: string}`;
+Give the probability of completing the course (0-100), your confidence in it (0-100) and a short explanation.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert in educational analytics. Return only valid JSON.',
+          system: 'You are an expert in educational analytics.',
           user: analysisPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['type', 'value', 'confidence', 'explanation'],
+            properties: {
+              type: { type: 'string', const: 'completion_probability' },
+              value: { type: 'number', minimum: 0, maximum: 100 },
+              confidence: { type: 'number', minimum: 0, maximum: 100 },
+              explanation: { type: 'string' }
+            }
+          },
+          tag: 'completion-prediction'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to predict completion');
+        return this.error(llmResult.error || 'Failed to predict completion');
       }
 
-      let insight: PredictiveInsight;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        insight = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        insight = {
-          type: 'completion_probability',
-          value: 50,
-          confidence: 50,
-          explanation: 'Unable to determine'
-        };
-      }
+      const insight: PredictiveInsight = llmResult.data.data;
 
       return this.success(insight);
     } catch (error: any) {
@@ -203,37 +200,38 @@ Return JSON: {type: "completion_probability", value: number (0-100), confidence:
       const analysisPrompt = `Assess student risk level:
 ${JSON.stringify(riskFactors)}
 
-Return JSON: {type: "at_risk", value: number (0-100, where 0=low risk, 100=high risk), confidence: number, explanation: string}`;
+Give the risk level (0-100, where 0 is low risk and 100 high risk), your confidence in it (0-100) and a short explanation.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert in student retention. Return only valid JSON.',
+          system: 'You are an expert in student retention.',
           user: analysisPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['type', 'value', 'confidence', 'explanation'],
+            properties: {
+              type: { type: 'string', const: 'at_risk' },
+              value: { type: 'number', minimum: 0, maximum: 100 },
+              confidence: { type: 'number', minimum: 0, maximum: 100 },
+              explanation: { type: 'string' }
+            }
+          },
+          tag: 'at-risk-detection'
         },
         context
       );
 
-      if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to detect risk');
-      }
-
-      let insight: PredictiveInsight;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        insight = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        insight = {
-          type: 'at_risk',
-          value: daysSinceLastActivity > 7 ? 70 : 30,
-          confidence: 60,
-          explanation: daysSinceLastActivity > 7 ? 'No activity in over a week' : 'Active student'
-        };
-      }
+      // Without a usable answer from the model, fall back to inactivity alone
+      const insight: PredictiveInsight = llmResult.success && llmResult.data
+        ? llmResult.data.data
+        : {
+            type: 'at_risk',
+            value: daysSinceLastActivity > 7 ? 70 : 30,
+            confidence: 60,
+            explanation: daysSinceLastActivity > 7 ? 'No activity in over a week' : 'Active student'
+          };
 
       return this.success(insight);
     } catch (error: any) {
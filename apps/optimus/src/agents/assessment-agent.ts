@@ -22,6 +22,18 @@ export interface CodeReview {
   score: number;
 }
 
+// A multiple-choice question as generated by the model; correctAnswer is an index into options
+const QUESTION_SCHEMA = {
+  type: 'object',
+  required: ['question', 'options', 'correctAnswer', 'explanation'],
+  properties: {
+    question: { type: 'string', minLength: 1 },
+    options: { type: 'array', minItems: 2, items: { type: 'string' } },
+    correctAnswer: { type: 'integer', minimum: 0 },
+    explanation: { type: 'string' }
+  }
+};
+
 export class AssessmentAgent extends BaseAgent {
   constructor(sutradharClient: SutradharClient) {
     super('AssessmentAgent', 'Advanced assessment and dynamic quiz generation', sutradharClient);
@@ -81,34 +93,31 @@ Create questions that:
 - Match the user's skill level (${difficulty})
 - Test understanding of key concepts
 - Include 4 multiple choice options
-- Provide clear explanations
-
-Return JSON array: [{question: string, options: string[], correctAnswer: number, explanation: string}]`;
+- Provide clear explanations`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert quiz creator. Return only valid JSON array.',
+          system: 'You are an expert quiz creator.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['questions'],
+            properties: {
+              questions: { type: 'array', minItems: 1, items: QUESTION_SCHEMA }
+            }
+          },
+          tag: 'quiz-generation'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate quiz');
+        return this.error(llmResult.error || 'Failed to generate quiz');
       }
 
-      let questions: any[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        questions = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse quiz questions');
-      }
+      const { questions } = llmResult.data.data;
 
       const quizId = `adaptive-${lessonId}-${Date.now()}`;
 
@@ -166,45 +175,50 @@ Provide a comprehensive review covering:
 3. Suggestions for improvement
 4. Overall score (0-100)
 
-Return JSON: {
-  style: {readability: number, formatting: number, comments: string},
-  correctness: {logic: number, edgeCases: string, bugs: string[]},
-  suggestions: string[],
-  score: number
-}`;
+Rate readability, formatting and logic from 0 to 100.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert code reviewer. Return only valid JSON.',
+          system: 'You are an expert code reviewer.',
           user: reviewPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['style', 'correctness', 'suggestions', 'score'],
+            properties: {
+              style: {
+                type: 'object',
+                required: ['readability', 'formatting', 'comments'],
+                properties: {
+                  readability: { type: 'number', minimum: 0, maximum: 100 },
+                  formatting: { type: 'number', minimum: 0, maximum: 100 },
+                  comments: { type: 'string' }
+                }
+              },
+              correctness: {
+                type: 'object',
+                required: ['logic', 'edgeCases', 'bugs'],
+                properties: {
+                  logic: { type: 'number', minimum: 0, maximum: 100 },
+                  edgeCases: { type: 'string' },
+                  bugs: { type: 'array', items: { type: 'string' } }
+                }
+              },
+              suggestions: { type: 'array', items: { type: 'string' } },
+              score: { type: 'number', minimum: 0, maximum: 100 }
+            }
+          },
+          tag: 'code-review'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to review code');
+        return this.error(llmResult.error || 'Failed to review code');
       }
 
-      let review: CodeReview;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        const reviewData = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-        
-        review = {
-          submissionId,
-          style: reviewData.style || {},
-          correctness: reviewData.correctness || {},
-          suggestions: reviewData.suggestions || [],
-          score: reviewData.score || 70
-        };
-      } catch (e) {
-        return this.error('Failed to parse code review');
-      }
+      const review: CodeReview = { submissionId, ...llmResult.data.data };
 
       // Save review
       await this.convexMutation('codeReviews:create', {
@@ -253,49 +267,39 @@ Return JSON: {
       const score = (correct / questions.length) * 100;
 
       // Generate feedback using LLM
-      const feedbackPrompt = `Generate personalized feedback for a quiz attempt:
-
-Score: ${score.toFixed(1)}% (${correct}/${questions.length} correct)
-Questions missed: ${incorrectQuestions.length}
-
-Incorrect questions:
-${incorrectQuestions.map((q, i) => `${i + 1}. ${q.question}`).join('\n')}
-
-Provide:
-1. Overall feedback (encouraging but constructive)
-2. List of strengths (what they did well)
-3. List of areas for improvement (specific topics to review)
-
-Return JSON: {feedback: string, strengths: string[], weaknesses: string[]}`;
-
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are a supportive tutor. Return only valid JSON.',
-          user: feedbackPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          templateId: 'quiz.feedback',
+          variables: {
+            score: score.toFixed(1),
+            correct,
+            total: questions.length,
+            missedCount: incorrectQuestions.length,
+            missedQuestions: incorrectQuestions.map((q, i) => `${i + 1}. ${q.question}`).join('\n')
+          },
+          schema: {
+            type: 'object',
+            required: ['feedback', 'strengths', 'weaknesses'],
+            properties: {
+              feedback: { type: 'string', minLength: 1 },
+              strengths: { type: 'array', items: { type: 'string' } },
+              weaknesses: { type: 'array', items: { type: 'string' } }
+            }
+          }
         },
         context
       );
 
-      if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate feedback');
-      }
-
-      let result: any;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        result = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        result = {
-          feedback: score >= 70 ? 'Good job!' : 'Keep practicing!',
-          strengths: [],
-          weaknesses: []
-        };
-      }
+      // Without a usable answer from the model, the score alone decides the feedback
+      const result = llmResult.success && llmResult.data
+        ? llmResult.data.data
+        : {
+            feedback: score >= 70 ? 'Good job!' : 'Keep practicing!',
+            strengths: [],
+            weaknesses: []
+          };
 
       return this.success(result);
     } catch (error: any) {
@@ -388,33 +392,39 @@ Create questions that:
 - Start at beginner level and gradually increase
 - Include explanations
 - Help reinforce understanding
-
-Return JSON array: [{question: string, options: string[], correctAnswer: number, explanation: string, topic: string}]`;
+- Name the weak area each question covers as its topic`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert educator. Return only valid JSON array.',
+          system: 'You are an expert educator.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['questions'],
+            properties: {
+              questions: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  ...QUESTION_SCHEMA,
+                  required: [...QUESTION_SCHEMA.required, 'topic'],
+                  properties: { ...QUESTION_SCHEMA.properties, topic: { type: 'string' } }
+                }
+              }
+            }
+          },
+          tag: 'practice-questions'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate practice questions');
+        return this.error(llmResult.error || 'Failed to generate practice questions');
       }
 
-      let questions: any[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        questions = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse questions');
-      }
+      const { questions } = llmResult.data.data;
 
       return this.success({ questions });
     } catch (error: any) {
@@ -10,6 +10,9 @@ import crypto from 'crypto';
 // For now, we'll use a simple approach - later this can use Convex via Sutradhar
 // Magic link tokens (in-memory for demo, use Redis in production)
 const magicTokens = new Map<string, { email: string; expiresAt: number }>();
+// Sessions handed out by createGuest/verifyToken; requests are attributed to a user only through one of these
+const sessions = new Map<string, { userId: string; expiresAt: number }>();
+const SESSION_TTL_MS = 30 * 24 * 3600000; // 30 days
 
 export class AuthAgent extends BaseAgent {
   constructor(sutradharClient: SutradharClient) {
@@ -58,7 +61,8 @@ export class AuthAgent extends BaseAgent {
           lastLoginAt: Date.now(),
         };
       }
-      
+
+      sessions.set(sessionId, { userId: guestId, expiresAt: Date.now() + SESSION_TTL_MS });
       return this.success({
         user,
         userId: guestId,
@@ -142,6 +146,7 @@ export class AuthAgent extends BaseAgent {
         lastLoginAt: Date.now(),
       };
 
+      sessions.set(sessionId, { userId, expiresAt: Date.now() + SESSION_TTL_MS });
       return this.success({
         user,
         userId,
@@ -151,5 +156,19 @@ export class AuthAgent extends BaseAgent {
       return this.error(error.message || 'Failed to verify token');
     }
   }
-}
 
+  /**
+   * The user behind a session this agent issued; undefined for unknown or expired sessions
+   */
+  resolveSession(sessionId: string): { userId: string; sessionId: string } | undefined {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    if (Date.now() > session.expiresAt) {
+      sessions.delete(sessionId);
+      return undefined;
+    }
+    return { userId: session.userId, sessionId };
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { SutradharClient } from '../client/sutradhar-client';
-import { AgentTask, AgentResult } from '../sutradhar-client/types';
+import { AgentTask, AgentResult, AgentStreamEvent } from '../sutradhar-client/types';
 
 export { AgentResult } from '../sutradhar-client/types';
 
@@ -73,9 +73,33 @@ export abstract class BaseAgent {
     agentId: string,
     taskType: string,
     payload: any,
-    context?: AgentContext
+    context?: AgentContext,
+    options?: { background?: boolean; timeoutMs?: number }
   ): Promise<AgentResult> {
-    const task: AgentTask = {
+    const task = this.buildTask(taskType, payload, context);
+
+    // Long-running tasks run as background jobs to avoid request timeouts
+    if (options?.background) {
+      return await this.sutradharClient.executeTaskAsync(agentId, task, { timeoutMs: options.timeoutMs });
+    }
+
+    return await this.sutradharClient.executeTask(agentId, task);
+  }
+
+  /**
+   * Execute a task via Sutradhar orchestrator, streaming partial output
+   */
+  protected streamViaSutradhar(
+    agentId: string,
+    taskType: string,
+    payload: any,
+    context?: AgentContext
+  ): AsyncGenerator<AgentStreamEvent> {
+    return this.sutradharClient.executeTaskStream(agentId, this.buildTask(taskType, payload, context));
+  }
+
+  private buildTask(taskType: string, payload: any, context?: AgentContext): AgentTask {
+    return {
       id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type: taskType,
       payload,
@@ -83,10 +107,13 @@ export abstract class BaseAgent {
         sessionId: context?.sessionId,
         userId: context?.userId,
         requestId: context?.requestId,
+        // Sutradhar attributes LLM usage and budgets to the user, course and calling agent
+        courseSlug: context?.courseSlug,
+        // and scopes cached answers to the lesson
+        lessonId: context?.lessonId,
+        agent: this.name,
       },
     };
-
-    return await this.sutradharClient.executeTask(agentId, task);
   }
 
   /**
@@ -142,32 +142,43 @@ export class CodeAgent extends BaseAgent {
 ${code}
 \`\`\`
 
-Return JSON array: [{type: string, severity: "low"|"medium"|"high"|"critical", description: string, line?: number}]`;
+List each vulnerability with its type, severity, a description and the line number when known. Return an empty list if the code has none.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are a security expert. Return only valid JSON array.',
+          system: 'You are a security expert.',
           user: securityPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['vulnerabilities'],
+            properties: {
+              vulnerabilities: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['type', 'severity', 'description'],
+                  properties: {
+                    type: { type: 'string' },
+                    severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+                    description: { type: 'string' },
+                    line: { type: 'integer', minimum: 1 }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'code-security'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to analyze security');
+        return this.error(llmResult.error || 'Failed to analyze security');
       }
 
-      let vulnerabilities: any[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        vulnerabilities = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        vulnerabilities = [];
-      }
+      const { vulnerabilities } = llmResult.data.data;
 
       return this.success({ vulnerabilities });
     } catch (error: any) {
@@ -190,32 +201,42 @@ Return JSON array: [{type: string, severity: "low"|"medium"|"high"|"critical", d
 ${code}
 \`\`\`
 
-Return JSON array: [{type: "naming"|"formatting"|"structure"|"performance", message: string, suggestion: string}]`;
+List each issue with its type, a message and a suggested fix. Return an empty list if there are none.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are a code style expert. Return only valid JSON array.',
+          system: 'You are a code style expert.',
           user: stylePrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['styleIssues'],
+            properties: {
+              styleIssues: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['type', 'message', 'suggestion'],
+                  properties: {
+                    type: { type: 'string', enum: ['naming', 'formatting', 'structure', 'performance'] },
+                    message: { type: 'string' },
+                    suggestion: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'code-style'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to check style');
+        return this.error(llmResult.error || 'Failed to check style');
       }
 
-      let styleIssues: any[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        styleIssues = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        styleIssues = [];
-      }
+      const { styleIssues } = llmResult.data.data;
 
       return this.success({ styleIssues });
     } catch (error: any) {
@@ -240,36 +261,42 @@ ${code}
 
 Provide:
 1. Overall explanation
-2. Line-by-line breakdown (for code under 50 lines)
-
-Return JSON: {explanation: string, lineByLine?: [{line: number, explanation: string}]}`;
+2. Line-by-line breakdown (for code under 50 lines)`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert code explainer. Return only valid JSON.',
+          system: 'You are an expert code explainer.',
           user: explainPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['explanation'],
+            properties: {
+              explanation: { type: 'string', minLength: 1 },
+              lineByLine: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['line', 'explanation'],
+                  properties: {
+                    line: { type: 'integer', minimum: 1 },
+                    explanation: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'code-explanation'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to explain code');
-      }
-
-      let explanation: any;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        explanation = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        explanation = { explanation: 'Unable to generate explanation' };
+        return this.error(llmResult.error || 'Failed to explain code');
       }
 
-      return this.success(explanation);
+      return this.success(llmResult.data.data);
     } catch (error: any) {
       return this.error(error.message || 'Failed to explain code');
     }
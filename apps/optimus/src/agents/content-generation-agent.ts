@@ -76,10 +76,8 @@ export class ContentGenerationAgent extends BaseAgent {
         'llm-agent',
         'chat',
         {
-          system: 'You are an expert educational assistant. Create concise, engaging summaries (2-3 sentences, under 100 words) that capture key concepts and main takeaways.',
-          user: `Lesson Title: ${lesson.title}\n\nContent:\n${excerpt}\n\nGenerate a summary.`,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          templateId: 'lesson.summary',
+          variables: { title: lesson.title || '', content: excerpt }
         },
         context
       );
@@ -135,34 +133,44 @@ For each question, provide:
 - A clear question
 - 4 multiple choice options
 - The correct answer (0-3 index)
-- A brief explanation
-
-Return JSON array: [{question: string, options: string[], correctAnswer: number, explanation: string}]`;
+- A brief explanation`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert quiz creator. Return only valid JSON array.',
+          system: 'You are an expert quiz creator.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['questions'],
+            properties: {
+              questions: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['question', 'options', 'correctAnswer', 'explanation'],
+                  properties: {
+                    question: { type: 'string', minLength: 1 },
+                    options: { type: 'array', minItems: 4, maxItems: 4, items: { type: 'string' } },
+                    correctAnswer: { type: 'integer', minimum: 0, maximum: 3 },
+                    explanation: { type: 'string' }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'quiz-generation'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate quiz');
+        return this.error(llmResult.error || 'Failed to generate quiz');
       }
 
-      let questions: QuizQuestion[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        questions = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse quiz questions');
-      }
+      const questions: QuizQuestion[] = llmResult.data.data.questions;
 
       // Save generated quiz
       await this.convexMutation('dynamicQuizzes:create', {
@@ -206,34 +214,31 @@ Content: ${(lesson.body || '').substring(0, 2000)}
 Each example should be:
 - Clear and concise
 - Relevant to the topic
-- Practical and applicable
-
-Return JSON array: ["example1", "example2", ...]`;
+- Practical and applicable`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert educator. Return only valid JSON array.',
+          system: 'You are an expert educator.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['examples'],
+            properties: {
+              examples: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+            }
+          },
+          tag: 'examples'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate examples');
+        return this.error(llmResult.error || 'Failed to generate examples');
       }
 
-      let examples: string[] = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        examples = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse examples');
-      }
+      const { examples } = llmResult.data.data;
 
       return this.success({ examples });
     } catch (error: any) {
@@ -266,34 +271,42 @@ Content: ${excerpt}
 
 Each flashcard should have:
 - Front: A question or term
-- Back: A concise answer or definition
-
-Return JSON array: [{front: string, back: string}]`;
+- Back: A concise answer or definition`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert in creating study materials. Return only valid JSON array.',
+          system: 'You are an expert in creating study materials.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['flashcards'],
+            properties: {
+              flashcards: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['front', 'back'],
+                  properties: {
+                    front: { type: 'string', minLength: 1 },
+                    back: { type: 'string', minLength: 1 }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'flashcards'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate flashcards');
+        return this.error(llmResult.error || 'Failed to generate flashcards');
       }
 
-      let flashcards: Array<{ front: string; back: string }> = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        flashcards = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse flashcards');
-      }
+      const flashcards: Array<{ front: string; back: string }> = llmResult.data.data.flashcards;
 
       // Save generated content
       await this.convexMutation('generatedContent:create', {
@@ -348,8 +361,7 @@ Format as markdown with headings, bullet points, and code blocks where appropria
         {
           system: 'You are an expert note-taker. Create well-structured markdown notes.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          tag: 'notes'
         },
         context
       );
@@ -393,34 +405,44 @@ Content: ${excerpt}
 For each problem, provide:
 - A clear problem statement
 - A detailed solution
-- 2-3 progressive hints (from light to detailed)
-
-Return JSON array: [{problem: string, solution: string, hints: string[]}]`;
+- 2-3 progressive hints (from light to detailed)`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are an expert problem creator. Return only valid JSON array.',
+          system: 'You are an expert problem creator.',
           user: prompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['problems'],
+            properties: {
+              problems: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                  type: 'object',
+                  required: ['problem', 'solution', 'hints'],
+                  properties: {
+                    problem: { type: 'string', minLength: 1 },
+                    solution: { type: 'string' },
+                    hints: { type: 'array', items: { type: 'string' } }
+                  }
+                }
+              }
+            }
+          },
+          tag: 'practice-problems'
         },
-        context
+        context,
+        { background: true }
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to generate practice problems');
+        return this.error(llmResult.error || 'Failed to generate practice problems');
       }
 
-      let problems: Array<{ problem: string; solution: string; hints: string[] }> = [];
-      try {
-        const text = llmResult.data.text?.trim() || '[]';
-        const jsonMatch = text.match(/\[[\s\S]*\]/);
-        problems = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        return this.error('Failed to parse practice problems');
-      }
+      const problems: Array<{ problem: string; solution: string; hints: string[] }> = llmResult.data.data.problems;
 
       return this.success({ problems });
     } catch (error: any) {
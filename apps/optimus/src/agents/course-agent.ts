@@ -7,7 +7,7 @@ import { BaseAgent, AgentResult, AgentContext } from './base-agent';
 import { SutradharClient } from '../client/sutradhar-client';
 import path from 'path';
 import fs from 'fs';
-import { marked } from 'marked';
+import { Marked } from 'marked';
 
 export interface Course {
   slug: string;
@@ -26,6 +26,26 @@ export interface Lesson {
   difficulty: string;
 }
 
+/**
+ * Anchor ID for a lesson heading, so citations can link to the section they came from
+ */
+export function sectionAnchor(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[`*_~]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Lesson HTML with an id on every heading
+const lessonMarked = new Marked({
+  renderer: {
+    heading({ tokens, depth, text }) {
+      return `<h${depth} id="${sectionAnchor(text)}">${this.parser.parseInline(tokens)}</h${depth}>\n`;
+    },
+  },
+});
+
 export class CourseAgent extends BaseAgent {
   private dataRepoPath: string;
 
@@ -172,6 +192,55 @@ export class CourseAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Send lesson files to Sutradhar's retrieval index
+   * Sutradhar chunks them and only re-indexes lessons that changed since the last run, unless `force` is set;
+   * lessons whose files were deleted are removed from the index
+   */
+  async indexLessons(options: { courseSlug?: string; force?: boolean } = {}, context?: AgentContext): Promise<AgentResult> {
+    try {
+      let courseDirs: string[];
+      if (options.courseSlug) {
+        const courseDir = this._findCourseDirectory(options.courseSlug);
+        if (!courseDir) {
+          return this.error(`Course not found: ${options.courseSlug}`);
+        }
+        courseDirs = [courseDir];
+      } else {
+        courseDirs = fs.readdirSync(this.dataRepoPath, { withFileTypes: true })
+          .filter(dirent => dirent.isDirectory())
+          .map(dirent => dirent.name)
+          .filter(name => !name.startsWith('.') && name !== 'node_modules');
+      }
+
+      const slugOf = (dir: string) => dir.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+      // Same sources and metadata Sutradhar uses when it seeds its own index, so chunk IDs line up
+      const documents = courseDirs.flatMap(dir => {
+        const courseSlug = slugOf(dir);
+        return fs.readdirSync(path.join(this.dataRepoPath, dir))
+          .filter(file => file.endsWith('.md'))
+          .sort()
+          .map(file => ({
+            source: `${dir}/${file}`,
+            text: fs.readFileSync(path.join(this.dataRepoPath, dir, file), 'utf-8'),
+            metadata: { file: `${dir}/${file}`, courseSlug, lessonId: file.replace('.md', '') },
+          }));
+      });
+
+      return await this.executeViaSutradhar(
+        'retrieval-agent',
+        'ingest',
+        // Every lesson of the course (or of all courses) is sent, so Sutradhar can drop the ones that are gone
+        { documents, force: options.force, sync: options.courseSlug ? { courseSlug: slugOf(courseDirs[0]) } : true },
+        context,
+        { background: true }
+      );
+    } catch (error: any) {
+      return this.error(error.message || 'Failed to index lessons');
+    }
+  }
+
   /**
    * Get a specific lesson
    */
@@ -189,7 +258,7 @@ export class CourseAgent extends BaseAgent {
       }
 
       const markdownContent = fs.readFileSync(lessonPath, 'utf-8');
-      const htmlContent = await marked(markdownContent);
+      const htmlContent = await lessonMarked.parse(markdownContent);
 
       // Extract title from first line or filename
       const title = lessonId.replace(/_/g, ' ').replace(/Lesson\s+\d+\s+/, '');
@@ -218,9 +287,6 @@ export class CourseAgent extends BaseAgent {
         console.warn(`Failed to sync lesson to Convex: ${syncError.message}`);
       }
 
-      // TODO: Use Sutradhar to index content via retrieval agent
-      // await this.executeViaSutradhar('retrieval-agent', 'index', { documents: [...] });
-
       return this.success(lesson);
     } catch (error: any) {
       return this.error(error.message || 'Failed to get lesson');
@@ -3,8 +3,46 @@
  * Uses Sutradhar orchestrator for LLM and retrieval
  */
 
+import { createHash } from 'crypto';
 import { BaseAgent, AgentResult, AgentContext } from './base-agent';
+import { sectionAnchor } from './course-agent';
 import { SutradharClient } from '../client/sutradhar-client';
+import { LLMMessage, PromptSelection } from '../sutradhar-client/types';
+
+/**
+ * A lesson passage the answer cites inline as `[id]`
+ */
+export interface Citation {
+  id: string;
+  source: string;
+  courseSlug?: string;
+  lessonId?: string;
+  section?: string;   // Heading breadcrumb, e.g. "Lesson 2 > Encapsulation"
+  url?: string;       // Lesson page, anchored to the section when known
+  excerpt: string;
+  score?: number;
+  scope?: 'lesson' | 'course' | 'global';   // How far retrieval had to widen to find it
+}
+
+// `prompt` is the template variant that produced the answer, for comparing variants against learning outcomes
+// `unverifiedCitations` are labels the model cited that weren't among the retrieved sources; they're removed from `answer`
+export type TutoringAnswer = {
+  answer: string;
+  method?: 'direct' | 'socratic';
+  followUp?: string;
+  prompt?: PromptSelection;
+  citations?: Citation[];
+  unverifiedCitations?: string[];
+};
+
+type LabelledSources = Map<string, any>;
+
+const CITATION_PATTERN = /(\s*)\[(S[0-9a-f]+(?:\s*,\s*S[0-9a-f]+)*)\]/gi;
+const MAX_EXCERPT_LENGTH = 240;
+
+export type TutoringStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: AgentResult<TutoringAnswer> };
 
 export class TutoringAgent extends BaseAgent {
   constructor(sutradharClient: SutradharClient) {
@@ -18,46 +56,17 @@ export class TutoringAgent extends BaseAgent {
   async answer(
     question: string,
     context?: AgentContext
-  ): Promise<AgentResult<{ answer: string; method?: 'direct' | 'socratic'; followUp?: string }>> {
+  ): Promise<AgentResult<TutoringAnswer>> {
     try {
-      // Get conversation history if available
-      const conversationHistory = context?.conversationHistory || [];
-      
-      // Step 1: Get relevant context via retrieval agent
-      const retrievalResult = await this.executeViaSutradhar(
-        'retrieval-agent',
-        'search',
-        { query: question, maxResults: 5 },
-        context
-      );
-
-      if (!retrievalResult.success) {
-        return this.error('Failed to retrieve context');
+      // Step 1: Get relevant context and build the prompts
+      const prepared = await this.prepareAnswer(question, context);
+      if (!prepared.success || !prepared.data) {
+        return this.error(prepared.error || 'Failed to retrieve context');
       }
-
-      const snippets = retrievalResult.data?.snippets || [];
-
-      // Determine if Socratic method should be used (for learning questions, not factual)
-      const shouldUseSocratic = this.shouldUseSocraticMethod(question, context);
-
-      const systemPrompt = shouldUseSocratic
-        ? 'You are a Socratic tutor. Instead of giving direct answers, ask leading questions that guide students to discover the answer themselves. Encourage critical thinking. Only provide hints, not full solutions.'
-        : 'You are a helpful tutor. Answer questions based on the provided context. For coding problems, provide guidance but never give full solutions.';
-
-      const userPrompt = `Context:\n${snippets.map((s: any) => s.text).join('\n\n')}\n\nQuestion: ${question}${conversationHistory.length > 0 ? `\n\nPrevious conversation:\n${conversationHistory.slice(-3).map((m: any) => `${m.role}: ${m.content}`).join('\n')}` : ''}`;
+      const { socratic, payload, sources } = prepared.data;
 
       // Step 2: Use LLM agent to generate answer
-      const llmResult = await this.executeViaSutradhar(
-        'llm-agent',
-        'chat',
-        {
-          system: systemPrompt,
-          user: userPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
-        },
-        context
-      );
+      const llmResult = await this.executeViaSutradhar('llm-agent', 'chat', payload, context);
 
       if (!llmResult.success) {
         return this.error(llmResult.error || 'Failed to generate answer');
@@ -65,34 +74,219 @@ export class TutoringAgent extends BaseAgent {
 
       const answer = llmResult.data?.text || 'Unable to generate answer';
 
-      // Generate follow-up question if using Socratic method
-      let followUp: string | undefined;
-      if (shouldUseSocratic) {
-        const followUpResult = await this.executeViaSutradhar(
-          'llm-agent',
-          'chat',
-          {
-            system: 'Generate a follow-up question that encourages deeper thinking about the topic.',
-            user: `Topic: ${question}\nAnswer given: ${answer}\n\nGenerate a thought-provoking follow-up question.`,
-            provider: 'openai',
-            model: 'gpt-4o-mini'
-          },
-          context
-        );
+      return this.success({
+        ...this.verifyCitations(answer, sources),
+        method: socratic ? 'socratic' : 'direct',
+        followUp: socratic ? await this.generateFollowUp(question, answer, context) : undefined,
+        prompt: llmResult.metadata?.prompt
+      });
+    } catch (error: any) {
+      return this.error(error.message || 'Failed to answer question');
+    }
+  }
+
+  /**
+   * Same as answer(), but yields the answer text as the LLM produces it
+   * Always ends with a `done` event carrying the full result
+   */
+  async *answerStream(
+    question: string,
+    context?: AgentContext
+  ): AsyncGenerator<TutoringStreamEvent> {
+    try {
+      const prepared = await this.prepareAnswer(question, context);
+      if (!prepared.success || !prepared.data) {
+        yield { type: 'done', result: this.error(prepared.error || 'Failed to retrieve context') };
+        return;
+      }
+      const { socratic, payload, sources } = prepared.data;
 
-        if (followUpResult.success) {
-          followUp = followUpResult.data?.text || undefined;
+      let answer = '';
+      let llmResult: AgentResult | undefined;
+      for await (const event of this.streamViaSutradhar('llm-agent', 'chat', payload, context)) {
+        if (event.type === 'delta') {
+          answer += event.text;
+          yield { type: 'delta', text: event.text };
+        } else {
+          llmResult = event.result;
         }
       }
 
-      return this.success({
-        answer,
-        method: shouldUseSocratic ? 'socratic' : 'direct',
-        followUp
-      });
+      if (!llmResult?.success) {
+        yield { type: 'done', result: this.error(llmResult?.error || 'Failed to generate answer') };
+        return;
+      }
+
+      answer = llmResult.data?.text || answer || 'Unable to generate answer';
+
+      yield {
+        type: 'done',
+        result: this.success({
+          ...this.verifyCitations(answer, sources),
+          method: socratic ? 'socratic' : 'direct',
+          followUp: socratic ? await this.generateFollowUp(question, answer, context) : undefined,
+          prompt: llmResult.metadata?.prompt
+        }),
+      };
     } catch (error: any) {
-      return this.error(error.message || 'Failed to answer question');
+      yield { type: 'done', result: this.error(error.message || 'Failed to answer question') };
+    }
+  }
+
+  /**
+   * Retrieval starts from the lesson being viewed (or its course) when the caller knows it, and only widens
+   * past it when that turns up too little
+   */
+  private retrievalFilters(context?: AgentContext): Record<string, string> | undefined {
+    const filters: Record<string, string> = {};
+    if (context?.courseSlug) filters.courseSlug = context.courseSlug;
+    if (context?.lessonId) filters.lessonId = context.lessonId;
+    return Object.keys(filters).length > 0 ? filters : undefined;
+  }
+
+  /**
+   * Retrieve context and build the chat payload for a question
+   * Answers are grounded unless `context.grounded` is false: snippets are reranked and labelled, and the
+   * model cites the labels inline
+   */
+  private async prepareAnswer(
+    question: string,
+    context?: AgentContext
+  ): Promise<AgentResult<{ socratic: boolean; payload: any; sources?: LabelledSources }>> {
+    // Get conversation history if available
+    const conversationHistory = context?.conversationHistory || [];
+    const grounded = context?.grounded !== false;
+
+    const retrievalResult = await this.executeViaSutradhar(
+      'retrieval-agent',
+      'search',
+      { query: question, maxResults: 5, filters: this.retrievalFilters(context), widen: true, rerank: grounded },
+      context
+    );
+
+    if (!retrievalResult.success) {
+      // A guardrail's reason (e.g. where to find help) is written for the student
+      const blocked = retrievalResult.metadata?.guardrails?.outcome === 'block';
+      return this.error(blocked && retrievalResult.error ? retrievalResult.error : 'Failed to retrieve context');
+    }
+
+    const snippets = retrievalResult.data?.snippets || [];
+    const sources = grounded ? this.labelSources(snippets) : undefined;
+
+    // Determine if Socratic method should be used (for learning questions, not factual)
+    const shouldUseSocratic = this.shouldUseSocraticMethod(question, context);
+
+
+    // Prior turns go to the model as real messages rather than pasted into the prompt
+    const messages: LLMMessage[] = conversationHistory
+      .slice(-6)
+      .filter((m: any) => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string')
+      .map((m: any) => ({ role: m.role, content: m.content }));
+
+    return this.success({
+      socratic: shouldUseSocratic,
+      payload: {
+        // Prompts live in Sutradhar's registry (prompts/tutor.*.json) so they can change without a deploy
+        // Version 2 of the tutor templates asks for inline citations
+        templateId: shouldUseSocratic ? 'tutor.socratic' : 'tutor.direct',
+        templateVersion: sources ? 2 : 1,
+        variables: {
+          context: sources
+            ? [...sources].map(([id, s]) => `[${id}] ${s.metadata?.breadcrumb || s.source}\n${s.text}`).join('\n\n')
+            : snippets.map((s: any) => s.text).join('\n\n'),
+          question
+        },
+        messages,
+        // Students ask the same things about a lesson; first-turn answers are reused across similar questions
+        semanticCache: { key: question }
+      },
+      sources,
+    });
+  }
+
+  /**
+   * Labels come from the chunk ID rather than the snippet's position, so an answer reused from the
+   * semantic cache still cites the passages it was written from
+   */
+  private labelSources(snippets: any[]): LabelledSources {
+    const sources: LabelledSources = new Map();
+    for (const snippet of snippets) {
+      const key = snippet.metadata?.documentId || `${snippet.source}:${snippet.text}`;
+      let id = `S${createHash('sha1').update(key).digest('hex').slice(0, 4)}`;
+      while (sources.has(id)) id += '0';
+      sources.set(id, snippet);
     }
+    return sources;
+  }
+
+  /**
+   * Keep only citations of retrieved sources and list them in order of first use
+   */
+  private verifyCitations(
+    answer: string,
+    sources?: LabelledSources
+  ): Pick<TutoringAnswer, 'answer' | 'citations' | 'unverifiedCitations'> {
+    if (!sources) {
+      return { answer };
+    }
+
+    const cited: string[] = [];
+    const unverified = new Set<string>();
+    const text = answer.replace(CITATION_PATTERN, (_match, space: string, group: string) => {
+      const ids = group.split(/\s*,\s*/).map(id => `S${id.slice(1).toLowerCase()}`);
+      const valid = ids.filter(id => sources.has(id));
+      ids.filter(id => !sources.has(id)).forEach(id => unverified.add(id));
+      valid.forEach(id => cited.includes(id) || cited.push(id));
+      return valid.length > 0 ? `${space}[${valid.join(', ')}]` : '';
+    });
+
+    return {
+      answer: text,
+      citations: cited.map(id => this.toCitation(id, sources.get(id))),
+      unverifiedCitations: unverified.size > 0 ? [...unverified] : undefined,
+    };
+  }
+
+  private toCitation(id: string, snippet: any): Citation {
+    const metadata = snippet.metadata || {};
+    const sectionPath: string[] = metadata.sectionPath || [];
+    let url = snippet.url;
+    if (!url && metadata.courseSlug && metadata.lessonId) {
+      url = `/lesson/${encodeURIComponent(metadata.lessonId)}?courseSlug=${encodeURIComponent(metadata.courseSlug)}`;
+      if (sectionPath.length > 0) {
+        url += `#${sectionAnchor(sectionPath[sectionPath.length - 1])}`;
+      }
+    }
+
+    const text = String(snippet.text || '').trim();
+    return {
+      id,
+      source: snippet.source,
+      courseSlug: metadata.courseSlug,
+      lessonId: metadata.lessonId,
+      section: metadata.breadcrumb || undefined,
+      url,
+      excerpt: text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}...` : text,
+      score: snippet.score,
+      scope: metadata.scope,
+    };
+  }
+
+  /**
+   * Generate a follow-up question for Socratic answers
+   */
+  private async generateFollowUp(question: string, answer: string, context?: AgentContext): Promise<string | undefined> {
+    const followUpResult = await this.executeViaSutradhar(
+      'llm-agent',
+      'chat',
+      {
+        templateId: 'tutor.follow-up',
+        variables: { question, answer }
+      },
+      context
+    );
+
+    return followUpResult.success ? followUpResult.data?.text || undefined : undefined;
   }
 
   /**
@@ -135,38 +329,35 @@ Provide:
 2. Logic warnings (potential issues)
 3. Style suggestions
 
-Return JSON: {errors: string[], warnings: string[], suggestions: string[]}`;
+Use an empty list for any of them that has nothing to report.`;
 
       const llmResult = await this.executeViaSutradhar(
         'llm-agent',
-        'chat',
+        'chatStructured',
         {
-          system: 'You are a code analyzer. Return only valid JSON.',
+          system: 'You are a code analyzer.',
           user: analysisPrompt,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          schema: {
+            type: 'object',
+            required: ['errors', 'warnings', 'suggestions'],
+            properties: {
+              errors: { type: 'array', items: { type: 'string' } },
+              warnings: { type: 'array', items: { type: 'string' } },
+              suggestions: { type: 'array', items: { type: 'string' } }
+            }
+          },
+          tag: 'code-analysis'
         },
         context
       );
 
       if (!llmResult.success || !llmResult.data) {
-        return this.error('Failed to analyze code');
+        return this.error(llmResult.error || 'Failed to analyze code');
       }
 
-      let analysis: any;
-      try {
-        const text = llmResult.data.text?.trim() || '{}';
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        analysis = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-      } catch (e) {
-        analysis = { errors: [], warnings: [], suggestions: [] };
-      }
+      const { suggestions, errors, warnings } = llmResult.data.data;
 
-      return this.success({
-        suggestions: analysis.suggestions || [],
-        errors: analysis.errors || [],
-        warnings: analysis.warnings || []
-      });
+      return this.success({ suggestions, errors, warnings });
     } catch (error: any) {
       return this.error(error.message || 'Failed to analyze code');
     }
@@ -3,13 +3,22 @@
  */
 
 import fetch from 'node-fetch';
-import { AgentDefinition, AgentTask, AgentResult } from '../sutradhar-client/types';
+import { AgentDefinition, AgentCapability, AgentTask, AgentResult, AgentJob, AgentSelector, AgentStreamEvent, WorkflowDefinition, WorkflowRun } from '../sutradhar-client/types';
 
 export class SutradharClient {
   private baseUrl: string;
+  private apiKey?: string;
 
-  constructor(baseUrl: string = 'http://localhost:3999') { // Hardcoded Sutradhar URL
+  constructor(baseUrl: string = 'http://localhost:3999', apiKey: string | undefined = process.env.SUTRADHAR_API_KEY) { // Hardcoded Sutradhar URL
     this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * Request headers, with credentials when Sutradhar requires auth
+   */
+  private headers(extra: Record<string, string> = {}): Record<string, string> {
+    return this.apiKey ? { ...extra, 'X-API-Key': this.apiKey } : extra;
   }
 
   /**
@@ -19,7 +28,7 @@ export class SutradharClient {
     try {
       const response = await fetch(`${this.baseUrl}/orchestrator/agents/register`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers({ 'Content-Type': 'application/json' }),
         body: JSON.stringify(definition),
       });
 
@@ -40,7 +49,7 @@ export class SutradharClient {
     try {
       const response = await fetch(`${this.baseUrl}/orchestrator/tasks/execute`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.headers({ 'Content-Type': 'application/json' }),
         body: JSON.stringify({ agentId, task }),
       });
 
@@ -54,12 +63,243 @@ export class SutradharClient {
     }
   }
 
+  /**
+   * Execute a task on any agent matching the selector (type/capability)
+   * Sutradhar picks the instance and fails over to the next one on errors
+   */
+  async executeRoutedTask(selector: AgentSelector, task: AgentTask): Promise<AgentResult> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/tasks/execute`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ selector, task }),
+      });
+
+      const result = await response.json() as AgentResult;
+      return result;
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to execute task',
+      };
+    }
+  }
+
+  /**
+   * Execute a task and stream its output (Server-Sent Events)
+   * Yields `delta` events as text arrives and always ends with one `result` event
+   */
+  async *executeTaskStream(agentId: string, task: AgentTask): AsyncGenerator<AgentStreamEvent> {
+    let response;
+    try {
+      response = await fetch(`${this.baseUrl}/orchestrator/tasks/stream`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json', Accept: 'text/event-stream' }),
+        body: JSON.stringify({ agentId, task }),
+      });
+    } catch (error: any) {
+      yield { type: 'result', result: { success: false, error: error.message || 'Failed to execute task' } };
+      return;
+    }
+
+    if (!response.ok || !response.body) {
+      const result = await response.json().catch(() => ({})) as { error?: string };
+      yield { type: 'result', result: { success: false, error: result.error || `HTTP ${response.status}` } };
+      return;
+    }
+
+    let buffer = '';
+    let finished = false;
+    for await (const chunk of response.body as AsyncIterable<Buffer | string>) {
+      buffer += chunk.toString();
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = this.parseSseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        if (event?.event === 'delta') {
+          yield { type: 'delta', text: event.data.text };
+        } else if (event?.event === 'result') {
+          finished = true;
+          const { ok, ...result } = event.data;
+          yield { type: 'result', result: result as AgentResult };
+        }
+      }
+    }
+
+    if (!finished) {
+      yield { type: 'result', result: { success: false, error: 'Stream ended without a result' } };
+    }
+  }
+
+  private parseSseEvent(block: string): { event: string; data: any } | null {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+
+    if (dataLines.length === 0) return null;
+    try {
+      return { event, data: JSON.parse(dataLines.join('\n')) };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Submit a task for background execution, returns a job ID
+   */
+  async submitTask(agentId: string, task: AgentTask, timeoutMs?: number): Promise<{ ok: boolean; jobId?: string; status?: string; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/tasks/execute`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ agentId, task, timeoutMs, async: true }),
+      });
+
+      const result = await response.json() as { ok: boolean; jobId?: string; status?: string; error?: string };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to submit task',
+      };
+    }
+  }
+
+  /**
+   * Get background job status and result
+   */
+  async getJob(jobId: string): Promise<{ ok: boolean; job?: AgentJob; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/tasks/${jobId}`, { headers: this.headers() });
+      const result = await response.json() as { ok: boolean; job?: AgentJob; error?: string };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to get job',
+      };
+    }
+  }
+
+  /**
+   * Cancel a background job
+   */
+  async cancelJob(jobId: string): Promise<{ ok: boolean; job?: AgentJob; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/tasks/${jobId}`, { method: 'DELETE', headers: this.headers() });
+      const result = await response.json() as { ok: boolean; job?: AgentJob; error?: string };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to cancel job',
+      };
+    }
+  }
+
+  /**
+   * Execute a long-running task as a background job and poll until it finishes
+   * Not subject to the orchestrator's synchronous request timeout
+   */
+  async executeTaskAsync(
+    agentId: string,
+    task: AgentTask,
+    options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+  ): Promise<AgentResult> {
+    const timeoutMs = options.timeoutMs ?? 600000;
+    const pollIntervalMs = options.pollIntervalMs ?? 1000;
+
+    const submitted = await this.submitTask(agentId, task, timeoutMs);
+    if (!submitted.ok || !submitted.jobId) {
+      return {
+        success: false,
+        error: submitted.error || 'Failed to submit task',
+      };
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+
+      const { ok, job, error } = await this.getJob(submitted.jobId);
+      if (!ok || !job) {
+        return { success: false, error: error || 'Job not found' };
+      }
+
+      if (job.status === 'succeeded' || job.status === 'failed') {
+        return job.result || { success: false, error: job.error || 'Job finished without a result' };
+      }
+      if (job.status === 'cancelled') {
+        return { success: false, error: 'Job cancelled' };
+      }
+    }
+
+    await this.cancelJob(submitted.jobId);
+    return {
+      success: false,
+      error: `Job ${submitted.jobId} did not finish within ${timeoutMs}ms`,
+    };
+  }
+
+  /**
+   * Register (or replace) a workflow definition
+   */
+  async registerWorkflow(definition: WorkflowDefinition): Promise<{ ok: boolean; workflow?: any; error?: string; errors?: string[] }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/workflows`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify(definition),
+      });
+
+      const result = await response.json() as { ok: boolean; workflow?: any; error?: string; errors?: string[] };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to register workflow',
+      };
+    }
+  }
+
+  /**
+   * Run a registered workflow and wait for the result
+   */
+  async runWorkflow(workflowId: string, input: any = {}, context?: AgentTask['context']): Promise<{ ok: boolean; run?: WorkflowRun; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/workflows/${workflowId}/run`, {
+        method: 'POST',
+        headers: this.headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ input, context }),
+      });
+
+      const result = await response.json() as { ok: boolean; run?: WorkflowRun; error?: string };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to run workflow',
+      };
+    }
+  }
+
   /**
    * Get agent by ID
    */
   async getAgent(agentId: string): Promise<{ ok: boolean; agent?: any; error?: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/orchestrator/agents/${agentId}`);
+      const response = await fetch(`${this.baseUrl}/orchestrator/agents/${agentId}`, { headers: this.headers() });
       const result = await response.json() as { ok: boolean; agents?: any[]; error?: string };
       return result;
     } catch (error: any) {
@@ -70,12 +310,28 @@ export class SutradharClient {
     }
   }
 
+  /**
+   * Get an agent's capabilities with their payload/result schemas
+   */
+  async getCapabilities(agentId: string): Promise<{ ok: boolean; capabilities?: AgentCapability[]; error?: string }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/orchestrator/agents/${agentId}/capabilities`, { headers: this.headers() });
+      const result = await response.json() as { ok: boolean; capabilities?: AgentCapability[]; error?: string };
+      return result;
+    } catch (error: any) {
+      return {
+        ok: false,
+        error: error.message || 'Failed to get capabilities',
+      };
+    }
+  }
+
   /**
    * List all agents
    */
   async listAgents(): Promise<{ ok: boolean; agents?: any[]; error?: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/orchestrator/agents`);
+      const response = await fetch(`${this.baseUrl}/orchestrator/agents`, { headers: this.headers() });
       const result = await response.json() as { ok: boolean; agents?: any[]; error?: string };
       return result;
     } catch (error: any) {
@@ -91,7 +347,7 @@ export class SutradharClient {
    */
   async checkHealth(agentId: string): Promise<{ ok: boolean; health?: any; error?: string }> {
     try {
-      const response = await fetch(`${this.baseUrl}/orchestrator/agents/${agentId}/health`);
+      const response = await fetch(`${this.baseUrl}/orchestrator/agents/${agentId}/health`, { headers: this.headers() });
       const result = await response.json() as { ok: boolean; health?: any; error?: string };
       return result;
     } catch (error: any) {
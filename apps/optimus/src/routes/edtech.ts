@@ -6,9 +6,10 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { SutradharClient } from '../client/sutradhar-client';
+import { LLMTool, LLMToolCall } from '../sutradhar-client/types';
 import { AuthAgent } from '../agents/auth-agent';
 import { CourseAgent } from '../agents/course-agent';
-import { TutoringAgent } from '../agents/tutoring-agent';
+import { TutoringAgent, TutoringStreamEvent } from '../agents/tutoring-agent';
 import { QuizAgent } from '../agents/quiz-agent';
 import { CodeAgent } from '../agents/code-agent';
 import { ProgressAgent } from '../agents/progress-agent';
@@ -51,6 +52,56 @@ const asyncHandler = (fn: (req: Request, res: Response) => Promise<void | Respon
   };
 };
 
+// Clients opt into streaming with ?stream=true or Accept: text/event-stream
+const wantsStream = (req: Request) => {
+  return req.query.stream === 'true' || (req.headers.accept || '').includes('text/event-stream');
+};
+
+// Who is asking, for Sutradhar's per-user LLM budgets and usage: the user of the session the client presents,
+// if /auth/guest or /auth/verify issued it. A client-sent userId is never trusted; unknown sessions bill as anonymous
+const requester = (req: Request) => {
+  const sessionId = req.body?.sessionId || req.query.sessionId;
+  const session = typeof sessionId === 'string' && sessionId ? authAgent.resolveSession(sessionId) : undefined;
+  return {
+    requestId: req.headers['x-request-id'] as string,
+    ...session,
+  };
+};
+
+// Send tutoring output as Server-Sent Events: `delta` ({ text }) chunks, then `done` or `error`
+const streamAnswer = async (res: Response, events: AsyncIterable<TutoringStreamEvent>) => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // The compression middleware buffers output until flushed
+    (res as any).flush?.();
+  };
+
+  for await (const event of events) {
+    if (closed) break;
+    if (event.type === 'delta') {
+      send('delta', { text: event.text });
+    } else if (event.result.success) {
+      send('done', { ok: true, ...event.result.data });
+    } else {
+      send('error', { ok: false, error: event.result.error });
+    }
+  }
+
+  res.end();
+};
+
 // ========== Auth Routes ==========
 
 router.post('/auth/guest', asyncHandler(async (req: Request, res: Response) => {
@@ -128,6 +179,45 @@ router.get('/lesson/:id', asyncHandler(async (req: Request, res: Response) => {
 
 // ========== Tutoring Routes ==========
 
+/**
+ * Actions the lesson assistant can take, offered to the model as tools
+ */
+const LESSON_TOOLS: LLMTool[] = [
+  {
+    name: 'send_slack_message',
+    description: 'Share the current lesson link in the team Slack channel',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'create_github_issue',
+    description: 'Open a GitHub issue asking to expand or improve the current lesson',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'schedule_study_reminder',
+    description: 'Create a calendar reminder to study the current lesson later',
+    parameters: {
+      type: 'object',
+      properties: {
+        hoursFromNow: { type: 'number', description: 'How many hours from now to schedule the reminder' }
+      },
+      required: ['hoursFromNow']
+    }
+  },
+  {
+    name: 'summarize_lesson',
+    description: 'Summarize the current lesson content',
+    parameters: { type: 'object', properties: {} }
+  }
+];
+
+const LESSON_TOOL_INTENTS: Record<string, string> = {
+  send_slack_message: 'slack',
+  create_github_issue: 'github',
+  schedule_study_reminder: 'calendar',
+  summarize_lesson: 'summary'
+};
+
 router.post('/lesson/:id/query', asyncHandler(async (req: Request, res: Response) => {
   const { query, url } = req.body;
   if (!query || typeof query !== 'string') {
@@ -153,50 +243,26 @@ router.post('/lesson/:id/query', asyncHandler(async (req: Request, res: Response
   const lessonTitle = lesson.title || '';
   const lessonUrl = url || `http://localhost:3777/lesson/${lessonId}?courseSlug=${courseSlug}`; // Hardcoded Masterbolt URL
   
-  // Use Sutradhar LLM agent to detect intent
-  const intentPrompt = `Analyze the following user query and determine the intent. The user is viewing a lesson titled "${lessonTitle}".
-
-Query: "${query}"
-
-Possible intents:
-1. "question" - Regular question about the lesson content
-2. "slack" - User wants to send a Slack message with the lesson URL
-3. "github" - User wants to create a GitHub issue to expand on the lesson
-4. "calendar" - User wants to set a calendar reminder to study this lesson
-5. "summary" - User wants a summary of the lesson
-
-Respond ONLY with a JSON object in this exact format:
-{
-  "intent": "question|slack|github|calendar|summary",
-  "parameters": {}
-}`;
-
-  const intentResult = await sutradharClient.executeTask('llm-agent', {
+  // Let the model pick a lesson action via tool calling; no tool call means a regular question
+  const toolResult = await sutradharClient.executeTask('llm-agent', {
     id: `intent-${Date.now()}`,
-    type: 'chat',
+    type: 'chatWithTools',
     payload: {
-      system: 'You are an intent classifier. Respond only with valid JSON.',
-      user: intentPrompt,
-      provider: 'openai',
-      model: 'gpt-4o-mini'
+      templateId: 'lesson.assistant',
+      // The student's text goes in `question`, the field Sutradhar's guardrails check
+      variables: { lessonTitle, question: query },
+      tools: LESSON_TOOLS,
+      toolChoice: 'auto'
     },
-    context: { requestId: req.headers['x-request-id'] as string }
+    context: { ...requester(req), sessionId, courseSlug, lessonId }
   });
   
-  if (!intentResult.success || !intentResult.data) {
+  if (!toolResult.success || !toolResult.data) {
     return res.status(500).json({ ok: false, error: 'Failed to process intent' });
   }
   
-  let intentData: any;
-  try {
-    const text = intentResult.data.text?.trim() || '{}';
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    intentData = JSON.parse(jsonMatch ? jsonMatch[0] : text);
-  } catch (e) {
-    intentData = { intent: 'question', parameters: {} };
-  }
-  
-  const intent = intentData.intent || 'question';
+  const toolCall: LLMToolCall | undefined = (toolResult.data.toolCalls || [])[0];
+  const intent = (toolCall && LESSON_TOOL_INTENTS[toolCall.name]) || 'question';
   
   // Handle different intents via Sutradhar action agent
   switch (intent) {
@@ -252,12 +318,8 @@ Respond ONLY with a JSON object in this exact format:
     }
     
     case 'calendar': {
-      const timeStr = intentData.parameters?.time || '1 hour';
-      let hours = 1;
-      const hourMatch = timeStr.match(/(\d+)\s*hour/i);
-      if (hourMatch) {
-        hours = parseInt(hourMatch[1], 10);
-      }
+      const requestedHours = Number(toolCall?.arguments?.hoursFromNow);
+      const hours = Number.isFinite(requestedHours) && requestedHours > 0 ? requestedHours : 1;
       
       const startTime = new Date(Date.now() + hours * 3600000);
       const endTime = new Date(startTime.getTime() + 3600000);
@@ -303,12 +365,10 @@ Respond ONLY with a JSON object in this exact format:
         id: `summary-${Date.now()}`,
         type: 'chat',
         payload: {
-          system: `You are a helpful educational assistant. Summarize the following lesson content in 2-3 sentences (under 100 words). Focus on key concepts and main takeaways. Make it concise and engaging.`,
-          user: `Lesson Title: ${lesson.title}\n\nContent:\n${excerpt}`,
-          provider: 'openai',
-          model: 'gpt-4o-mini'
+          templateId: 'lesson.summary',
+          variables: { title: lesson.title || '', content: excerpt }
         },
-        context: { requestId: req.headers['x-request-id'] as string }
+        context: { ...requester(req), sessionId, courseSlug, lessonId }
       });
       
       if (!summaryResult.success || !summaryResult.data) {
@@ -325,12 +385,18 @@ Respond ONLY with a JSON object in this exact format:
     
     default: {
       // Regular question - use tutoring agent
-      const result = await tutoringAgent.answer(query, { 
-        requestId: req.headers['x-request-id'] as string,
+      const context = {
+        ...requester(req),
         sessionId,
         courseSlug,
         lessonId
-      });
+      };
+
+      if (wantsStream(req)) {
+        return streamAnswer(res, tutoringAgent.answerStream(query, context));
+      }
+
+      const result = await tutoringAgent.answer(query, context);
       
       res.status(result.success ? 200 : 500).json({
         ok: result.success,
@@ -361,12 +427,10 @@ router.post('/lesson/:id/summarize', asyncHandler(async (req: Request, res: Resp
     id: `summary-${Date.now()}`,
     type: 'chat',
     payload: {
-      system: `You are a helpful educational assistant. Summarize the following lesson content in 2-3 sentences (under 100 words). Focus on key concepts and main takeaways. Make it concise and engaging.`,
-      user: `Lesson Title: ${lesson.title}\n\nContent:\n${excerpt}`,
-      provider: 'openai',
-      model: 'gpt-4o-mini'
+      templateId: 'lesson.summary',
+      variables: { title: lesson.title || '', content: excerpt }
     },
-    context: { requestId: req.headers['x-request-id'] as string }
+    context: { ...requester(req), courseSlug, lessonId }
   });
   
   if (!summaryResult.success || !summaryResult.data) {
@@ -392,7 +456,7 @@ router.post('/lesson/:id/answer', asyncHandler(async (req: Request, res: Respons
   const courseSlug = req.query.courseSlug ? decodeURIComponent(req.query.courseSlug as string) : undefined;
   
   const result = await tutoringAgent.answer(question, { 
-    requestId: req.headers['x-request-id'] as string,
+    ...requester(req),
     lessonId,
     courseSlug
   });
@@ -474,7 +538,7 @@ router.post('/code/:assignmentId/hint', asyncHandler(async (req: Request, res: R
     assignmentResult.data?.prompt || '',
     code || '',
     undefined,
-    { requestId: req.headers['x-request-id'] as string }
+    requester(req)
   );
   
   res.status(result.success ? 200 : 500).json({
@@ -550,10 +614,16 @@ router.post('/assistant/answer', asyncHandler(async (req: Request, res: Response
     return res.status(400).json({ ok: false, error: 'sessionId and question required' });
   }
   
-  const result = await tutoringAgent.answer(question, {
-    sessionId,
-    requestId: req.headers['x-request-id'] as string
-  });
+  const context = {
+    ...requester(req),
+    sessionId
+  };
+
+  if (wantsStream(req)) {
+    return streamAnswer(res, tutoringAgent.answerStream(question, context));
+  }
+
+  const result = await tutoringAgent.answer(question, context);
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -672,24 +742,16 @@ router.get('/room/:id/join', asyncHandler(async (req: Request, res: Response) =>
 // ========== Admin Routes ==========
 
 router.post('/admin/seed/index', asyncHandler(async (req: Request, res: Response) => {
-  // Use Sutradhar retrieval agent to index documents
-  const result = await sutradharClient.executeTask('retrieval-agent', {
-    id: `index-${Date.now()}`,
-    type: 'index',
-    payload: {
-      content: {
-        id: 'seed_index',
-        text: 'Index rebuild triggered',
-        source: 'admin'
-      }
-    },
-    context: { requestId: req.headers['x-request-id'] as string }
-  });
-  
-  res.json({
+  // Re-index lessons through Sutradhar's ingestion pipeline; unchanged lessons are skipped unless force is set
+  const { courseSlug, force } = req.body || {};
+  const result = await courseAgent.indexLessons(
+    { courseSlug, force: force === true },
+    { requestId: req.headers['x-request-id'] as string }
+  );
+
+  res.status(result.success ? 200 : 500).json({
     ok: result.success,
-    message: 'Index rebuild triggered',
-    indexStatus: result.success
+    ...(result.success ? result.data : { error: result.error })
   });
 }));
 
@@ -737,9 +799,7 @@ router.post('/learning/path', asyncHandler(async (req: Request, res: Response) =
     return res.status(400).json({ ok: false, error: 'userId and courseSlug required' });
   }
   
-  const result = await adaptiveLearningAgent.createLearningPath(userId, courseSlug, {
-    requestId: req.headers['x-request-id'] as string
-  });
+  const result = await adaptiveLearningAgent.createLearningPath(userId, courseSlug, requester(req));
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -755,9 +815,7 @@ router.get('/learning/recommendations', asyncHandler(async (req: Request, res: R
     return res.status(400).json({ ok: false, error: 'userId required' });
   }
   
-  const result = await adaptiveLearningAgent.getRecommendations(userId, limit, {
-    requestId: req.headers['x-request-id'] as string
-  });
+  const result = await adaptiveLearningAgent.getRecommendations(userId, limit, requester(req));
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -772,9 +830,7 @@ router.put('/learning/preferences', asyncHandler(async (req: Request, res: Respo
     return res.status(400).json({ ok: false, error: 'userId required' });
   }
   
-  const result = await adaptiveLearningAgent.updatePreferences(userId, preferences, {
-    requestId: req.headers['x-request-id'] as string
-  });
+  const result = await adaptiveLearningAgent.updatePreferences(userId, preferences, requester(req));
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -788,9 +844,7 @@ router.post('/learning/adjust-difficulty', asyncHandler(async (req: Request, res
     return res.status(400).json({ ok: false, error: 'userId, courseSlug, and performance required' });
   }
   
-  const result = await adaptiveLearningAgent.adjustDifficulty(userId, courseSlug, performance, {
-    requestId: req.headers['x-request-id'] as string
-  });
+  const result = await adaptiveLearningAgent.adjustDifficulty(userId, courseSlug, performance, requester(req));
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -804,9 +858,7 @@ router.post('/learning/detect-style', asyncHandler(async (req: Request, res: Res
     return res.status(400).json({ ok: false, error: 'userId required' });
   }
   
-  const result = await adaptiveLearningAgent.detectLearningStyle(userId, {
-    requestId: req.headers['x-request-id'] as string
-  });
+  const result = await adaptiveLearningAgent.detectLearningStyle(userId, requester(req));
   
   res.status(result.success ? 200 : 500).json({
     ok: result.success,
@@ -26,6 +26,78 @@ export interface AgentResult<T = any> {
   };
 }
 
+export interface AgentSelector {
+  type?: string;
+  capability?: string;
+  strategy?: 'round-robin' | 'least-latency' | 'health-weighted';
+}
+
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'result'; result: AgentResult };
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AgentJob {
+  id: string;
+  agentId: string;
+  task: AgentTask;
+  status: JobStatus;
+  result?: AgentResult;
+  error?: string;
+  timeoutMs: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface WorkflowCondition {
+  path: string;
+  equals?: any;
+  notEquals?: any;
+  in?: any[];
+  exists?: boolean;
+}
+
+export interface WorkflowStep {
+  id: string;
+  agentId: string;
+  taskType: string;
+  payload?: any;
+  dependsOn?: string[];
+  when?: WorkflowCondition;
+  forEach?: string;
+  continueOnError?: boolean;
+  timeoutMs?: number;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  description?: string;
+  steps: WorkflowStep[];
+  output?: any;
+}
+
+export interface WorkflowStepRun {
+  status: 'succeeded' | 'failed' | 'skipped';
+  result?: AgentResult;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  status: 'succeeded' | 'failed';
+  input: any;
+  output?: any;
+  steps: Record<string, WorkflowStepRun>;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
 export interface AgentDefinition {
   id: string;
   type: string;
@@ -38,9 +110,63 @@ export interface AgentDefinition {
     env?: Record<string, string>;
     ports?: number[];
     healthEndpoint?: string;
+    timeoutMs?: number;
+    healthTimeoutMs?: number;
+    retry?: { maxAttempts?: number; initialDelayMs?: number; maxDelayMs?: number; multiplier?: number; jitter?: number };
+    idempotent?: boolean | string[];
+    circuitBreaker?: false | { failureThreshold?: number; successThreshold?: number; resetTimeoutMs?: number };
     [key: string]: any;
   };
   implementation?: any;
   capabilities?: string[];
+  capabilitySchemas?: Record<string, CapabilitySchema>;
+}
+
+/**
+ * Payload/result contract of a capability (JSON Schema); Sutradhar validates tasks against it
+ */
+export interface CapabilitySchema {
+  description?: string;
+  payload?: Record<string, any>;
+  result?: Record<string, any>;
+}
+
+export interface AgentCapability extends CapabilitySchema {
+  name: string;
+}
+
+
+/**
+ * llm-agent conversation turn; tool turns answer an assistant tool call
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  toolCalls?: LLMToolCall[];
+  toolCallId?: string;
+  name?: string;
+}
+
+/**
+ * Tool offered to llm-agent `chatWithTools`; `parameters` is a JSON Schema
+ */
+export interface LLMTool {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
 }
 
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Prompt template variant llm-agent rendered, from result `metadata.prompt`
+ */
+export interface PromptSelection {
+  templateId: string;
+  version: number;
+  variant: string;
+}
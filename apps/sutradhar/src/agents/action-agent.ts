@@ -2,7 +2,7 @@
  * Action Agent - Wraps action service as a Sutradhar agent
  */
 
-import { IAgent, AgentTask, AgentResult, HealthStatus } from '../orchestrator/types';
+import { IAgent, AgentTask, AgentResult, CapabilitySchema, HealthStatus } from '../orchestrator/types';
 import { actionService } from '../core/services/action-service';
 
 class ActionAgent implements IAgent {
@@ -18,6 +18,39 @@ class ActionAgent implements IAgent {
     return ['execute', 'listBySession'];
   }
 
+  capabilitySchemas(): Record<string, CapabilitySchema> {
+    return {
+      execute: {
+        description: 'Run an external action (slack, calendar, github, forum)',
+        payload: {
+          type: 'object',
+          required: ['actionType', 'payload'],
+          properties: {
+            actionType: { type: 'string', minLength: 1 },
+            payload: { type: 'object' },
+          },
+        },
+      },
+      listBySession: {
+        description: 'List actions recorded for a session',
+        payload: {
+          type: 'object',
+          required: ['sessionId'],
+          properties: {
+            sessionId: { type: 'string', minLength: 1 },
+          },
+        },
+        result: {
+          type: 'object',
+          required: ['actions'],
+          properties: {
+            actions: { type: 'array' },
+          },
+        },
+      },
+    };
+  }
+
   async execute(task: AgentTask): Promise<AgentResult> {
     const startTime = Date.now();
 
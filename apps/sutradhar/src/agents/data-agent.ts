@@ -2,8 +2,19 @@
  * Data Agent - Wraps Convex database operations as a Sutradhar agent
  */
 
-import { IAgent, AgentTask, AgentResult, HealthStatus } from '../orchestrator/types';
+import { IAgent, AgentTask, AgentResult, CapabilitySchema, HealthStatus } from '../orchestrator/types';
 import { Convex } from '../convexClient';
+import { JsonSchema } from '../core/json-schema';
+
+// Convex function reference ("module:function") with its arguments
+const CONVEX_CALL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['path'],
+  properties: {
+    path: { type: 'string', pattern: '^[A-Za-z0-9_/]+:[A-Za-z0-9_]+$' },
+    args: { type: 'object' },
+  },
+};
 
 class DataAgent implements IAgent {
   id = 'data-agent';
@@ -18,6 +29,30 @@ class DataAgent implements IAgent {
     return ['query', 'mutation', 'batchQuery'];
   }
 
+  capabilitySchemas(): Record<string, CapabilitySchema> {
+    return {
+      query: {
+        description: 'Run a Convex query function',
+        payload: CONVEX_CALL_SCHEMA,
+      },
+      mutation: {
+        description: 'Run a Convex mutation function',
+        payload: CONVEX_CALL_SCHEMA,
+      },
+      batchQuery: {
+        description: 'Run several Convex queries in parallel',
+        payload: {
+          type: 'object',
+          required: ['queries'],
+          properties: {
+            queries: { type: 'array', minItems: 1, items: CONVEX_CALL_SCHEMA },
+          },
+        },
+        result: { type: 'array' },
+      },
+    };
+  }
+
   async execute(task: AgentTask): Promise<AgentResult> {
     const startTime = Date.now();
 
@@ -2,7 +2,7 @@
  * Email Agent - Wraps email service as a Sutradhar agent
  */
 
-import { IAgent, AgentTask, AgentResult, HealthStatus } from '../orchestrator/types';
+import { IAgent, AgentTask, AgentResult, CapabilitySchema, HealthStatus } from '../orchestrator/types';
 import { emailService } from '../core/services/email-service';
 
 class EmailAgent implements IAgent {
@@ -18,6 +18,45 @@ class EmailAgent implements IAgent {
     return ['send', 'resolveInboxId'];
   }
 
+  capabilitySchemas(): Record<string, CapabilitySchema> {
+    return {
+      send: {
+        description: 'Send an email',
+        payload: {
+          type: 'object',
+          required: ['to', 'subject', 'text'],
+          properties: {
+            to: { anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', minItems: 1, items: { type: 'string' } }] },
+            subject: { type: 'string' },
+            text: { type: 'string' },
+            cc: { type: 'array', items: { type: 'string' } },
+            bcc: { type: 'array', items: { type: 'string' } },
+            headers: { type: 'object', additionalProperties: { type: 'string' } },
+            replyTo: { type: 'string' },
+          },
+        },
+        result: {
+          type: 'object',
+          properties: {
+            threadId: { type: 'string' },
+            messageId: { type: 'string' },
+            draftId: { type: 'string' },
+          },
+        },
+      },
+      resolveInboxId: {
+        description: 'Look up the inbox used for outgoing mail',
+        payload: {
+          type: 'object',
+          properties: {
+            useCache: { type: 'boolean' },
+          },
+        },
+        result: { type: 'object' },
+      },
+    };
+  }
+
   async execute(task: AgentTask): Promise<AgentResult> {
     const startTime = Date.now();
 
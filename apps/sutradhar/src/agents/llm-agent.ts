@@ -2,8 +2,77 @@
  * LLM Agent - Wraps LLM service as a Sutradhar agent
  */
 
-import { IAgent, AgentTask, AgentResult, HealthStatus } from '../orchestrator/types';
+import { IAgent, AgentTask, AgentResult, CapabilitySchema, AgentStreamEvent, HealthStatus } from '../orchestrator/types';
 import { llmService } from '../core/services/llm-service';
+import { embeddingService } from '../core/services/embedding-service';
+import { usageService, UsageTags, BudgetOverrun } from '../core/services/usage-service';
+import { promptRegistry, PromptSelection, PromptTemplateError } from '../core/services/prompt-registry';
+import { JsonSchema } from '../core/json-schema';
+import { log } from '../log';
+
+const TOOL_CALL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'arguments'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    arguments: { type: 'object' },
+  },
+};
+
+const TOOL_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name', 'parameters'],
+  properties: {
+    name: { type: 'string', pattern: '^[A-Za-z0-9_-]{1,64}$' },
+    description: { type: 'string' },
+    parameters: { type: 'object' },
+  },
+};
+
+const MESSAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['role'],
+  properties: {
+    role: { type: 'string', enum: ['system', 'user', 'assistant', 'tool'] },
+    content: { type: ['string', 'null'] },
+    toolCalls: { type: 'array', items: TOOL_CALL_SCHEMA },
+    toolCallId: { type: 'string' },
+    name: { type: 'string' },
+  },
+};
+
+const CHAT_PROPERTIES: Record<string, JsonSchema> = {
+  system: { type: 'string' },
+  user: { type: 'string', minLength: 1 },
+  messages: { type: 'array', items: MESSAGE_SCHEMA },
+  model: { type: 'string' },
+  temperature: { type: 'number', minimum: 0, maximum: 2 },
+  maxTokens: { type: 'integer', minimum: 1 },
+  provider: { type: 'string' },
+  tag: { type: 'string' },
+  timeoutMs: { type: 'integer', minimum: 1 },
+  fallback: { type: 'boolean' },
+  // Render system/user from a registered prompt template instead of sending them
+  templateId: { type: 'string', minLength: 1 },
+  templateVersion: { type: 'integer', minimum: 1 },
+  templateVariant: { type: 'string' },
+  variables: { type: 'object' },
+};
+
+const CHAT_INPUTS: JsonSchema[] = [{ required: ['user'] }, { required: ['messages'] }, { required: ['templateId'] }];
+
+const TEMPLATE_FIELDS = ['templateId', 'templateVersion', 'templateVariant', 'variables'];
+
+function usageTags(task: AgentTask): UsageTags {
+  return {
+    userId: task.context?.userId,
+    sessionId: task.context?.sessionId,
+    courseSlug: task.context?.courseSlug,
+    agent: task.context?.agent || 'llm-agent',
+    requestId: task.context?.requestId,
+  };
+}
 
 class LLMAgent implements IAgent {
   id = 'llm-agent';
@@ -15,16 +84,153 @@ class LLMAgent implements IAgent {
   }
 
   capabilities(): string[] {
-    return ['chat'];
+    return ['chat', 'chatWithTools', 'chatStructured', 'embed'];
+  }
+
+  capabilitySchemas(): Record<string, CapabilitySchema> {
+    return {
+      chat: {
+        description: 'Chat completion from a system prompt, prior messages and/or a user turn, or a prompt template',
+        payload: {
+          type: 'object',
+          properties: {
+            ...CHAT_PROPERTIES,
+            // Reuse the response to a similar earlier request in the same course/lesson/persona
+            semanticCache: {
+              anyOf: [
+                { type: 'boolean' },
+                {
+                  type: 'object',
+                  properties: {
+                    key: { type: 'string', minLength: 1 },
+                    threshold: { type: 'number', minimum: 0, maximum: 1 },
+                  },
+                },
+              ],
+            },
+          },
+          anyOf: CHAT_INPUTS,
+        },
+        result: {
+          type: 'object',
+          required: ['text'],
+          properties: {
+            text: { type: 'string' },
+            citations: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+      chatWithTools: {
+        description: 'Chat completion where the model may call the given tools; the caller runs them and sends results back as tool messages',
+        payload: {
+          type: 'object',
+          required: ['tools'],
+          properties: {
+            ...CHAT_PROPERTIES,
+            tools: { type: 'array', minItems: 1, items: TOOL_SCHEMA },
+            toolChoice: {
+              anyOf: [
+                { type: 'string', enum: ['auto', 'none', 'required'] },
+                { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+              ],
+            },
+          },
+          anyOf: CHAT_INPUTS,
+        },
+        result: {
+          type: 'object',
+          required: ['text', 'toolCalls'],
+          properties: {
+            text: { type: 'string' },
+            toolCalls: { type: 'array', items: TOOL_CALL_SCHEMA },
+            finishReason: { type: 'string' },
+          },
+        },
+      },
+      chatStructured: {
+        description: 'Chat completion returning JSON that matches the given schema; invalid output is re-prompted with the validation errors',
+        payload: {
+          type: 'object',
+          required: ['schema'],
+          properties: {
+            ...CHAT_PROPERTIES,
+            schema: { type: 'object' },
+            maxRepairs: { type: 'integer', minimum: 0, maximum: 5 },
+          },
+          anyOf: CHAT_INPUTS,
+        },
+        result: {
+          type: 'object',
+          required: ['data', 'text', 'attempts'],
+          properties: {
+            text: { type: 'string' },
+            attempts: { type: 'integer', minimum: 1 },
+          },
+        },
+      },
+      embed: {
+        description: 'Embedding vectors for texts; only vectors with the same model are comparable',
+        payload: {
+          type: 'object',
+          required: ['texts'],
+          properties: {
+            texts: { type: 'array', minItems: 1, maxItems: 2048, items: { type: 'string' } },
+            provider: { type: 'string' },
+            model: { type: 'string' },
+            dimensions: { type: 'integer', minimum: 1 },
+            timeoutMs: { type: 'integer', minimum: 1 },
+          },
+        },
+        result: {
+          type: 'object',
+          required: ['vectors', 'model', 'dimensions'],
+          properties: {
+            vectors: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+            model: { type: 'string' },
+            dimensions: { type: 'integer', minimum: 0 },
+          },
+        },
+      },
+    };
   }
 
   async execute(task: AgentTask): Promise<AgentResult> {
     const startTime = Date.now();
 
     try {
+      const tags = usageTags(task);
+      // Embeddings have no cheaper model to downgrade to and cost little, so they skip budgets and templates
+      if (task.type === 'embed') {
+        const embedResult = await embeddingService.embed(task.payload, tags);
+        return {
+          success: embedResult.ok,
+          data: embedResult.data,
+          error: embedResult.error,
+          metadata: {
+            latency: Date.now() - startTime,
+            agentId: this.id,
+            version: this.version,
+            mocked: embedResult.mocked,
+            provider: embedResult.provider,
+            usage: embedResult.usage,
+          },
+        };
+      }
+
+      const rendered = await this.renderPrompt(task, tags);
+      if (rendered.error) {
+        return { ...rendered.error, metadata: { ...rendered.error.metadata, latency: Date.now() - startTime } };
+      }
+      const prompt = rendered.prompt;
+      const budget = this.applyBudget(task, rendered.payload, tags);
+      if (budget.refusal) {
+        return { ...budget.refusal, metadata: { ...budget.refusal.metadata, prompt, latency: Date.now() - startTime } };
+      }
+      const payload = budget.payload;
+
       switch (task.type) {
         case 'chat':
-          const chatResult = await llmService.chat(task.payload);
+          const chatResult = await llmService.chat(this.withSemanticCache(task, payload), tags);
           return {
             success: chatResult.ok,
             data: chatResult.data,
@@ -34,9 +240,58 @@ class LLMAgent implements IAgent {
               agentId: this.id,
               version: this.version,
               mocked: chatResult.mocked,
+              ...(chatResult.cached && { cached: true, cache: chatResult.cached }),
+              usage: chatResult.usage,
+              route: chatResult.route,
+              budget: budget.metadata,
+              prompt,
             },
           };
 
+        case 'chatWithTools': {
+          const toolResult = await llmService.chat(payload, tags);
+          return {
+            success: toolResult.ok,
+            data: toolResult.data && {
+              text: toolResult.data.text,
+              toolCalls: toolResult.data.toolCalls || [],
+              finishReason: toolResult.data.finishReason,
+            },
+            error: toolResult.error,
+            metadata: {
+              latency: Date.now() - startTime,
+              agentId: this.id,
+              version: this.version,
+              mocked: toolResult.mocked,
+              usage: toolResult.usage,
+              route: toolResult.route,
+              budget: budget.metadata,
+              prompt,
+            },
+          };
+        }
+
+        case 'chatStructured': {
+          const structuredResult = await llmService.chatStructured(payload, tags);
+          return {
+            success: structuredResult.ok,
+            data: structuredResult.data,
+            error: structuredResult.error,
+            metadata: {
+              latency: Date.now() - startTime,
+              agentId: this.id,
+              version: this.version,
+              mocked: structuredResult.mocked,
+              attempts: structuredResult.attempts,
+              validationErrors: structuredResult.validationErrors,
+              usage: structuredResult.usage,
+              route: structuredResult.route,
+              budget: budget.metadata,
+              prompt,
+            },
+          };
+        }
+
         default:
           return {
             success: false,
@@ -59,6 +314,178 @@ class LLMAgent implements IAgent {
     }
   }
 
+  async *executeStream(task: AgentTask): AsyncGenerator<AgentStreamEvent> {
+    if (task.type !== 'chat') {
+      yield { type: 'result', result: await this.execute(task) };
+      return;
+    }
+
+    const startTime = Date.now();
+    const tags = usageTags(task);
+    const rendered = await this.renderPrompt(task, tags);
+    if (rendered.error) {
+      yield { type: 'result', result: { ...rendered.error, metadata: { ...rendered.error.metadata, latency: Date.now() - startTime } } };
+      return;
+    }
+    const prompt = rendered.prompt;
+    const budget = this.applyBudget(task, rendered.payload, tags);
+    if (budget.refusal) {
+      yield { type: 'result', result: { ...budget.refusal, metadata: { ...budget.refusal.metadata, prompt, latency: Date.now() - startTime } } };
+      return;
+    }
+
+    const stream = llmService.chatStream(this.withSemanticCache(task, budget.payload), tags);
+
+    let next = await stream.next();
+    try {
+      while (!next.done) {
+        yield { type: 'delta', text: next.value };
+        next = await stream.next();
+      }
+    } finally {
+      // Closed early (timeout or disconnect): stop the model too
+      if (!next.done) {
+        stream.return({ ok: false, error: 'Stream closed by caller' }).catch(() => {});
+      }
+    }
+
+    const chatResult = next.value;
+    yield {
+      type: 'result',
+      result: {
+        success: chatResult.ok,
+        data: chatResult.data,
+        error: chatResult.error,
+        metadata: {
+          latency: Date.now() - startTime,
+          agentId: this.id,
+          version: this.version,
+          mocked: chatResult.mocked,
+          streamed: true,
+          ...(chatResult.cached && { cached: true, cache: chatResult.cached }),
+          usage: chatResult.usage,
+          route: chatResult.route,
+          budget: budget.metadata,
+          prompt,
+        },
+      },
+    };
+  }
+
+  /**
+   * Turn the payload's `semanticCache` opt-in into cache options scoped by the task's course, lesson and persona
+   */
+  private withSemanticCache(task: AgentTask, payload: any): any {
+    const { semanticCache: option, ...request } = payload;
+    if (!option) {
+      return request;
+    }
+
+    return {
+      ...request,
+      semanticCache: {
+        ...(typeof option === 'object' && option),
+        scope: {
+          courseSlug: task.context?.courseSlug,
+          lessonId: task.context?.lessonId,
+          persona: task.context?.persona,
+        },
+      },
+    };
+  }
+
+  /**
+   * Render the payload's prompt template, if any, into system/user prompts
+   * Explicit system/user and request settings in the payload win over the template's
+   */
+  private async renderPrompt(
+    task: AgentTask,
+    tags: UsageTags
+  ): Promise<{ payload: any; prompt?: PromptSelection; error?: AgentResult }> {
+    const payload = task.payload || {};
+    if (!payload.templateId) {
+      return { payload };
+    }
+
+    try {
+      const rendered = await promptRegistry.render(payload.templateId, payload.variables, {
+        version: payload.templateVersion,
+        variant: payload.templateVariant,
+        assignmentKey: tags.userId || tags.sessionId,
+      });
+
+      const request = Object.fromEntries(Object.entries(payload).filter(([key]) => !TEMPLATE_FIELDS.includes(key)));
+      return {
+        payload: {
+          ...rendered.defaults,
+          ...request,
+          system: payload.system ?? rendered.system,
+          user: payload.user ?? rendered.user,
+        },
+        prompt: rendered.selection,
+      };
+    } catch (error: any) {
+      if (!(error instanceof PromptTemplateError)) {
+        throw error;
+      }
+      // Unknown templates and bad variables are the caller's mistake, like a payload failing the contract
+      return {
+        payload,
+        error: {
+          success: false,
+          error: error.message,
+          metadata: {
+            agentId: this.id,
+            version: this.version,
+            contractViolation: 'payload',
+            validationErrors: error.validationErrors,
+          },
+        },
+      };
+    }
+  }
+
+  /**
+   * Enforce daily budgets: over-budget calls are refused, or moved to the downgrade model
+   */
+  private applyBudget(task: AgentTask, payload: any, tags: UsageTags): { payload: any; metadata?: Record<string, any>; refusal?: AgentResult } {
+    const check = usageService.checkBudget(tags, payload);
+    if (check.allowed && !check.downgrade) {
+      return { payload };
+    }
+
+    const exceeded = check.exceeded.map((overrun: BudgetOverrun) => `${overrun.scope} ${overrun.key} ($${overrun.spentUsd.toFixed(4)} of $${overrun.limitUsd})`);
+
+    if (check.downgrade) {
+      log.warn('LLM budget exceeded, downgrading model', { taskId: task.id, exceeded, downgrade: check.downgrade });
+      return {
+        payload: {
+          ...payload,
+          model: check.downgrade.model,
+          ...(check.downgrade.provider && { provider: check.downgrade.provider }),
+          // Don't let the fallback chain route back to the models the budget ruled out
+          fallback: false,
+        },
+        metadata: { downgraded: true, model: check.downgrade.model, exceeded: check.exceeded },
+      };
+    }
+
+    log.warn('LLM budget exceeded, refusing call', { taskId: task.id, exceeded });
+    return {
+      payload,
+      refusal: {
+        success: false,
+        error: `Daily LLM budget exceeded for ${exceeded.join(', ')}`,
+        metadata: {
+          agentId: this.id,
+          version: this.version,
+          refused: true,
+          budgetExceeded: check.exceeded,
+        },
+      },
+    };
+  }
+
   async health(): Promise<HealthStatus> {
     return {
       status: 'healthy',
@@ -2,8 +2,32 @@
  * Retrieval Agent - Wraps retrieval service as a Sutradhar agent
  */
 
-import { IAgent, AgentTask, AgentResult, HealthStatus } from '../orchestrator/types';
+import { IAgent, AgentTask, AgentResult, CapabilitySchema, HealthStatus } from '../orchestrator/types';
 import { retrievalService } from '../core/services/retrieval-service';
+import { ingestionService } from '../core/services/ingestion-service';
+import { IngestionError } from '../core/ingestion';
+import { RERANK_MODES } from '../core/services/rerank-service';
+import { retrievalEvalService } from '../core/services/retrieval-eval-service';
+import { EvaluationError } from '../core/evaluation';
+import { JsonSchema } from '../core/json-schema';
+
+const EVALUATION_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    // Registered plugin name or backend (mock, local)
+    backend: { type: 'string', minLength: 1 },
+    plugin: {
+      type: 'object',
+      properties: {
+        hybridAlpha: { type: 'number', minimum: 0, maximum: 1 },
+        chunker: { type: 'string', minLength: 1 },
+      },
+      additionalProperties: false,
+    },
+    rerank: { type: 'string', enum: RERANK_MODES },
+  },
+};
 
 class RetrievalAgent implements IAgent {
   id = 'retrieval-agent';
@@ -15,7 +39,160 @@ class RetrievalAgent implements IAgent {
   }
 
   capabilities(): string[] {
-    return ['search', 'index', 'getStatus'];
+    return ['search', 'index', 'ingest', 'evaluate', 'getStatus'];
+  }
+
+  capabilitySchemas(): Record<string, CapabilitySchema> {
+    return {
+      search: {
+        description: 'Search indexed documents',
+        payload: {
+          type: 'object',
+          required: ['query'],
+          properties: {
+            query: { type: 'string', minLength: 1 },
+            maxResults: { type: 'integer', minimum: 1, maximum: 100 },
+            sources: { type: 'array', items: { type: 'string' } },
+            // Metadata values documents must have, e.g. { courseSlug, lessonId }; an array matches any of its values
+            filters: { type: 'object' },
+            // true picks RETRIEVAL_RERANK_MODE
+            rerank: { anyOf: [{ type: 'boolean' }, { type: 'string', enum: RERANK_MODES }] },
+            // Fall back from the lessonId filter's lesson to its course, then to everything
+            widen: { type: 'boolean' },
+          },
+        },
+        result: {
+          type: 'object',
+          required: ['snippets'],
+          properties: {
+            snippets: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['text'],
+                properties: {
+                  source: { type: 'string' },
+                  text: { type: 'string' },
+                  url: { type: 'string' },
+                  score: { type: 'number' },
+                  metadata: { type: 'object' },
+                },
+              },
+            },
+          },
+        },
+      },
+      index: {
+        description: 'Add documents to the index',
+        payload: {
+          type: 'object',
+          required: ['documents'],
+          properties: {
+            documents: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['id', 'text', 'source'],
+                properties: {
+                  id: { type: 'string', minLength: 1 },
+                  text: { type: 'string' },
+                  source: { type: 'string' },
+                  metadata: { type: 'object' },
+                },
+              },
+            },
+            remove: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        result: {
+          type: 'object',
+          required: ['indexed', 'total'],
+          properties: {
+            indexed: { type: 'integer' },
+            removed: { type: 'integer' },
+            total: { type: 'integer' },
+          },
+        },
+      },
+      ingest: {
+        description: 'Chunk whole documents and index what changed since the last ingest',
+        payload: {
+          type: 'object',
+          required: ['documents'],
+          properties: {
+            documents: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['source', 'text'],
+                properties: {
+                  source: { type: 'string', minLength: 1 },
+                  text: { type: 'string' },
+                  metadata: { type: 'object' },
+                },
+              },
+            },
+            chunker: { type: 'string' },
+            maxTokens: { type: 'integer', minimum: 32, maximum: 8192 },
+            overlapTokens: { type: 'integer', minimum: 0 },
+            force: { type: 'boolean' },
+            // The documents are the full set; true compares against every ingested source, a course only its own
+            sync: {
+              anyOf: [
+                { type: 'boolean' },
+                { type: 'object', required: ['courseSlug'], properties: { courseSlug: { type: 'string', minLength: 1 } } },
+              ],
+            },
+          },
+        },
+        result: {
+          type: 'object',
+          required: ['chunker', 'documents', 'chunks', 'indexed', 'total'],
+          properties: {
+            chunker: { type: 'string' },
+            documents: { type: 'integer' },
+            unchanged: { type: 'integer' },
+            chunks: { type: 'integer' },
+            indexed: { type: 'integer' },
+            duplicates: { type: 'integer' },
+            removed: { type: 'integer' },
+            deleted: { type: 'integer' },
+            total: { type: 'integer' },
+          },
+        },
+      },
+      evaluate: {
+        description: 'Score golden query sets (data_repository/<course>/retrieval-eval.json); with a candidate, compare it to the baseline',
+        payload: {
+          type: 'object',
+          properties: {
+            courses: { type: 'array', items: { type: 'string' } },
+            k: { type: 'integer', minimum: 1, maximum: 50 },
+            baseline: EVALUATION_CONFIG_SCHEMA,
+            candidate: EVALUATION_CONFIG_SCHEMA,
+          },
+        },
+        result: {
+          type: 'object',
+          anyOf: [
+            { type: 'object', required: ['metrics', 'results'] },
+            { type: 'object', required: ['baseline', 'candidate', 'delta', 'changed'] },
+          ],
+        },
+      },
+      getStatus: {
+        description: 'Index status',
+        result: {
+          type: 'object',
+          required: ['indexed', 'docCount', 'engine'],
+          properties: {
+            indexed: { type: 'boolean' },
+            docCount: { type: 'number' },
+            engine: { type: 'string' },
+          },
+        },
+      },
+    };
   }
 
   async execute(task: AgentTask): Promise<AgentResult> {
@@ -24,8 +201,21 @@ class RetrievalAgent implements IAgent {
     try {
       switch (task.type) {
         case 'search':
-          const { query, maxResults } = task.payload;
-          const searchResult = await retrievalService.search(query, maxResults);
+          const { query, maxResults, sources, filters, rerank, widen } = task.payload;
+          const searchResult = await retrievalService.search(query, maxResults, {
+            sources,
+            filters,
+            rerank,
+            widen,
+            // LLM reranking is billed to the caller like any other completion
+            tags: {
+              userId: task.context?.userId,
+              sessionId: task.context?.sessionId,
+              courseSlug: task.context?.courseSlug,
+              agent: task.context?.agent || this.id,
+              requestId: task.context?.requestId,
+            },
+          });
           return {
             success: true,
             data: searchResult,
@@ -34,12 +224,14 @@ class RetrievalAgent implements IAgent {
               agentId: this.id,
               version: this.version,
               mocked: searchResult.mocked,
+              reranked: searchResult.reranked,
+              scope: searchResult.scope,
             },
           };
 
         case 'index':
-          const { documents } = task.payload;
-          const indexResult = await retrievalService.indexDocuments(documents);
+          const { documents, remove } = task.payload;
+          const indexResult = await retrievalService.indexDocuments(documents, { remove });
           return {
             success: true,
             data: indexResult,
@@ -50,6 +242,34 @@ class RetrievalAgent implements IAgent {
             },
           };
 
+        case 'ingest':
+          const { chunker, maxTokens, overlapTokens, force, sync } = task.payload;
+          const report = await ingestionService.ingest(task.payload.documents, { chunker, maxTokens, overlapTokens, force, sync });
+          return {
+            success: true,
+            data: report,
+            metadata: {
+              latency: Date.now() - startTime,
+              agentId: this.id,
+              version: this.version,
+            },
+          };
+
+        case 'evaluate':
+          const { courses, k, baseline, candidate } = task.payload;
+          const evaluation = candidate
+            ? await retrievalEvalService.compare(baseline || {}, candidate, { courses, k })
+            : await retrievalEvalService.evaluate(baseline, { courses, k });
+          return {
+            success: true,
+            data: evaluation,
+            metadata: {
+              latency: Date.now() - startTime,
+              agentId: this.id,
+              version: this.version,
+            },
+          };
+
         case 'getStatus':
           const status = await retrievalService.getStatus();
           return {
@@ -79,6 +299,8 @@ class RetrievalAgent implements IAgent {
         metadata: {
           latency: Date.now() - startTime,
           agentId: this.id,
+          // A bad chunker name or golden set won't succeed on retry
+          ...(error instanceof IngestionError || error instanceof EvaluationError ? { contractViolation: 'payload' } : {}),
         },
       };
     }
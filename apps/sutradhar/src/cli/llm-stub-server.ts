@@ -0,0 +1,178 @@
+/**
+ * LLM stub server - A local OpenAI-compatible provider for running the LLM plugin offline
+ *
+ * Usage: npm run stub:llm -- [options]
+ *   --port <n>       Port to listen on (default 4010)
+ *   --delay-ms <n>   Pause between streamed chunks (default 50)
+ *
+ * Point Sutradhar at it with MOCK_LLM=false LLM_DEFAULT_PROVIDER=local LLM_LOCAL_BASE_URL=http://127.0.0.1:4010/v1
+ *
+ * Answers echo the last user message. The model name selects failure modes to exercise error mapping:
+ *   error-<status>   Answer with that HTTP status (e.g. error-429, which also sends Retry-After)
+ *   slow             Wait 60s before answering, for timeouts
+ *   garbled          Stream lines that aren't valid JSON before the answer
+ */
+
+import express, { Request, Response } from 'express';
+import { hashedEmbedding } from '../core/hashed-embedding';
+
+interface StubOptions {
+  port: number;
+  delayMs: number;
+}
+
+function parseArgs(argv: string[]): StubOptions {
+  const options: StubOptions = { port: 4010, delayMs: 50 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return Number(argv[++i]);
+    };
+    switch (arg) {
+      case '--port': options.port = next(); break;
+      case '--delay-ms': options.delayMs = next(); break;
+      default: throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function countTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+/**
+ * Text of the last user turn, the prompt everything else is measured against
+ */
+function lastUserText(messages: any[]): string {
+  const user = [...(messages || [])].reverse().find(message => message?.role === 'user');
+  return typeof user?.content === 'string' ? user.content : '';
+}
+
+/**
+ * A tool call when the request forces one: the named tool, or the first tool for `required`
+ */
+function forcedToolCall(body: any): { id: string; type: 'function'; function: { name: string; arguments: string } } | undefined {
+  const choice = body.tool_choice;
+  const name = typeof choice === 'object' ? choice?.function?.name : choice === 'required' ? body.tools?.[0]?.function?.name : undefined;
+  return name ? { id: `call_${Date.now().toString(36)}`, type: 'function', function: { name, arguments: '{}' } } : undefined;
+}
+
+/**
+ * Send the failure the model name asks for; returns true if the request was answered
+ */
+async function simulateFailure(model: string, res: Response): Promise<boolean> {
+  const status = model.match(/^error-(\d{3})$/)?.[1];
+  if (status) {
+    if (status === '429') res.setHeader('Retry-After', '1');
+    res.status(Number(status)).json({ error: { message: `Stub failure ${status}`, type: 'stub_error' } });
+    return true;
+  }
+  if (model === 'slow') {
+    await sleep(60000);
+  }
+  return false;
+}
+
+function createApp(options: StubOptions) {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  // The plugin's health check lists models
+  app.get('/v1/models', (_req: Request, res: Response) => {
+    res.json({ object: 'list', data: [{ id: 'stub', object: 'model', owned_by: 'stub' }] });
+  });
+
+  app.post('/v1/chat/completions', async (req: Request, res: Response) => {
+    const body = req.body || {};
+    const model = String(body.model || 'stub');
+    if (await simulateFailure(model, res)) return;
+
+    const prompt = lastUserText(body.messages);
+    const toolCall = forcedToolCall(body);
+    const text = toolCall ? '' : body.response_format ? '{}' : `Stub answer to: ${prompt}`;
+    const usage = {
+      prompt_tokens: countTokens(JSON.stringify(body.messages || [])),
+      completion_tokens: countTokens(text),
+      total_tokens: countTokens(JSON.stringify(body.messages || [])) + countTokens(text),
+    };
+    const finishReason = toolCall ? 'tool_calls' : 'stop';
+    const id = `chatcmpl-stub-${Date.now().toString(36)}`;
+
+    if (!body.stream) {
+      res.json({
+        id,
+        object: 'chat.completion',
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: text, ...(toolCall && { tool_calls: [toolCall] }) }, finish_reason: finishReason }],
+        usage,
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+
+    // A client that hangs up mid-stream should stop the provider; the log shows whether it did
+    let cancelled = false;
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        cancelled = true;
+        console.log(`[llm-stub] stream ${id} cancelled by client`);
+      }
+    });
+
+    const send = (chunk: any) => res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', model, ...chunk })}\n\n`);
+    if (model === 'garbled') {
+      res.write('data: {not json\n\n');
+    }
+    for (const word of text.match(/\S+\s*/g) || []) {
+      if (cancelled) return;
+      send({ choices: [{ index: 0, delta: { content: word } }] });
+      await sleep(options.delayMs);
+    }
+    if (toolCall) {
+      send({ choices: [{ index: 0, delta: { tool_calls: [{ index: 0, ...toolCall }] } }] });
+    }
+    send({ choices: [{ index: 0, delta: {}, finish_reason: finishReason }], usage });
+    res.end('data: [DONE]\n\n');
+  });
+
+  app.post('/v1/embeddings', async (req: Request, res: Response) => {
+    const body = req.body || {};
+    const model = String(body.model || 'stub-embedding');
+    if (await simulateFailure(model, res)) return;
+
+    const texts: string[] = Array.isArray(body.input) ? body.input : [String(body.input ?? '')];
+    const dimensions = Number(body.dimensions) || 64;
+    res.json({
+      object: 'list',
+      model,
+      data: texts.map((text, index) => ({ object: 'embedding', index, embedding: hashedEmbedding(String(text), dimensions) })),
+      usage: { prompt_tokens: texts.reduce((sum, text) => sum + countTokens(String(text)), 0), total_tokens: 0 },
+    });
+  });
+
+  return app;
+}
+
+function main() {
+  let options: StubOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(2);
+  }
+
+  createApp(options).listen(options.port, '127.0.0.1', () => {
+    console.log(`[llm-stub] OpenAI-compatible stub listening on http://127.0.0.1:${options.port}/v1`);
+  });
+}
+
+main();
@@ -0,0 +1,158 @@
+/**
+ * Retrieval evaluation CLI - Scores golden query sets, optionally comparing two retrieval configurations
+ *
+ * Usage: npm run eval:retrieval -- [options]
+ *   --course <slug>        Only this course (repeatable)
+ *   --k <n>                Cutoff for recall@k and nDCG@k (default 5)
+ *   --baseline <config>    Configuration to score (default: the configured retrieval plugin)
+ *   --candidate <config>   Configuration to compare against the baseline
+ *   --out <file>           Also write the full JSON report
+ *   --fail-on-regression   Exit 1 when the candidate's nDCG is below the baseline's
+ *
+ * A configuration is comma-separated key=value pairs: `backend`, `name` and `rerank` select the setup, anything
+ * else is plugin config, e.g. `backend=local,hybridAlpha=0.8,rerank=lexical`
+ */
+
+import { promises as fs } from 'fs';
+import { initializePlugins, shutdownPlugins } from '../core/plugin-factory';
+import { retrievalEvalService } from '../core/services/retrieval-eval-service';
+import { EvaluationComparison, EvaluationConfig, EvaluationReport, RetrievalMetrics } from '../core/evaluation';
+import { RerankMode } from '../core/services/rerank-service';
+import { winstonLogger } from '../core/logging/logger';
+
+const LABEL_WIDTH = 28;
+
+interface CliOptions {
+  courses: string[];
+  k?: number;
+  baseline?: EvaluationConfig;
+  candidate?: EvaluationConfig;
+  out?: string;
+  failOnRegression: boolean;
+}
+
+function parseConfig(spec: string): EvaluationConfig {
+  const config: EvaluationConfig = {};
+  const plugin: Record<string, any> = {};
+  for (const pair of spec.split(',').filter(Boolean)) {
+    const [key, ...rest] = pair.split('=');
+    const raw = rest.join('=');
+    const value = raw === 'true' ? true : raw === 'false' ? false : raw !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+    if (key === 'backend' || key === 'name') config[key] = raw;
+    else if (key === 'rerank') config.rerank = raw as RerankMode;
+    else plugin[key] = value;
+  }
+  if (Object.keys(plugin).length > 0) config.plugin = plugin;
+  return config;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { courses: [], failOnRegression: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+    switch (arg) {
+      case '--course': options.courses.push(next()); break;
+      case '--k': options.k = Number(next()); break;
+      case '--baseline': options.baseline = parseConfig(next()); break;
+      case '--candidate': options.candidate = parseConfig(next()); break;
+      case '--out': options.out = next(); break;
+      case '--fail-on-regression': options.failOnRegression = true; break;
+      default: throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  if (options.k !== undefined && (!Number.isInteger(options.k) || options.k < 1)) {
+    throw new Error('--k must be a positive integer');
+  }
+  return options;
+}
+
+function formatMetrics(metrics: RetrievalMetrics, signed = false): string {
+  const format = (value: number) => `${signed && value >= 0 ? '+' : ''}${value.toFixed(4)}`.padEnd(10);
+  return `${format(metrics.recall)}${format(metrics.mrr)}${format(metrics.ndcg)}`;
+}
+
+function printReport(report: EvaluationReport): void {
+  console.log(`\nRetrieval evaluation: ${report.config.name}, ${report.queries} queries, k=${report.k} (${report.durationMs}ms)\n`);
+  console.log(`${'course'.padEnd(LABEL_WIDTH)}${`recall@${report.k}`.padEnd(10)}${'MRR'.padEnd(10)}nDCG@${report.k}`);
+  for (const [courseSlug, metrics] of Object.entries(report.courses)) {
+    console.log(`${courseSlug.padEnd(LABEL_WIDTH)}${formatMetrics(metrics)}`);
+  }
+  console.log(`${'all'.padEnd(LABEL_WIDTH)}${formatMetrics(report.metrics)}`);
+
+  const misses = report.results.filter(result => result.recall < 1);
+  if (misses.length > 0) {
+    console.log('\nMissed expectations:');
+    for (const result of misses) {
+      console.log(`  ${result.id}: missed ${result.missed.join(', ')}`);
+      console.log(`    got ${result.retrieved.join(', ') || '(nothing)'}`);
+    }
+  }
+}
+
+function printComparison(comparison: EvaluationComparison): void {
+  const { baseline, candidate } = comparison;
+  console.log(`\nRetrieval comparison: ${baseline.queries} queries, k=${baseline.k}\n`);
+  console.log(`${''.padEnd(LABEL_WIDTH)}${`recall@${baseline.k}`.padEnd(10)}${'MRR'.padEnd(10)}nDCG@${baseline.k}`);
+  console.log(`${'baseline'.padEnd(LABEL_WIDTH)}${formatMetrics(baseline.metrics)}  ${baseline.config.name}`);
+  console.log(`${'candidate'.padEnd(LABEL_WIDTH)}${formatMetrics(candidate.metrics)}  ${candidate.config.name}`);
+  console.log(`${'delta'.padEnd(LABEL_WIDTH)}${formatMetrics(comparison.delta, true)}`);
+
+  console.log('\nPer course delta:');
+  for (const [courseSlug, delta] of Object.entries(comparison.courses)) {
+    console.log(`  ${courseSlug.padEnd(LABEL_WIDTH - 2)}${formatMetrics(delta, true)}`);
+  }
+
+  if (comparison.changed.length > 0) {
+    console.log('\nChanged queries (regressions first):');
+    for (const change of comparison.changed) {
+      const sign = change.delta.ndcg >= 0 ? '+' : '';
+      console.log(
+        `  ${change.id}: nDCG ${change.baseline.ndcg.toFixed(4)} -> ${change.candidate.ndcg.toFixed(4)} (${sign}${change.delta.ndcg.toFixed(4)})  "${change.query}"`
+      );
+    }
+  } else {
+    console.log('\nNo query changed.');
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  // Keep the report readable; LOG_LEVEL still wins when set
+  if (!process.env.LOG_LEVEL) {
+    winstonLogger.level = 'warn';
+    winstonLogger.transports.forEach(transport => {
+      transport.level = 'warn';
+    });
+  }
+
+  await initializePlugins();
+  try {
+    const evaluation = options.candidate
+      ? await retrievalEvalService.compare(options.baseline || {}, options.candidate, { courses: options.courses, k: options.k })
+      : await retrievalEvalService.evaluate(options.baseline, { courses: options.courses, k: options.k });
+
+    if ('delta' in evaluation) {
+      printComparison(evaluation);
+    } else {
+      printReport(evaluation);
+    }
+    if (options.out) {
+      await fs.writeFile(options.out, JSON.stringify(evaluation, null, 2));
+      console.log(`\nReport written to ${options.out}`);
+    }
+    return options.failOnRegression && 'delta' in evaluation && evaluation.delta.ndcg < 0 ? 1 : 0;
+  } finally {
+    await shutdownPlugins();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(`Retrieval evaluation failed: ${error.message}`);
+    process.exit(2);
+  });
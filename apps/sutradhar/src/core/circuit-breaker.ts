@@ -33,6 +33,26 @@ export class CircuitBreaker {
     };
   }
 
+  /**
+   * Whether a call may go through right now (for callers that track outcomes themselves)
+   */
+  allowRequest(): boolean {
+    this.updateState();
+    return this.state !== 'open';
+  }
+
+  /**
+   * Record the outcome of a call made after allowRequest()
+   */
+  recordResult(success: boolean): void {
+    if (success) {
+      this.onSuccess();
+    } else {
+      this.onFailure();
+    }
+    this.updateState();
+  }
+
   /**
    * Execute a function with circuit breaker protection
    */
@@ -104,6 +124,16 @@ export class CircuitBreaker {
     return this.state;
   }
 
+  getStats(): { state: CircuitState; failureCount: number; successCount: number; lastFailureTime: number; config: CircuitBreakerConfig } {
+    return {
+      state: this.getState(),
+      failureCount: this.failureCount,
+      successCount: this.successCount,
+      lastFailureTime: this.lastFailureTime,
+      config: this.config,
+    };
+  }
+
   reset(): void {
     this.state = 'closed';
     this.failureCount = 0;
@@ -124,6 +154,13 @@ class CircuitBreakerRegistry {
     return this.breakers.get(name)!;
   }
 
+  /**
+   * Drop a breaker so the next get() creates it with fresh config
+   */
+  remove(name: string): void {
+    this.breakers.delete(name);
+  }
+
   reset(name: string): void {
     const breaker = this.breakers.get(name);
     if (breaker) {
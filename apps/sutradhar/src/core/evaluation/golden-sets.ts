@@ -0,0 +1,81 @@
+/**
+ * Golden Sets - Loads per-course golden queries from data_repository
+ * Each course directory may hold a `retrieval-eval.json`:
+ *   { "filters": { "courseSlug": "java" }, "queries": [{ "id": "...", "query": "...", "expected": ["Java/Lesson_02_....md"] }] }
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { courseSlugFor } from '../ingestion';
+import { JsonSchema, validateJsonSchema } from '../json-schema';
+import { GoldenSet } from './types';
+
+export const GOLDEN_SET_FILE = 'retrieval-eval.json';
+
+const GOLDEN_SET_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['queries'],
+  properties: {
+    filters: { type: 'object' },
+    queries: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'query', 'expected'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          query: { type: 'string', minLength: 1 },
+          expected: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } },
+          filters: { type: 'object' },
+        },
+      },
+    },
+  },
+};
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+/**
+ * Golden sets of the given courses (by slug), or of every course that has one
+ */
+export async function loadGoldenSets(dataDir: string, courses: string[] = []): Promise<GoldenSet[]> {
+  const entries = await fs.readdir(dataDir, { withFileTypes: true });
+  const sets: GoldenSet[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const courseSlug = courseSlugFor(entry.name);
+    if (!entry.isDirectory() || (courses.length > 0 && !courses.includes(courseSlug))) {
+      continue;
+    }
+
+    const file = path.join(dataDir, entry.name, GOLDEN_SET_FILE);
+    let data: any;
+    try {
+      data = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') continue;
+      throw new EvaluationError(`Invalid golden set ${file}: ${error.message}`);
+    }
+
+    const errors = validateJsonSchema(GOLDEN_SET_SCHEMA, data);
+    if (errors.length > 0) {
+      throw new EvaluationError(`Invalid golden set ${file}: ${errors.join('; ')}`);
+    }
+    sets.push({ courseSlug, file: path.relative(dataDir, file), filters: data.filters, queries: data.queries });
+  }
+
+  const missing = courses.filter(course => !sets.some(set => set.courseSlug === course));
+  if (missing.length > 0) {
+    throw new EvaluationError(`No golden set for course: ${missing.join(', ')}`);
+  }
+  if (sets.length === 0) {
+    throw new EvaluationError(`No golden sets found in ${dataDir} (expected <course>/${GOLDEN_SET_FILE})`);
+  }
+  return sets;
+}
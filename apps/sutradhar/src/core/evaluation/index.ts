@@ -0,0 +1,8 @@
+/**
+ * Evaluation - Golden query sets and ranking metrics for measuring retrieval quality
+ * Evaluations run in services/retrieval-eval-service
+ */
+
+export { EvaluationError, GOLDEN_SET_FILE, loadGoldenSets } from './golden-sets';
+export { diffMetrics, matchesExpected, meanMetrics, round, scoreRanking, RankedResult } from './metrics';
+export * from './types';
@@ -0,0 +1,69 @@
+/**
+ * Retrieval metrics over a ranked result list with binary relevance
+ * A result is relevant when it matches an expected entry that no earlier result matched, so several chunks of
+ * the same lesson don't count as several hits
+ */
+
+import { RetrievalMetrics } from './types';
+
+export interface RankedResult {
+  source: string;
+  documentId?: string;
+}
+
+/**
+ * An expected entry matches a chunk ID exactly, or a source exactly or as its directory
+ */
+export function matchesExpected(result: RankedResult, expected: string): boolean {
+  if (result.documentId === expected || result.source === expected) {
+    return true;
+  }
+  return result.source.startsWith(`${expected.replace(/\/+$/, '')}/`);
+}
+
+/**
+ * recall@k, reciprocal rank and nDCG@k of the top k results
+ */
+export function scoreRanking(results: RankedResult[], expected: string[], k: number): RetrievalMetrics & { missed: string[] } {
+  const found = new Set<string>();
+  let firstHit = 0;
+  let dcg = 0;
+
+  results.slice(0, k).forEach((result, i) => {
+    const hit = expected.find(entry => !found.has(entry) && matchesExpected(result, entry));
+    if (!hit) return;
+    found.add(hit);
+    if (!firstHit) firstHit = i + 1;
+    dcg += 1 / Math.log2(i + 2);
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(expected.length, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    recall: expected.length > 0 ? found.size / expected.length : 0,
+    mrr: firstHit ? 1 / firstHit : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    missed: expected.filter(entry => !found.has(entry)),
+  };
+}
+
+export function meanMetrics(metrics: RetrievalMetrics[]): RetrievalMetrics {
+  const mean = (key: keyof RetrievalMetrics) =>
+    metrics.length > 0 ? round(metrics.reduce((sum, m) => sum + m[key], 0) / metrics.length) : 0;
+  return { recall: mean('recall'), mrr: mean('mrr'), ndcg: mean('ndcg') };
+}
+
+export function diffMetrics(candidate: RetrievalMetrics, baseline: RetrievalMetrics): RetrievalMetrics {
+  return {
+    recall: round(candidate.recall - baseline.recall),
+    mrr: round(candidate.mrr - baseline.mrr),
+    ndcg: round(candidate.ndcg - baseline.ndcg),
+  };
+}
+
+export function round(value: number): number {
+  return Number(value.toFixed(4));
+}
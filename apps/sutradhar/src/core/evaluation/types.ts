@@ -0,0 +1,117 @@
+/**
+ * Evaluation Types - Golden query sets and retrieval quality reports
+ */
+
+import { RerankMode } from '../services/rerank-service';
+
+/**
+ * One question and the documents a good retriever returns for it
+ */
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  /**
+   * Relevant sources (e.g. "Java/Lesson_02_Object_Oriented_Programming.md"), source directories, or chunk IDs
+   * (`${source}#${n}`); each counts once however many of its chunks are retrieved
+   */
+  expected: string[];
+  /**
+   * Merged over the set's filters
+   */
+  filters?: Record<string, any>;
+}
+
+/**
+ * A course's `retrieval-eval.json` in data_repository
+ */
+export interface GoldenSet {
+  courseSlug: string;
+  file: string;
+  /**
+   * Applied to every query in the set, e.g. { "courseSlug": "java" } to measure course-scoped search
+   */
+  filters?: Record<string, any>;
+  queries: GoldenQuery[];
+}
+
+/**
+ * A retrieval setup to measure
+ */
+export interface EvaluationConfig {
+  /**
+   * Label in reports; defaults to the backend
+   */
+  name?: string;
+  /**
+   * A registered plugin name (default "retrieval", the live plugin) or a backend from RETRIEVAL_BACKENDS,
+   * which gets a fresh plugin instance for the run
+   */
+  backend?: string;
+  /**
+   * Plugin settings for fresh backends, which index the data repository in memory: { "hybridAlpha": 0.3, "chunker": "code-blocks" }
+   */
+  plugin?: Record<string, any>;
+  rerank?: RerankMode;
+}
+
+export interface RetrievalMetrics {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface QueryEvaluation extends RetrievalMetrics {
+  id: string;
+  courseSlug: string;
+  query: string;
+  expected: string[];
+  /**
+   * Top-k results as `documentId` (or source when the plugin has no IDs), best first
+   */
+  retrieved: string[];
+  /**
+   * Expected entries that were not retrieved
+   */
+  missed: string[];
+}
+
+export interface EvaluationReport {
+  config: Required<Pick<EvaluationConfig, 'name' | 'backend' | 'rerank'>> & Pick<EvaluationConfig, 'plugin'>;
+  k: number;
+  queries: number;
+  metrics: RetrievalMetrics;
+  courses: Record<string, RetrievalMetrics & { queries: number }>;
+  results: QueryEvaluation[];
+  durationMs: number;
+}
+
+export interface QueryComparison {
+  id: string;
+  courseSlug: string;
+  query: string;
+  baseline: RetrievalMetrics;
+  candidate: RetrievalMetrics;
+  delta: RetrievalMetrics;
+}
+
+export interface EvaluationComparison {
+  baseline: EvaluationReport;
+  candidate: EvaluationReport;
+  /**
+   * candidate - baseline, overall and per course
+   */
+  delta: RetrievalMetrics;
+  courses: Record<string, RetrievalMetrics>;
+  /**
+   * Queries whose metrics moved, biggest nDCG regressions first
+   */
+  changed: QueryComparison[];
+}
+
+export interface EvaluationOptions {
+  /**
+   * Course slugs to evaluate; all golden sets when empty
+   */
+  courses?: string[];
+  k?: number;
+}
@@ -15,24 +15,32 @@ export class PIIGuardrail implements IGuardrail {
     ssn: /\b\d{3}-?\d{2}-?\d{4}\b/g,
     creditCard: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
     ipAddress: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    // With checkBareNumbers false, only numbers written the way people write them count
+    separatedPhone: /(?:\+?1[-.\s]?)?(?:\(\d{3}\)\s?|\b\d{3}[-.\s])\d{3}[-.\s]\d{4}\b/,
+    separatedSSN: /\b\d{3}-\d{2}-\d{4}\b/,
   };
 
+  // Reserved documentation domains (RFC 2606) are placeholders in examples and code, not anyone's address
+  private readonly exampleDomain = /@(?:[\w-]+\.)*(?:example\.(?:com|org|net)|example|test|invalid|localhost)\b/i;
+
   async check(context: GuardrailContext, config?: GuardrailConfig): Promise<GuardrailResult> {
     const query = context.query;
     const detected: string[] = [];
+    // Bare digit runs are usually numbers in code or exercises (IDs, 1000000007), not phone numbers or SSNs
+    const bareNumbers = config?.checkBareNumbers !== false;
 
     // Check for email addresses
-    if (config?.checkEmail !== false && this.patterns.email.test(query)) {
+    if (config?.checkEmail !== false && (query.match(this.patterns.email) || []).some(email => !this.exampleDomain.test(email))) {
       detected.push('email address');
     }
 
     // Check for phone numbers
-    if (config?.checkPhone !== false && this.patterns.phone.test(query)) {
+    if (config?.checkPhone !== false && (bareNumbers ? this.patterns.phone : this.patterns.separatedPhone).test(query)) {
       detected.push('phone number');
     }
 
     // Check for SSN
-    if (config?.checkSSN !== false && this.patterns.ssn.test(query)) {
+    if (config?.checkSSN !== false && (bareNumbers ? this.patterns.ssn : this.patterns.separatedSSN).test(query)) {
       detected.push('Social Security Number');
     }
 
@@ -19,6 +19,11 @@ export class RelevanceGuardrail implements IGuardrail {
   ]);
 
   async check(context: GuardrailContext, config?: GuardrailConfig): Promise<GuardrailResult> {
+    // Nothing has been retrieved yet when a request is checked on the way in
+    if (context.stage === 'input') {
+      return { allowed: true, category: 'relevance' };
+    }
+
     const snippets = context.snippets || [];
     const minScore = (config?.minScore as number) ?? 0.2; // Lowered threshold
     const minRelevanceRatio = (config?.minRelevanceRatio as number) ?? 0.2; // Lowered threshold for better recall
@@ -22,6 +22,13 @@ export class SafetyGuardrail implements IGuardrail {
       /\b(hurt|injure|damage|destroy|assault|maim|torture)\b/i,
       /\b(shoot|stab|poison|explode|burn)\b/i,
     ],
+    // Violence aimed at people; used instead of `threats` when checkThreats is false, as words like
+    // kill, attack or destroy are everyday programming vocabulary (kill a process, destroy a session)
+    violence: [
+      /\b(murder|terrorism|terrorist|torture|assault|maim|massacre)\b/i,
+      /\b(kill|hurt|harm|shoot|stab|poison|attack|beat up)\s+(you|him|her|them|people|someone|somebody|everyone|my (teacher|classmates?|family|friends?|parents?))\b/i,
+      /\b(make|build)\s+(a\s+)?(bomb|explosive|weapon)s?\b/i,
+    ],
     illegal: [
       /\b(hack|crack|pirate|illegal|fraud|steal|scam|drug|weapon)\b/i,
     ],
@@ -53,7 +60,7 @@ export class SafetyGuardrail implements IGuardrail {
     }
 
     // Check for threats
-    for (const pattern of this.patterns.threats) {
+    for (const pattern of config?.checkThreats === false ? this.patterns.violence : this.patterns.threats) {
       if (pattern.test(queryLower)) {
         return {
           allowed: false,
@@ -30,6 +30,8 @@ export class SpamGuardrail implements IGuardrail {
     this.cleanupInterval = setInterval(() => {
       this.cleanupMemory();
     }, 5 * 60 * 1000);
+    // Don't keep the process alive just for cleanup
+    this.cleanupInterval.unref();
   }
 
   private cleanupMemory(): void {
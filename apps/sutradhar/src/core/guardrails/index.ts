@@ -112,6 +112,20 @@ guardrailRegistry.configurePersona('technical', {
   },
 });
 
+// Configure tutor persona (student-facing questions: strict on safety and privacy, open to any study topic)
+guardrailRegistry.configurePersona('tutor', {
+  enabled: ['safety', 'pii', 'profanity', 'length'],
+  guardrails: {
+    // Programming vocabulary ("hack", "kill the process", "destroy the session") trips the illegal-activity and
+    // broad threat patterns; violence aimed at people is still refused
+    safety: { enabled: true, checkIllegal: false, checkThreats: false },
+    // Long numbers in pasted code or exercises aren't phone numbers or SSNs unless written like them
+    pii: { enabled: true, checkIP: false, checkBareNumbers: false },
+    profanity: { enabled: true },
+    length: { enabled: true, minLength: 1, maxLength: 4000 },
+  },
+});
+
 /**
  * Main function to check guardrails
  * Production-ready with error handling
@@ -119,7 +133,8 @@ guardrailRegistry.configurePersona('technical', {
 export async function checkGuardrails(
   query: string,
   snippets?: Array<{ text: string; score?: number; source?: string }>,
-  persona?: string
+  persona?: string,
+  options: Pick<GuardrailContext, 'sessionId' | 'userId' | 'stage' | 'metadata'> = {}
 ): Promise<GuardrailResult> {
   // Validate inputs
   if (!query || typeof query !== 'string') {
@@ -132,6 +147,7 @@ export async function checkGuardrails(
   }
 
   const context: GuardrailContext = {
+    ...options,
     query: query.trim(),
     snippets,
     persona,
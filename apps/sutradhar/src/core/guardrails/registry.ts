@@ -3,21 +3,11 @@
  * Production-ready with caching, metrics, and error handling
  */
 
-import { IGuardrail, GuardrailContext, GuardrailResult, PersonaGuardrailConfig, GuardrailConfig } from './types';
+import { IGuardrail, GuardrailContext, GuardrailResult, GuardrailMetrics, PersonaGuardrailConfig } from './types';
 import { log } from '../../log';
 import { cache } from '../cache';
 import { circuitBreakerRegistry } from '../circuit-breaker';
 
-// Metrics tracking
-interface GuardrailMetrics {
-  totalChecks: number;
-  blocked: number;
-  allowed: number;
-  errors: number;
-  latency: number[]; // For percentile calculation
-  byCategory: Record<string, number>;
-}
-
 export class GuardrailRegistry {
   private guardrails: Map<string, IGuardrail> = new Map();
   private personaConfigs: Map<string, PersonaGuardrailConfig> = new Map();
@@ -102,6 +92,13 @@ export class GuardrailRegistry {
     return this.personaConfigs.get(persona.toLowerCase());
   }
 
+  /**
+   * All persona configurations, keyed by normalized persona name
+   */
+  listPersonaConfigs(): Record<string, PersonaGuardrailConfig> {
+    return Object.fromEntries(this.personaConfigs.entries());
+  }
+
   /**
    * Check guardrails for a query with caching and circuit breaker protection
    */
@@ -114,7 +111,7 @@ export class GuardrailRegistry {
     const queryHash = this.hashQuery(context.query);
     
     // Try cache for identical queries (short TTL to handle updates)
-    const cacheKey = `guardrail:${personaName}:${queryHash}`;
+    const cacheKey = `guardrail:${personaName}:${context.stage || 'any'}:${queryHash}`;
     try {
       const cached = await cache.get<GuardrailResult>(cacheKey);
       if (cached) {
@@ -204,7 +201,7 @@ export class GuardrailRegistry {
             sessionId: context.sessionId,
             latency: checkLatency,
           });
-          return result;
+          return { ...result, metadata: { ...result.metadata, guardrail: guardrail.name } };
         }
       } catch (error) {
         log.error(`Guardrail ${guardrail.name} threw error`, {
@@ -30,6 +30,8 @@ export interface GuardrailContext {
   sessionId?: string;
   userId?: string;
   persona?: string;
+  // 'input' checks a request before any retrieval, so there are no snippets to judge yet
+  stage?: 'input' | 'output';
   metadata?: Record<string, any>;
 }
 
@@ -73,3 +75,12 @@ export interface PersonaGuardrailConfig {
   guardrails?: Record<string, GuardrailConfig>;
 }
 
+
+export interface GuardrailMetrics {
+  totalChecks: number;
+  blocked: number;
+  allowed: number;
+  errors: number;
+  latency: number[]; // For percentile calculation
+  byCategory: Record<string, number>;
+}
@@ -0,0 +1,61 @@
+/**
+ * Hashed n-gram embeddings - Deterministic text vectors that need no model or network
+ * Word unigrams/bigrams and character trigrams are hashed into a fixed number of signed buckets;
+ * similar wording gives similar vectors, but unlike model embeddings there's no notion of meaning
+ */
+
+import { createHash } from 'crypto';
+
+export const HASHED_EMBEDDING_PROVIDER = 'hashed';
+
+export function hashedEmbeddingModel(dimensions: number): string {
+  return `hashed-ngram-${dimensions}`;
+}
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace so trivial differences don't matter
+ */
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * L2-normalized vector for a text; the same text always gives the same vector
+ */
+export function hashedEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const features = [
+    ...words,
+    ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ...words.flatMap(word => {
+      const padded = ` ${word} `;
+      return Array.from({ length: Math.max(padded.length - 2, 0) }, (_, i) => `#${padded.slice(i, i + 3)}`);
+    }),
+  ];
+  for (const feature of features) {
+    const digest = createHash('md5').update(feature).digest();
+    vector[digest.readUInt32BE(0) % dimensions] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Cosine similarity; 0 when either vector is all zeros or the sizes differ
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
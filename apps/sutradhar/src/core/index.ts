@@ -20,7 +20,7 @@ export type {
 // Interfaces
 export type { IEmailPlugin, SendEmailPayload, SendEmailResponse } from './interfaces/email-plugin.interface';
 export type { IActionPlugin, ActionType, BaseActionPayload } from './interfaces/action-plugin.interface';
-export type { ILLMPlugin, LLMRequest, LLMResponse, LLMProvider } from './interfaces/llm-plugin.interface';
+export type { ILLMPlugin, LLMRequest, LLMResponse, LLMProvider, LLMMessage, LLMTool, LLMToolCall, LLMToolChoice } from './interfaces/llm-plugin.interface';
 export type { IRetrievalPlugin, SearchSnippet, IndexDocument } from './interfaces/retrieval-plugin.interface';
 export type { IDataPlugin, Session, Message, ActionLog } from './interfaces/data-plugin.interface';
 
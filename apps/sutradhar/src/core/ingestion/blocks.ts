@@ -0,0 +1,167 @@
+/**
+ * Block helpers shared by the chunkers
+ * A block is a paragraph or a whole fenced code block; packing never cuts inside one unless it alone
+ * is over the token limit, and oversized code is split on line boundaries with its fence reopened
+ */
+
+import { estimateTokens } from '../services/usage-service';
+import { ChunkOptions } from './types';
+
+export interface Block {
+  text: string;
+  /**
+   * Opening fence line (e.g. "```java") for code blocks
+   */
+  fence?: string;
+}
+
+export { estimateTokens };
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Split text on blank lines, keeping fenced code blocks (including blank lines inside them) whole
+ */
+export function splitBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let current: string[] = [];
+  let fence: { marker: string; line: string } | null = null;
+
+  const flush = () => {
+    const joined = current.join('\n').trim();
+    if (joined) {
+      blocks.push(fence ? { text: joined, fence: fence.line.trim() } : { text: joined });
+    }
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const marker = line.match(FENCE)?.[1];
+    if (fence) {
+      current.push(line);
+      if (marker && marker[0] === fence.marker[0] && marker.length >= fence.marker.length && !line.trim().slice(marker.length).trim()) {
+        flush();
+        fence = null;
+      }
+    } else if (marker) {
+      flush();
+      fence = { marker, line };
+      current.push(line);
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      current.push(line);
+    }
+  }
+  // An unclosed fence runs to the end of the text
+  flush();
+  return blocks;
+}
+
+/**
+ * Greedily pack blocks into chunks of at most maxTokens
+ * Trailing blocks that fit in overlapTokens are repeated at the start of the next chunk
+ */
+export function packBlocks(blocks: Block[], options: ChunkOptions): string[] {
+  const chunks: string[] = [];
+  let current: Array<{ text: string; tokens: number }> = [];
+  let tokens = 0;
+  let carried = 0;
+
+  const flush = () => {
+    if (current.length > carried) {
+      chunks.push(current.map(part => part.text).join('\n\n'));
+    }
+    const tail: typeof current = [];
+    let tailTokens = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      if (tailTokens + current[i].tokens > options.overlapTokens) break;
+      tail.unshift(current[i]);
+      tailTokens += current[i].tokens;
+    }
+    current = tail;
+    tokens = tailTokens;
+    carried = tail.length;
+  };
+
+  for (const block of blocks) {
+    for (const text of splitOversized(block, options)) {
+      // Counting the blank line that joins blocks keeps the packed chunk under the limit
+      const blockTokens = estimateTokens(`${text}\n\n`);
+      if (current.length > 0 && tokens + blockTokens > options.maxTokens) {
+        flush();
+        // Overlap never pushes a chunk over the limit
+        if (tokens + blockTokens > options.maxTokens) {
+          current = [];
+          tokens = 0;
+          carried = 0;
+        }
+      }
+      current.push({ text, tokens: blockTokens });
+      tokens += blockTokens;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Fixed-size token windows over the text, each starting overlapTokens before the previous one ended
+ * Windows break between words and keep the original whitespace
+ */
+export function slidingWindow(text: string, options: ChunkOptions): string[] {
+  const words = text.match(/\S+\s*/g) || [];
+  const sizes = words.map(word => estimateTokens(word));
+  const windows: string[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < words.length && (end === start || tokens + sizes[end] <= options.maxTokens)) {
+      tokens += sizes[end];
+      end++;
+    }
+    windows.push(words.slice(start, end).join('').trim());
+    if (end >= words.length) break;
+
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap + sizes[next - 1] <= options.overlapTokens) {
+      overlap += sizes[next - 1];
+      next--;
+    }
+    start = next;
+  }
+  return windows.filter(Boolean);
+}
+
+function splitOversized(block: Block, options: ChunkOptions): string[] {
+  if (estimateTokens(block.text) <= options.maxTokens) {
+    return [block.text];
+  }
+  if (!block.fence) {
+    return slidingWindow(block.text, { maxTokens: options.maxTokens, overlapTokens: 0 });
+  }
+
+  const lines = block.text.split('\n').slice(1);
+  const closing = lines.length > 0 && FENCE.test(lines[lines.length - 1]) ? lines.pop()!.trim() : block.fence.match(FENCE)![1];
+  const budget = options.maxTokens - estimateTokens(`${block.fence}\n\n${closing}`);
+  const parts: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const line of lines) {
+    const lineTokens = estimateTokens(`${line}\n`);
+    if (current.length > 0 && tokens + lineTokens > budget) {
+      parts.push([block.fence, ...current, closing].join('\n'));
+      current = [];
+      tokens = 0;
+    }
+    current.push(line);
+    tokens += lineTokens;
+  }
+  if (current.length > 0) {
+    parts.push([block.fence, ...current, closing].join('\n'));
+  }
+  return parts;
+}
@@ -0,0 +1,64 @@
+/**
+ * Data Repository - Reads course lessons from data_repository as source documents
+ * Files in a course directory get that course's slug and their lesson ID, matching the IDs Optimus uses
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import path from 'path';
+import { SourceDocument } from './types';
+import { env } from '../../env';
+import { log } from '../../log';
+
+/**
+ * Same slug Optimus derives from a data_repository course directory
+ */
+export function courseSlugFor(directory: string): string {
+  return directory.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+}
+
+export function findDataRepository(): string | null {
+  const options = [
+    env.RETRIEVAL_DATA_DIR,
+    path.join(process.cwd(), '../data_repository'),
+    path.join(process.cwd(), '../../data_repository'),
+    path.join(process.cwd(), 'data_repository'),
+    path.join(__dirname, '../../../../data_repository'),
+  ].filter((dir): dir is string => !!dir);
+
+  return options.find(dir => existsSync(dir)) || null;
+}
+
+/**
+ * Every markdown file under the directory, with its path relative to it as the source
+ */
+export async function readDataRepository(dataDir: string): Promise<SourceDocument[]> {
+  const documents: SourceDocument[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') await walk(fullPath);
+        continue;
+      }
+      if (!entry.name.endsWith('.md')) continue;
+
+      const source = path.relative(dataDir, fullPath).split(path.sep).join('/');
+      const [courseDir, ...rest] = source.split('/');
+      const metadata: Record<string, any> = { file: source };
+      if (rest.length > 0) {
+        metadata.courseSlug = courseSlugFor(courseDir);
+        metadata.lessonId = path.basename(entry.name, '.md');
+      }
+      documents.push({ source, text: await fs.readFile(fullPath, 'utf-8'), metadata });
+    }
+  };
+
+  try {
+    await walk(dataDir);
+  } catch (error: any) {
+    log.warn('Failed to read data repository', { dir: dataDir, error: error.message });
+  }
+  return documents;
+}
@@ -0,0 +1,19 @@
+/**
+ * Code Block Chunker - Packs paragraphs up to the token limit without cutting through fenced code
+ */
+
+import { IChunker, Chunk, ChunkOptions } from '../types';
+import { estimateTokens, packBlocks, splitBlocks } from '../blocks';
+
+export class CodeBlockChunker implements IChunker {
+  name = 'code-blocks';
+  description = 'Packs paragraphs and whole code blocks up to the token limit, ignoring headings';
+
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    return packBlocks(splitBlocks(text), options).map(part => ({
+      text: part,
+      sectionPath: [],
+      tokens: estimateTokens(part),
+    }));
+  }
+}
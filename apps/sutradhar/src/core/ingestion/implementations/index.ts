@@ -0,0 +1,7 @@
+/**
+ * Chunker Implementations - Export all chunkers
+ */
+
+export { MarkdownChunker } from './markdown-chunker';
+export { CodeBlockChunker } from './code-block-chunker';
+export { SlidingWindowChunker } from './sliding-window-chunker';
@@ -0,0 +1,83 @@
+/**
+ * Markdown Chunker - One chunk per heading section, with the heading path as breadcrumbs
+ * Sections over the token limit are split between paragraphs and code blocks
+ */
+
+import { IChunker, Chunk, ChunkOptions } from '../types';
+import { estimateTokens, packBlocks, splitBlocks } from '../blocks';
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+interface Section {
+  path: string[];
+  lines: string[];
+  hasBody: boolean;
+}
+
+export class MarkdownChunker implements IChunker {
+  name = 'markdown';
+  description = 'Splits on the heading tree; each chunk carries its section path';
+
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    const chunks: Chunk[] = [];
+    // Heading-only sections (e.g. a title directly followed by a subheading) are folded into the next one
+    let pending: string[] = [];
+
+    for (const section of this.sections(text)) {
+      if (!section.hasBody) {
+        pending.push(...section.lines);
+        continue;
+      }
+      const body = [...pending, ...section.lines].join('\n').trim();
+      pending = [];
+
+      const parts = estimateTokens(body) <= options.maxTokens ? [body] : packBlocks(splitBlocks(body), options);
+      for (const part of parts) {
+        chunks.push({ text: part, sectionPath: section.path, tokens: estimateTokens(part) });
+      }
+    }
+
+    const rest = pending.join('\n').trim();
+    if (rest) {
+      chunks.push({ text: rest, sectionPath: [], tokens: estimateTokens(rest) });
+    }
+    return chunks;
+  }
+
+  /**
+   * Headings inside code fences (e.g. "# comment" in a shell snippet) don't start sections
+   */
+  private sections(text: string): Section[] {
+    const sections: Section[] = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let current: Section = { path: [], lines: [], hasBody: false };
+    let fence: string | null = null;
+
+    for (const line of text.split('\n')) {
+      const marker = line.match(FENCE)?.[1];
+      if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+        fence = fence ? null : marker;
+      }
+
+      const heading = !fence && !marker ? line.match(HEADING) : null;
+      if (heading) {
+        sections.push(current);
+        const level = heading[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+          stack.pop();
+        }
+        stack.push({ level, title: heading[2] });
+        current = { path: stack.map(entry => entry.title), lines: [line], hasBody: false };
+        continue;
+      }
+
+      current.lines.push(line);
+      if (line.trim()) {
+        current.hasBody = true;
+      }
+    }
+    sections.push(current);
+    return sections.filter(section => section.lines.some(line => line.trim()));
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Sliding Window Chunker - Fixed-size token windows with overlap, for text without useful structure
+ */
+
+import { IChunker, Chunk, ChunkOptions } from '../types';
+import { estimateTokens, slidingWindow } from '../blocks';
+
+export class SlidingWindowChunker implements IChunker {
+  name = 'sliding-window';
+  description = 'Fixed-size token windows that overlap by overlapTokens';
+
+  chunk(text: string, options: ChunkOptions): Chunk[] {
+    return slidingWindow(text, options).map(part => ({
+      text: part,
+      sectionPath: [],
+      tokens: estimateTokens(part),
+    }));
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Ingestion - Main entry point for turning source documents into index documents
+ * Chunks get IDs `${source}#${n}`, the source's metadata plus their section path, and a content hash
+ * used for dedup and incremental re-indexing (see services/ingestion-service)
+ */
+
+import { createHash } from 'crypto';
+import { chunkerRegistry } from './registry';
+import { MarkdownChunker, CodeBlockChunker, SlidingWindowChunker } from './implementations';
+import { ChunkOptions, IChunker, IngestionOptions, SourceDocument } from './types';
+import { IndexDocument } from '../interfaces/retrieval-plugin.interface';
+import { normalizeText } from '../hashed-embedding';
+import { env } from '../../env';
+
+// Register all default chunkers
+chunkerRegistry.register(new MarkdownChunker());
+chunkerRegistry.register(new CodeBlockChunker());
+chunkerRegistry.register(new SlidingWindowChunker());
+
+export class IngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+export function resolveChunker(options: IngestionOptions = {}): { chunker: IChunker; chunkOptions: ChunkOptions } {
+  const name = options.chunker || env.RETRIEVAL_CHUNKER;
+  const chunker = chunkerRegistry.get(name);
+  if (!chunker) {
+    throw new IngestionError(`Unknown chunker: ${name} (available: ${chunkerRegistry.list().map(c => c.name).join(', ')})`);
+  }
+
+  const maxTokens = options.maxTokens ?? env.RETRIEVAL_CHUNK_MAX_TOKENS;
+  const overlapTokens = Math.min(options.overlapTokens ?? env.RETRIEVAL_CHUNK_OVERLAP_TOKENS, Math.floor(maxTokens / 2));
+  return { chunker, chunkOptions: { maxTokens, overlapTokens } };
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(normalizeText(text)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Identical chunks are indexed once per course; courses stay self-contained so course filters still find them
+ */
+export function dedupKey(courseSlug: string | undefined, hash: string): string {
+  return `${courseSlug || ''}:${hash}`;
+}
+
+/**
+ * Chunk documents, skipping empty chunks and ones whose dedup key is already in `seen` (which is updated)
+ */
+export function chunkDocuments(
+  sources: SourceDocument[],
+  options: IngestionOptions = {},
+  seen: Set<string> = new Set()
+): { documents: IndexDocument[]; duplicates: number } {
+  const { chunker, chunkOptions } = resolveChunker(options);
+  const documents: IndexDocument[] = [];
+  let duplicates = 0;
+
+  for (const source of sources) {
+    chunker.chunk(source.text, chunkOptions).forEach((chunk, chunkIndex) => {
+      if (!normalizeText(chunk.text)) {
+        return;
+      }
+      const hash = contentHash(chunk.text);
+      const key = dedupKey(source.metadata?.courseSlug, hash);
+      if (seen.has(key)) {
+        duplicates++;
+        return;
+      }
+      seen.add(key);
+
+      documents.push({
+        id: `${source.source}#${chunkIndex}`,
+        text: chunk.text,
+        source: source.source,
+        metadata: {
+          ...source.metadata,
+          chunkIndex,
+          sectionPath: chunk.sectionPath,
+          breadcrumb: chunk.sectionPath.join(' > '),
+          tokens: chunk.tokens,
+          contentHash: hash,
+          chunker: chunker.name,
+        },
+      });
+    });
+  }
+  return { documents, duplicates };
+}
+
+// Export types and registry for advanced usage
+export { chunkerRegistry } from './registry';
+export { courseSlugFor, findDataRepository, readDataRepository } from './data-repository';
+export * from './types';
+export * from './implementations';
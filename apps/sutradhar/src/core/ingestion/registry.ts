@@ -0,0 +1,36 @@
+/**
+ * Chunker Registry - Manages pluggable chunkers
+ */
+
+import { IChunker } from './types';
+import { log } from '../../log';
+
+export class ChunkerRegistry {
+  private chunkers: Map<string, IChunker> = new Map();
+
+  /**
+   * Register a chunker
+   */
+  register(chunker: IChunker): void {
+    if (this.chunkers.has(chunker.name)) {
+      log.warn(`Chunker ${chunker.name} already registered, overwriting`);
+    }
+    this.chunkers.set(chunker.name, chunker);
+  }
+
+  /**
+   * Get a chunker by name
+   */
+  get(name: string): IChunker | undefined {
+    return this.chunkers.get(name);
+  }
+
+  /**
+   * List all registered chunkers
+   */
+  list(): IChunker[] {
+    return Array.from(this.chunkers.values());
+  }
+}
+
+export const chunkerRegistry = new ChunkerRegistry();
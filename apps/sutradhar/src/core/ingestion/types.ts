@@ -0,0 +1,74 @@
+/**
+ * Ingestion Types - Core interfaces for pluggable document chunkers
+ */
+
+/**
+ * A whole document before chunking, e.g. one lesson file
+ */
+export interface SourceDocument {
+  /**
+   * Stable path-like identifier; chunk IDs are `${source}#${n}`
+   */
+  source: string;
+  text: string;
+  /**
+   * Copied onto every chunk (courseSlug, lessonId, title...)
+   */
+  metadata?: Record<string, any>;
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export interface Chunk {
+  text: string;
+  /**
+   * Headings from the top of the document down to this chunk; empty for chunkers without structure
+   */
+  sectionPath: string[];
+  tokens: number;
+}
+
+export interface IChunker {
+  /**
+   * Unique identifier for this chunker
+   */
+  name: string;
+
+  /**
+   * Description of how this chunker splits text
+   */
+  description: string;
+
+  /**
+   * Split a document's text; no chunk should exceed options.maxTokens
+   */
+  chunk(text: string, options: ChunkOptions): Chunk[];
+}
+
+export interface IngestionOptions extends Partial<ChunkOptions> {
+  chunker?: string;
+  /**
+   * Re-index documents even when their content hash is unchanged
+   */
+  force?: boolean;
+  /**
+   * The documents are the full set: previously ingested sources missing from them are removed from the index
+   * With a course, only that course's sources are compared, so courses can be synced one at a time
+   */
+  sync?: boolean | { courseSlug: string };
+}
+
+export interface IngestionReport {
+  chunker: string;
+  documents: number;
+  unchanged: number;
+  chunks: number;
+  indexed: number;
+  duplicates: number;
+  removed: number;
+  deleted: number; // Sources removed by a sync
+  total: number;
+}
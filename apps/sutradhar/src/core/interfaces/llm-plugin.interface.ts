@@ -3,27 +3,117 @@
  */
 
 import { IPlugin, PluginResult } from '../types';
+import { JsonSchema } from '../json-schema';
 
 export type LLMProvider = 'openai' | 'perplexity' | string;
 
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | null;
+  toolCalls?: LLMToolCall[]; // Assistant turns that called tools
+  toolCallId?: string;       // Tool turns: the call this message answers
+  name?: string;
+}
+
+/**
+ * Function the model may call; `parameters` is a JSON Schema for the arguments
+ */
+export interface LLMTool {
+  name: string;
+  description?: string;
+  parameters: JsonSchema;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+/**
+ * A conversation is `system`, then `messages` (prior turns), then `user` (the new turn)
+ * Single-turn callers only set `system` and `user`
+ */
 export interface LLMRequest {
-  system: string;
-  user: string;
+  system?: string;
+  user?: string;
+  messages?: LLMMessage[];
+  tools?: LLMTool[];
+  toolChoice?: LLMToolChoice;
+  responseSchema?: JsonSchema; // Ask for JSON matching this schema (providers with structured output enforce it)
   model?: string;
   temperature?: number;
   maxTokens?: number;
   provider?: LLMProvider;
+  timeoutMs?: number; // Overrides the provider's timeout for this call
+  tag?: string;       // What the call is for (e.g. "intent-classification"); selects a routing chain
+  fallback?: boolean; // false pins the call to its provider/model instead of the fallback chain
+  semanticCache?: SemanticCacheOptions; // Opt in to reusing responses to similar earlier requests
+}
+
+export interface SemanticCacheScope {
+  courseSlug?: string;
+  lessonId?: string;
+  persona?: string;
+}
+
+export interface SemanticCacheOptions {
+  scope?: SemanticCacheScope;
+  key?: string;       // Text compared for similarity, e.g. the bare question; defaults to the user turn
+  threshold?: number; // Minimum cosine similarity, defaults to LLM_SEMANTIC_CACHE_THRESHOLD
 }
 
 export interface LLMResponse {
   text: string;
   citations?: string[];
+  toolCalls?: LLMToolCall[];
+  finishReason?: string;
   raw?: any;
 }
 
+export interface EmbedRequest {
+  texts: string[];
+  provider?: LLMProvider;
+  model?: string;       // Provider's embedding model when omitted
+  dimensions?: number;  // Shorter vectors, for models that support it
+  timeoutMs?: number;
+}
+
+export interface EmbedResponse {
+  vectors: number[][]; // One per input text, in order
+  model: string;       // Vectors from different models aren't comparable
+  dimensions: number;
+}
+
 export interface ILLMPlugin extends IPlugin {
   chat(request: LLMRequest): Promise<PluginResult<LLMResponse>>;
+  /**
+   * Optional token streaming: yields text deltas, returns the complete response
+   */
+  chatStream?(request: LLMRequest): AsyncGenerator<string, PluginResult<LLMResponse>>;
+  /**
+   * Optional text embeddings
+   */
+  embed?(request: EmbedRequest): Promise<PluginResult<EmbedResponse>>;
   listProviders(): LLMProvider[];
   getDefaultProvider(): LLMProvider;
 }
 
+/**
+ * Flatten a request into the full message list sent to the model
+ */
+export function requestMessages(request: LLMRequest): LLMMessage[] {
+  const messages: LLMMessage[] = [];
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system });
+  }
+  messages.push(...(request.messages || []));
+  if (request.user) {
+    messages.push({ role: 'user', content: request.user });
+  }
+  return messages;
+}
@@ -30,6 +30,8 @@ export interface IndexRequest {
   documents: IndexDocument[];
   collection?: string;
   replace?: boolean;
+  // Document IDs to drop before indexing, e.g. chunks of a lesson section that no longer exists
+  remove?: string[];
 }
 
 export interface IRetrievalPlugin extends IPlugin {
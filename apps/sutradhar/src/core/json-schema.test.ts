@@ -0,0 +1,113 @@
+import { validateJsonSchema, JsonSchema } from './json-schema';
+
+describe('validateJsonSchema', () => {
+  it('accepts anything without a schema', () => {
+    expect(validateJsonSchema(undefined, { any: 'thing' })).toEqual([]);
+  });
+
+  describe('type', () => {
+    it('checks a single type and stops at a mismatch', () => {
+      expect(validateJsonSchema({ type: 'string', minLength: 3 }, 'abc')).toEqual([]);
+      expect(validateJsonSchema({ type: 'string', minLength: 3 }, 42)).toEqual(['$: must be string, got integer']);
+    });
+
+    it('accepts any type of a union', () => {
+      const schema: JsonSchema = { type: ['string', 'null'] };
+      expect(validateJsonSchema(schema, 'text')).toEqual([]);
+      expect(validateJsonSchema(schema, null)).toEqual([]);
+      expect(validateJsonSchema(schema, 1)).toEqual(['$: must be string or null, got integer']);
+    });
+
+    it('counts integers as numbers but not the reverse', () => {
+      expect(validateJsonSchema({ type: 'number' }, 3)).toEqual([]);
+      expect(validateJsonSchema({ type: 'integer' }, 3)).toEqual([]);
+      expect(validateJsonSchema({ type: 'integer' }, 3.5)).toEqual(['$: must be integer, got number']);
+    });
+
+    it('tells arrays, null and objects apart', () => {
+      expect(validateJsonSchema({ type: 'object' }, [])).toEqual(['$: must be object, got array']);
+      expect(validateJsonSchema({ type: 'object' }, null)).toEqual(['$: must be object, got null']);
+      expect(validateJsonSchema({ type: 'array' }, {})).toEqual(['$: must be array, got object']);
+    });
+
+    it('reports a missing value as undefined', () => {
+      expect(validateJsonSchema({ type: 'object' }, undefined, 'payload')).toEqual(['payload: must be object, got undefined']);
+    });
+  });
+
+  describe('objects', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string', minLength: 1 },
+        maxResults: { type: 'integer', minimum: 1, maximum: 50 },
+      },
+    };
+
+    it('reports missing required properties', () => {
+      expect(validateJsonSchema(schema, {})).toEqual(['$.query: is required']);
+    });
+
+    it('validates properties with their path', () => {
+      expect(validateJsonSchema(schema, { query: '', maxResults: 100 })).toEqual([
+        '$.query: must have at least 1 characters',
+        '$.maxResults: must be <= 50',
+      ]);
+    });
+
+    it('treats undefined properties as absent', () => {
+      expect(validateJsonSchema(schema, { query: 'java', maxResults: undefined })).toEqual([]);
+      expect(validateJsonSchema(schema, { query: undefined })).toEqual(['$.query: is required']);
+      expect(validateJsonSchema({ ...schema, additionalProperties: false }, { query: 'java', extra: undefined })).toEqual([]);
+    });
+
+    it('allows extra properties unless additionalProperties says otherwise', () => {
+      expect(validateJsonSchema(schema, { query: 'java', extra: 1 })).toEqual([]);
+      expect(validateJsonSchema({ ...schema, additionalProperties: false }, { query: 'java', extra: 1 })).toEqual(['$.extra: is not allowed']);
+      expect(validateJsonSchema({ ...schema, additionalProperties: { type: 'string' } }, { query: 'java', extra: 1, tag: 'x' }))
+        .toEqual(['$.extra: must be string, got integer']);
+    });
+  });
+
+  describe('arrays', () => {
+    it('checks length and every item', () => {
+      const schema: JsonSchema = { type: 'array', minItems: 1, maxItems: 2, items: { type: 'string' } };
+      expect(validateJsonSchema(schema, ['a'])).toEqual([]);
+      expect(validateJsonSchema(schema, [])).toEqual(['$: must have at least 1 items']);
+      expect(validateJsonSchema(schema, ['a', 2, 'c'])).toEqual(['$: must have at most 2 items', '$[1]: must be string, got integer']);
+    });
+  });
+
+  describe('values', () => {
+    it('checks enum, const and pattern', () => {
+      expect(validateJsonSchema({ enum: ['a', 'b'] }, 'c')).toEqual(['$: must be one of "a", "b"']);
+      expect(validateJsonSchema({ const: { v: 1 } }, { v: 1 })).toEqual([]);
+      expect(validateJsonSchema({ const: 1 }, 2)).toEqual(['$: must equal 1']);
+      expect(validateJsonSchema({ type: 'string', pattern: '^[a-z]+$' }, 'Java')).toEqual(['$: must match ^[a-z]+$']);
+    });
+  });
+
+  describe('anyOf and oneOf', () => {
+    const recipient: JsonSchema = { anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', minItems: 1, items: { type: 'string' } }] };
+
+    it('anyOf passes when at least one option matches', () => {
+      expect(validateJsonSchema(recipient, 'a@example.com')).toEqual([]);
+      expect(validateJsonSchema(recipient, ['a@example.com', 'b@example.com'])).toEqual([]);
+      expect(validateJsonSchema(recipient, [])).toEqual(['$: must match at least one allowed schema']);
+      expect(validateJsonSchema(recipient, 7)).toEqual(['$: must match at least one allowed schema']);
+    });
+
+    it('oneOf needs exactly one matching option', () => {
+      const schema: JsonSchema = { oneOf: [{ type: 'number', minimum: 0 }, { type: 'integer' }] };
+      expect(validateJsonSchema(schema, 1.5)).toEqual([]);
+      expect(validateJsonSchema(schema, 2)).toEqual(['$: must match exactly one allowed schema (matched 2)']);
+      expect(validateJsonSchema(schema, 'x')).toEqual(['$: must match exactly one allowed schema (matched 0)']);
+    });
+
+    it('reports nested failures with the full path', () => {
+      const schema: JsonSchema = { type: 'object', properties: { to: recipient } };
+      expect(validateJsonSchema(schema, { to: 7 }, 'payload')).toEqual(['payload.to: must match at least one allowed schema']);
+    });
+  });
+});
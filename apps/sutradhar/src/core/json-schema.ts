@@ -0,0 +1,133 @@
+/**
+ * JSON Schema - Minimal validator for the subset of JSON Schema used by capability contracts
+ * Supports: type, properties, required, additionalProperties, items, enum, const,
+ * minLength/maxLength, pattern, minimum/maximum, minItems/maxItems, anyOf, oneOf
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: any[];
+  const?: any;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: any;
+}
+
+function typeOf(value: any): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  // Integers are numbers too
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema, returns a list of problems (empty when valid)
+ * Each problem is prefixed with the path of the offending value, e.g. `$.documents[0].text: must be string`
+ */
+export function validateJsonSchema(schema: JsonSchema | undefined, value: any, path: string = '$'): string[] {
+  if (!schema) {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Nothing else is meaningful once the type is wrong
+      return [`${path}: must be ${types.join(' or ')}, got ${value === undefined ? 'undefined' : typeOf(value)}`];
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      // Undefined properties don't survive serialization, so they count as absent
+      if (item === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(schema.additionalProperties, item, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateJsonSchema(option, value, path).length === 0)) {
+    errors.push(`${path}: must match at least one allowed schema`);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateJsonSchema(option, value, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one allowed schema (matched ${matches})`);
+    }
+  }
+
+  return errors;
+}
@@ -3,8 +3,10 @@
  */
 
 import { BaseMockPlugin } from './base-mock-plugin';
-import { ILLMPlugin, LLMRequest, LLMResponse } from '../interfaces/llm-plugin.interface';
+import { EmbedRequest, EmbedResponse, ILLMPlugin, LLMRequest, LLMResponse, LLMTool, LLMToolCall, requestMessages } from '../interfaces/llm-plugin.interface';
+import { hashedEmbedding, hashedEmbeddingModel } from '../hashed-embedding';
 import { PluginConfig, PluginMetadata, PluginResult } from '../types';
+import { JsonSchema } from '../json-schema';
 import { log } from '../../log';
 
 interface MockLLMCall {
@@ -50,13 +52,58 @@ export class LLMMockPlugin extends BaseMockPlugin implements ILLMPlugin {
 
   async chat(request: LLMRequest): Promise<PluginResult<LLMResponse>> {
     await this.simulateLatency(200, 800); // Simulate LLM latency
+    return this.completeCall(request);
+  }
+
+  /**
+   * Stream the mock response word by word, like a token stream
+   */
+  async *chatStream(request: LLMRequest): AsyncGenerator<string, PluginResult<LLMResponse>> {
+    await this.simulateLatency(100, 300); // Time to first token
+
+    const result = this.completeCall(request);
+    const words = (result.data?.text || '').split(/(?<=\s)/).filter(Boolean);
+
+    for (const word of words) {
+      await this.simulateLatency(10, 40);
+      yield word;
+    }
+
+    return result;
+  }
 
+  /**
+   * Deterministic hashed n-gram vectors, so similarity search behaves sensibly without a provider
+   */
+  async embed(request: EmbedRequest): Promise<PluginResult<EmbedResponse>> {
+    await this.simulateLatency(20, 80);
+    const dimensions = request.dimensions || 512;
+    return this.mockSuccess<EmbedResponse>({
+      vectors: request.texts.map(text => hashedEmbedding(text, dimensions)),
+      model: hashedEmbeddingModel(dimensions),
+      dimensions,
+    });
+  }
+
+  private completeCall(request: LLMRequest): PluginResult<LLMResponse> {
     const provider = request.provider || this.getDefaultProvider();
     const model = request.model || (provider === 'perplexity' ? 'pplx-7b-online' : 'gpt-4o-mini');
 
-    // Generate context-aware mock response
-    const responseText = this.generateMockResponse(request.system, request.user);
-    
+    const messages = requestMessages(request);
+    const system = messages.filter(message => message.role === 'system').map(message => message.content || '').join('\n');
+    const user = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const lastMessage = messages[messages.length - 1];
+
+    // Call a tool when the latest turn asks for one; answer once tool results are back
+    const toolCalls = lastMessage?.role !== 'tool' ? this.pickToolCalls(request, user) : undefined;
+    const responseText = toolCalls
+      ? ''
+      : lastMessage?.role === 'tool'
+        ? `MOCK: Done. ${(lastMessage.content || '').slice(0, 200)}`
+        : request.responseSchema
+          ? JSON.stringify(this.sampleValue(request.responseSchema, user))
+          : this.generateMockResponse(system, user);
+
     const callId = this.generateId('llm');
     const citations = provider === 'perplexity' ? [
       'https://example.com/doc1',
@@ -68,8 +115,8 @@ export class LLMMockPlugin extends BaseMockPlugin implements ILLMPlugin {
       id: callId,
       provider,
       model,
-      system: request.system,
-      user: request.user,
+      system,
+      user,
       response: responseText,
       timestamp: Date.now(),
     });
@@ -81,13 +128,16 @@ export class LLMMockPlugin extends BaseMockPlugin implements ILLMPlugin {
 
     log.info(`MOCK LLM: ${provider}/${model}`, {
       callId,
-      userLength: request.user.length,
-      systemLength: request.system.length,
+      userLength: user.length,
+      systemLength: system.length,
+      toolCalls: toolCalls?.map(call => call.name),
     });
 
     return this.mockSuccess<LLMResponse>({
       text: responseText,
       citations,
+      toolCalls,
+      finishReason: toolCalls ? 'tool_calls' : 'stop',
       raw: {
         id: callId,
         provider,
@@ -102,6 +152,76 @@ export class LLMMockPlugin extends BaseMockPlugin implements ILLMPlugin {
     });
   }
 
+  /**
+   * Pick a tool whose name or description words appear in the user's message
+   */
+  private pickToolCalls(request: LLMRequest, user: string): LLMToolCall[] | undefined {
+    const tools = request.tools || [];
+    const choice = request.toolChoice ?? 'auto';
+    if (tools.length === 0 || choice === 'none') {
+      return undefined;
+    }
+
+    const userLower = user.toLowerCase();
+    const score = (tool: LLMTool) => `${tool.name} ${tool.description || ''}`
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 3 && userLower.includes(word))
+      .length;
+
+    let tool = typeof choice === 'object' ? tools.find(candidate => candidate.name === choice.name) : undefined;
+    if (!tool) {
+      const ranked = tools.map(candidate => ({ candidate, score: score(candidate) })).sort((a, b) => b.score - a.score);
+      tool = ranked[0].score > 0 || choice === 'required' ? ranked[0].candidate : undefined;
+    }
+    if (!tool) {
+      return undefined;
+    }
+
+    // Fill required arguments with plausible values taken from the message
+    const args: Record<string, any> = {};
+    for (const name of tool.parameters.required || []) {
+      args[name] = this.sampleValue(tool.parameters.properties?.[name] || {}, user);
+    }
+
+    return [{ id: this.generateId('call'), name: tool.name, arguments: args }];
+  }
+
+  /**
+   * Build a plausible value for a JSON Schema, using the user's message for numbers and strings
+   */
+  private sampleValue(schema: JsonSchema, user: string): any {
+    if (schema.const !== undefined) return schema.const;
+    if (schema.enum) return schema.enum[0];
+    const option = schema.anyOf?.[0] || schema.oneOf?.[0];
+    if (option) return this.sampleValue(option, user);
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.length > 0 && types.every(candidate => candidate === 'null')) return null;
+    const type = types.find(candidate => candidate !== 'null') || (schema.properties ? 'object' : 'string');
+
+    switch (type) {
+      case 'number':
+      case 'integer': {
+        const value = Number(user.match(/\d+/)?.[0] ?? schema.minimum ?? 1);
+        return Math.min(Math.max(value, schema.minimum ?? value), schema.maximum ?? value);
+      }
+      case 'boolean':
+        return true;
+      case 'array':
+        return Array.from({ length: Math.max(schema.minItems ?? 1, 1) }, () => this.sampleValue(schema.items || {}, user));
+      case 'object': {
+        const value: Record<string, any> = {};
+        for (const [name, property] of Object.entries(schema.properties || {})) {
+          value[name] = this.sampleValue(property, user);
+        }
+        return value;
+      }
+      default:
+        return user.slice(0, schema.maxLength ?? 200).padEnd(schema.minLength ?? 0, '.');
+    }
+  }
+
   private generateMockResponse(system: string, user: string): string {
     // Detect system prompt type
     const systemLower = system.toLowerCase();
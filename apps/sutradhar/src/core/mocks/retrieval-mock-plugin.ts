@@ -11,16 +11,16 @@ import {
   IndexDocument,
 } from '../interfaces/retrieval-plugin.interface';
 import { PluginConfig, PluginMetadata, PluginResult } from '../types';
+import { matchesSearchFilters, isScopedSearch } from '../search-filters';
+import { chunkDocuments, findDataRepository, readDataRepository } from '../ingestion';
 import { log } from '../../log';
-import fs from 'fs';
-import path from 'path';
 
 export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlugin {
   readonly metadata: PluginMetadata = {
     name: 'retrieval-mock',
     version: '1.0.0',
     description: 'Mock retrieval provider with local file search',
-    capabilities: ['search', 'index', 'local-files'],
+    capabilities: ['search', 'index', 'filters', 'local-files'],
   };
 
   readonly config: PluginConfig;
@@ -37,8 +37,8 @@ export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlu
     
     // Auto-index data repository files if available
     try {
-      const dataRepoDir = this.getDataRepositoryDir();
-      if (fs.existsSync(dataRepoDir)) {
+      const dataRepoDir = findDataRepository();
+      if (dataRepoDir) {
         await this.indexLocalFiles(dataRepoDir);
         log.info(`Mock retrieval initialized with ${this.indexedDocuments.length} documents from ${dataRepoDir}`);
       }
@@ -57,6 +57,9 @@ export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlu
     const results: SearchSnippet[] = [];
     
     for (const doc of this.indexedDocuments) {
+      if (!matchesSearchFilters(doc, request)) {
+        continue;
+      }
       const docText = doc.text.toLowerCase();
       
       // Simple keyword matching (can be enhanced with BM25-like scoring)
@@ -74,15 +77,13 @@ export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlu
           source: doc.source,
           text: snippet,
           score,
-          metadata: doc.metadata,
+          metadata: { ...doc.metadata, documentId: doc.id },
         });
-
-        if (results.length >= maxResults) break;
       }
     }
 
-    // Fallback to default snippets if no matches
-    if (results.length === 0) {
+    // Fallback to default snippets if no matches; a scoped search has nothing to fall back to
+    if (results.length === 0 && !isScopedSearch(request)) {
       results.push(
         {
           source: 'FAQ.md',
@@ -130,7 +131,10 @@ export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlu
       this.indexedDocuments = [];
     }
 
+    // Documents are upserted by ID
     const beforeCount = this.indexedDocuments.length;
+    const dropped = new Set([...(request.remove || []), ...request.documents.map(doc => doc.id)]);
+    this.indexedDocuments = this.indexedDocuments.filter(doc => !dropped.has(doc.id));
     this.indexedDocuments.push(...request.documents);
     
     log.info(`MOCK INDEX: Indexed ${request.documents.length} documents`, {
@@ -176,65 +180,8 @@ export class RetrievalMockPlugin extends BaseMockPlugin implements IRetrievalPlu
     return snippet;
   }
 
-  private getDataRepositoryDir(): string {
-    const options = [
-      path.join(process.cwd(), '../data_repository'),
-      path.join(process.cwd(), '../../data_repository'),
-      path.join(process.cwd(), 'data_repository'),
-      path.join(__dirname, '../../../../data_repository'),
-    ];
-
-    for (const dataRepoDir of options) {
-      if (fs.existsSync(dataRepoDir)) {
-        return dataRepoDir;
-      }
-    }
-
-    return path.join(process.cwd(), '../data_repository');
-  }
-
-  private getAllMarkdownFiles(dir: string, fileList: string[] = []): string[] {
-    if (!fs.existsSync(dir)) return fileList;
-    const files = fs.readdirSync(dir);
-    
-    files.forEach(file => {
-      const filePath = path.join(dir, file);
-      if (fs.statSync(filePath).isDirectory()) {
-        this.getAllMarkdownFiles(filePath, fileList);
-      } else if (file.endsWith('.md')) {
-        fileList.push(filePath);
-      }
-    });
-    
-    return fileList;
-  }
-
   private async indexLocalFiles(dataRepoDir: string): Promise<void> {
-    if (!fs.existsSync(dataRepoDir)) return;
-
-    const filePaths = this.getAllMarkdownFiles(dataRepoDir);
-    const documents: IndexDocument[] = [];
-
-    for (const filePath of filePaths) {
-      const relativePath = path.relative(dataRepoDir, filePath);
-      try {
-        const content = fs.readFileSync(filePath, 'utf8');
-        // Split into chunks
-        const chunks = content.split(/\n(?=##? )/g).filter(Boolean);
-        
-        chunks.forEach((chunk, i) => {
-          documents.push({
-            id: `${relativePath}-${i}`,
-            text: chunk.trim(),
-            source: relativePath,
-            metadata: { file: relativePath, chunkIndex: i },
-          });
-        });
-      } catch (error) {
-        log.warn(`Failed to index ${relativePath}`, error);
-      }
-    }
-
+    const { documents } = chunkDocuments(await readDataRepository(dataRepoDir));
     if (documents.length > 0) {
       this.indexedDocuments.push(...documents);
     }
@@ -3,6 +3,7 @@
  */
 
 import { IPlugin, PluginConfig } from './types';
+import { IRetrievalPlugin } from './interfaces/retrieval-plugin.interface';
 import { pluginRegistry } from './plugin-registry';
 import { env } from '../env';
 
@@ -12,6 +13,8 @@ import { LLMMockPlugin } from './mocks/llm-mock-plugin';
 import { RetrievalMockPlugin } from './mocks/retrieval-mock-plugin';
 import { DataMockPlugin } from './mocks/data-mock-plugin';
 import { ConvexPlugin } from './plugins/convex-plugin';
+import { OpenAICompatibleLLMPlugin, OpenAICompatibleProvider } from './plugins/openai-compatible-llm-plugin';
+import { LocalRetrievalPlugin } from './plugins/local-retrieval-plugin';
 
 import { log } from '../log';
 
@@ -39,6 +42,37 @@ function shouldUseMock(pluginName: string, config: PluginConfig): boolean {
   }
 }
 
+/**
+ * OpenAI-compatible LLM endpoints that have credentials (or, for local servers, a base URL)
+ */
+function llmProviders(): OpenAICompatibleProvider[] {
+  const providers: OpenAICompatibleProvider[] = [];
+
+  if (env.OPENAI_API_KEY) {
+    providers.push({
+      name: 'openai',
+      baseUrl: env.OPENAI_BASE_URL,
+      apiKey: env.OPENAI_API_KEY,
+      model: env.LLM_OPENAI_MODEL,
+      embeddingModel: env.LLM_OPENAI_EMBEDDING_MODEL,
+    });
+  }
+  if (env.PERPLEXITY_API_KEY) {
+    providers.push({ name: 'perplexity', baseUrl: env.PERPLEXITY_BASE_URL, apiKey: env.PERPLEXITY_API_KEY, model: env.LLM_PERPLEXITY_MODEL });
+  }
+  if (env.LLM_LOCAL_BASE_URL) {
+    providers.push({
+      name: 'local',
+      baseUrl: env.LLM_LOCAL_BASE_URL,
+      apiKey: env.LLM_LOCAL_API_KEY,
+      model: env.LLM_LOCAL_MODEL,
+      embeddingModel: env.LLM_LOCAL_EMBEDDING_MODEL || env.LLM_LOCAL_MODEL,
+    });
+  }
+
+  return providers;
+}
+
 /**
  * Create plugin instance
  */
@@ -52,11 +86,26 @@ function createPlugin(pluginName: string, config: PluginConfig): IPlugin {
     case 'action':
       return new ActionMockPlugin({ ...config, mock: useMock });
 
-    case 'llm':
-      return new LLMMockPlugin({ ...config, mock: useMock, defaultProvider: env.LLM_DEFAULT_PROVIDER });
+    case 'llm': {
+      const providers = useMock ? [] : llmProviders();
+      if (!useMock && providers.length === 0) {
+        log.warn('MOCK_LLM is false but no LLM provider is configured; using the mock LLM');
+      }
+      return providers.length > 0
+        ? new OpenAICompatibleLLMPlugin({
+            ...config,
+            mock: false,
+            providers,
+            defaultProvider: env.LLM_DEFAULT_PROVIDER,
+            timeoutMs: env.LLM_TIMEOUT_MS,
+            temperature: env.LLM_TEMPERATURE,
+            maxTokens: env.LLM_MAX_TOKENS,
+          })
+        : new LLMMockPlugin({ ...config, mock: true, defaultProvider: env.LLM_DEFAULT_PROVIDER });
+    }
 
     case 'retrieval':
-      return new RetrievalMockPlugin({ ...config, mock: useMock });
+      return createRetrievalPlugin(useMock ? 'mock' : 'local', config);
 
     case 'data':
       return useMock
@@ -68,6 +117,23 @@ function createPlugin(pluginName: string, config: PluginConfig): IPlugin {
   }
 }
 
+export const RETRIEVAL_BACKENDS = ['mock', 'local'];
+
+/**
+ * Retrieval plugin for a backend name, unregistered and uninitialized
+ * Used for the `retrieval` slot and for evaluating backends side by side (see services/retrieval-eval-service)
+ */
+export function createRetrievalPlugin(backend: string, config: PluginConfig): IRetrievalPlugin {
+  switch (backend) {
+    case 'mock':
+      return new RetrievalMockPlugin({ ...config, mock: true });
+    case 'local':
+      return new LocalRetrievalPlugin({ ...config, mock: false });
+    default:
+      throw new Error(`Unknown retrieval backend: ${backend} (available: ${RETRIEVAL_BACKENDS.join(', ')})`);
+  }
+}
+
 /**
  * Initialize all plugins
  */
@@ -0,0 +1,327 @@
+/**
+ * Local Retrieval Plugin - Hybrid BM25 + embedding search that runs in-process
+ * Documents are kept with their embedding vectors in RETRIEVAL_INDEX_PATH; the BM25 inverted index is rebuilt on load
+ * Scores fuse normalized BM25 with cosine similarity, weighted by RETRIEVAL_HYBRID_ALPHA
+ * An empty index is seeded from data_repository lessons (see core/ingestion), tagged with courseSlug/lessonId for filtering
+ * Config `indexPath`, `hybridAlpha` and `chunker` override the env settings, e.g. to evaluate a variant next to the live index
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BaseMockPlugin } from '../mocks/base-mock-plugin';
+import {
+  IRetrievalPlugin,
+  IndexDocument,
+  IndexRequest,
+  SearchRequest,
+  SearchSnippet,
+} from '../interfaces/retrieval-plugin.interface';
+import { HealthStatus, PluginConfig, PluginMetadata, PluginResult } from '../types';
+import { cosineSimilarity } from '../hashed-embedding';
+import { tokenize } from '../lexical';
+import { matchesSearchFilters } from '../search-filters';
+import { embeddingService } from '../services/embedding-service';
+import { chunkDocuments, findDataRepository, readDataRepository } from '../ingestion';
+import { env } from '../../env';
+import { log } from '../../log';
+
+const INDEX_VERSION = 1;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Fused scores below this are noise (e.g. a stray shared trigram)
+const MIN_SCORE = 0.05;
+const MAX_SNIPPET_LENGTH = 1500;
+
+interface StoredDocument extends IndexDocument {
+  vector?: number[];
+}
+
+interface PersistedIndex {
+  version: number;
+  embeddingModel?: string;
+  documents: StoredDocument[];
+}
+
+export class LocalRetrievalPlugin extends BaseMockPlugin implements IRetrievalPlugin {
+  readonly metadata: PluginMetadata = {
+    name: 'retrieval-local',
+    version: '1.0.0',
+    description: 'Local hybrid BM25 + embedding retrieval',
+    capabilities: ['search', 'index', 'filters', 'hybrid'],
+  };
+
+  readonly config: PluginConfig;
+  private documents = new Map<string, StoredDocument>();
+  private embeddingModel?: string;
+  // term -> document ID -> term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+  // Index updates and saves run one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: PluginConfig) {
+    super();
+    this.config = config;
+  }
+
+  async initialize(config: PluginConfig): Promise<void> {
+    this.initialized = true;
+    // `persist: false` keeps the index in memory only (evaluation runs); nothing is read from or written to indexPath
+    if (this.config.persist !== false) {
+      await this.load();
+    }
+
+    if (this.documents.size === 0 && (this.config.autoIndex ?? env.RETRIEVAL_AUTO_INDEX === 'true')) {
+      const dataDir = findDataRepository();
+      if (dataDir) {
+        const { documents } = chunkDocuments(await readDataRepository(dataDir), { chunker: this.config.chunker });
+        await this.index({ documents });
+        log.info('Local retrieval seeded from data repository', { dir: dataDir, documents: documents.length });
+      }
+    }
+
+    log.info('Local retrieval initialized', {
+      documents: this.documents.size,
+      terms: this.postings.size,
+      embeddingModel: this.embeddingModel,
+      path: this.config.persist === false ? undefined : this.indexPath(),
+    });
+  }
+
+  async healthCheck(): Promise<HealthStatus> {
+    return {
+      healthy: true,
+      status: 'healthy',
+      message: `${this.documents.size} documents indexed`,
+      details: { embeddingModel: this.embeddingModel },
+    };
+  }
+
+  async search(request: SearchRequest): Promise<PluginResult<SearchSnippet[]>> {
+    const maxResults = request.maxResults || 5;
+    const candidates = [...this.documents.values()].filter(doc => matchesSearchFilters(doc, request));
+    if (candidates.length === 0) {
+      return { ok: true, mocked: false, data: [], metadata: { totalIndexed: this.documents.size, candidates: 0 } };
+    }
+
+    const lexical = this.bm25(tokenize(request.query), candidates);
+    const maxLexical = Math.max(0, ...lexical.values());
+
+    // Without a comparable query vector the ranking is BM25 alone
+    const queryVector = await this.embedQuery(request.query);
+    const alpha = queryVector ? this.config.hybridAlpha ?? env.RETRIEVAL_HYBRID_ALPHA : 0;
+
+    const scored = candidates
+      .map(doc => {
+        const lexicalScore = maxLexical > 0 ? (lexical.get(doc.id) || 0) / maxLexical : 0;
+        const vectorScore = queryVector && doc.vector ? Math.max(0, cosineSimilarity(queryVector, doc.vector)) : 0;
+        return { doc, lexicalScore, vectorScore, score: alpha * vectorScore + (1 - alpha) * lexicalScore };
+      })
+      .filter(result => result.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+
+    return {
+      ok: true,
+      mocked: false,
+      data: scored.map(({ doc, lexicalScore, vectorScore, score }) => ({
+        source: doc.source,
+        text: doc.text.length > MAX_SNIPPET_LENGTH ? `${doc.text.slice(0, MAX_SNIPPET_LENGTH)}...` : doc.text,
+        url: doc.metadata?.url,
+        score: Number(score.toFixed(4)),
+        metadata: {
+          ...doc.metadata,
+          documentId: doc.id,
+          scores: { bm25: Number(lexicalScore.toFixed(4)), vector: Number(vectorScore.toFixed(4)) },
+        },
+      })),
+      metadata: { totalIndexed: this.documents.size, candidates: candidates.length, alpha },
+    };
+  }
+
+  /**
+   * Add or update documents by ID; `replace` drops everything else first, `remove` just the listed IDs
+   */
+  async index(request: IndexRequest): Promise<PluginResult<{ indexed: number; total: number }>> {
+    return this.enqueue(async () => {
+      if (request.replace) {
+        this.documents.clear();
+      }
+      for (const id of request.remove || []) {
+        this.documents.delete(id);
+      }
+
+      const embedded = await this.embedDocuments(request.documents);
+      for (const document of request.documents) {
+        this.documents.set(document.id, { ...document, vector: embedded.get(document.id) });
+      }
+      this.rebuildLexicalIndex();
+      await this.save();
+
+      log.info('Local retrieval indexed documents', {
+        indexed: request.documents.length,
+        removed: request.remove?.length,
+        total: this.documents.size,
+        embedded: embedded.size,
+      });
+      return { ok: true, mocked: false, data: { indexed: request.documents.length, total: this.documents.size } };
+    });
+  }
+
+  async getStatus(): Promise<PluginResult<{ indexed: boolean; docCount: number; engine: string }>> {
+    const vectors = [...this.documents.values()].filter(doc => doc.vector).length;
+    return {
+      ok: true,
+      mocked: false,
+      data: { indexed: this.documents.size > 0, docCount: this.documents.size, engine: 'local-hybrid' },
+      metadata: { embeddingModel: this.embeddingModel, vectors, terms: this.postings.size, path: this.indexPath() },
+    };
+  }
+
+  private bm25(terms: string[], candidates: StoredDocument[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const total = this.documents.size;
+    const averageLength = total > 0 ? this.totalLength / total : 0;
+    const allowed = new Set(candidates.map(doc => doc.id));
+
+    for (const term of new Set(terms)) {
+      const postings = this.postings.get(term);
+      if (!postings) continue;
+      const idf = Math.log(1 + (total - postings.size + 0.5) / (postings.size + 0.5));
+      for (const [id, frequency] of postings) {
+        if (!allowed.has(id)) continue;
+        const length = this.lengths.get(id) || 0;
+        const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / (averageLength || 1)));
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+    return scores;
+  }
+
+  private rebuildLexicalIndex(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.totalLength = 0;
+    for (const doc of this.documents.values()) {
+      const tokens = tokenize(doc.text);
+      this.lengths.set(doc.id, tokens.length);
+      this.totalLength += tokens.length;
+      for (const token of tokens) {
+        let postings = this.postings.get(token);
+        if (!postings) {
+          postings = new Map();
+          this.postings.set(token, postings);
+        }
+        postings.set(doc.id, (postings.get(doc.id) || 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Vectors for new documents; when the embedding model changed, everything already indexed is re-embedded too
+   * Documents that fail to embed are still searchable by BM25
+   */
+  private async embedDocuments(documents: IndexDocument[]): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    if (documents.length === 0) {
+      return vectors;
+    }
+
+    const result = await embeddingService.embed({ texts: documents.map(doc => doc.text) }, { agent: 'retrieval-agent' });
+    if (!result.ok || !result.data) {
+      log.warn('Local retrieval could not embed documents, indexing them for BM25 only', { error: result.error });
+      return vectors;
+    }
+
+    documents.forEach((doc, i) => vectors.set(doc.id, result.data!.vectors[i]));
+    if (this.embeddingModel && this.embeddingModel !== result.data.model) {
+      await this.reembed(result.data.model);
+    }
+    this.embeddingModel = result.data.model;
+    return vectors;
+  }
+
+  private async reembed(model: string): Promise<void> {
+    const existing = [...this.documents.values()];
+    log.warn('Embedding model changed, re-embedding local retrieval index', { from: this.embeddingModel, to: model, documents: existing.length });
+    const result = await embeddingService.embed({ texts: existing.map(doc => doc.text) }, { agent: 'retrieval-agent' });
+    existing.forEach((doc, i) => {
+      doc.vector = result.ok && result.data?.model === model ? result.data.vectors[i] : undefined;
+    });
+  }
+
+  private async embedQuery(query: string): Promise<number[] | null> {
+    if (!this.embeddingModel) {
+      return null;
+    }
+    const result = await embeddingService.embed({ texts: [query] }, { agent: 'retrieval-agent' });
+    if (!result.ok || !result.data || result.data.model !== this.embeddingModel) {
+      return null;
+    }
+    return result.data.vectors[0];
+  }
+
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work, work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private indexPath(): string {
+    return path.resolve(this.config.indexPath || env.RETRIEVAL_INDEX_PATH);
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.indexPath(), 'utf-8')) as PersistedIndex;
+      if (data.version !== INDEX_VERSION || !Array.isArray(data.documents)) {
+        log.warn('Ignoring local retrieval index with an unknown format', { path: this.indexPath(), version: data.version });
+        return;
+      }
+      this.documents = new Map(data.documents.map(doc => [doc.id, doc]));
+      this.embeddingModel = data.embeddingModel;
+      this.rebuildLexicalIndex();
+
+      // Pick up an embedding provider change made since the index was written
+      const probe = await embeddingService.embed({ texts: ['probe'] });
+      if (probe.ok && probe.data && probe.data.model !== this.embeddingModel && this.documents.size > 0) {
+        await this.reembed(probe.data.model);
+        this.embeddingModel = probe.data.model;
+        await this.save();
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log.error('Failed to load local retrieval index', { path: this.indexPath(), error: error.message });
+      }
+    }
+  }
+
+  /**
+   * Write to a temp file and rename, so a crash mid-write never leaves a truncated index
+   */
+  private async save(): Promise<void> {
+    if (this.config.persist === false) {
+      return;
+    }
+    const file = this.indexPath();
+    const data: PersistedIndex = {
+      version: INDEX_VERSION,
+      embeddingModel: this.embeddingModel,
+      documents: [...this.documents.values()].map(doc => ({
+        ...doc,
+        vector: doc.vector?.map(value => Number(value.toFixed(6))),
+      })),
+    };
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(data));
+      await fs.rename(`${file}.tmp`, file);
+    } catch (error: any) {
+      log.error('Failed to save local retrieval index', { path: file, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * LLM Plugin - Any provider speaking the OpenAI `/chat/completions` (and `/embeddings`) protocol
+ * Covers OpenAI, Perplexity and local servers (llama.cpp, vLLM, Ollama) by base URL
+ */
+
+import { BaseMockPlugin } from '../mocks/base-mock-plugin';
+import {
+  EmbedRequest,
+  EmbedResponse,
+  ILLMPlugin,
+  LLMMessage,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMToolCall,
+  requestMessages,
+} from '../interfaces/llm-plugin.interface';
+import { HealthStatus, PluginConfig, PluginMetadata, PluginResult } from '../types';
+import { log } from '../../log';
+
+export interface OpenAICompatibleProvider {
+  name: LLMProvider;
+  baseUrl: string;       // Including the version prefix, e.g. https://api.openai.com/v1
+  apiKey?: string;       // Local servers usually need none
+  model: string;         // Default model for this provider
+  embeddingModel?: string; // Model for embed(); providers without one can't embed
+  timeoutMs?: number;
+}
+
+export type LLMErrorType =
+  | 'auth'
+  | 'rate_limit'
+  | 'invalid_request'
+  | 'not_found'
+  | 'provider_error'
+  | 'timeout'
+  | 'network'
+  | 'invalid_response';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Error from a provider call, mapped to a type callers can act on
+ */
+class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly type: LLMErrorType,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+
+  get retryable(): boolean {
+    return ['rate_limit', 'provider_error', 'timeout', 'network'].includes(this.type);
+  }
+}
+
+export class OpenAICompatibleLLMPlugin extends BaseMockPlugin implements ILLMPlugin {
+  readonly metadata: PluginMetadata;
+  readonly config: PluginConfig;
+  private providers: Map<string, OpenAICompatibleProvider>;
+
+  /**
+   * config: { providers: OpenAICompatibleProvider[], defaultProvider?, timeoutMs?, temperature?, maxTokens? }
+   */
+  constructor(config: PluginConfig) {
+    super();
+    this.config = config;
+    this.providers = new Map((config.providers as OpenAICompatibleProvider[] || []).map(provider => [provider.name, provider]));
+    this.metadata = {
+      name: 'llm-openai-compatible',
+      version: '1.0.0',
+      description: 'OpenAI-compatible chat completions provider',
+      capabilities: Array.from(this.providers.keys()),
+    };
+  }
+
+  async initialize(config: PluginConfig): Promise<void> {
+    this.initialized = true;
+    log.info('LLM plugin initialized', {
+      providers: Array.from(this.providers.values()).map(provider => ({
+        name: provider.name,
+        baseUrl: provider.baseUrl,
+        model: provider.model,
+      })),
+      defaultProvider: this.getDefaultProvider(),
+    });
+  }
+
+  /**
+   * Lists models on the default provider; most compatible servers implement GET /models
+   */
+  async healthCheck(): Promise<HealthStatus> {
+    const provider = this.providers.get(this.getDefaultProvider());
+    if (!provider) {
+      return { healthy: false, status: 'down', message: 'No LLM provider configured' };
+    }
+
+    const startTime = Date.now();
+    const timeout = this.startTimeout(Math.min(this.timeoutFor(provider), 5000));
+    try {
+      await this.request(provider, '/models', { method: 'GET' }, timeout.signal);
+      return { healthy: true, status: 'healthy', latency: Date.now() - startTime, details: { provider: provider.name } };
+    } catch (error: any) {
+      return {
+        healthy: false,
+        status: error.type === 'not_found' ? 'unknown' : 'down',
+        message: error.message,
+        latency: Date.now() - startTime,
+        details: { provider: provider.name },
+      };
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  listProviders(): LLMProvider[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getDefaultProvider(): LLMProvider {
+    const configured = this.config.defaultProvider;
+    if (configured && this.providers.has(configured)) {
+      return configured;
+    }
+    return this.listProviders()[0] || 'openai';
+  }
+
+  async chat(request: LLMRequest): Promise<PluginResult<LLMResponse>> {
+    const provider = this.resolveProvider(request);
+    if (!provider) {
+      return this.failure(request, new LLMProviderError(`LLM provider not configured: ${request.provider || this.getDefaultProvider()}`, 'invalid_request'));
+    }
+
+    const model = request.model || provider.model;
+    const startTime = Date.now();
+    const timeout = this.startTimeout(this.timeoutFor(provider, request));
+    try {
+      const response = await this.request(provider, '/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify(this.buildBody(request, model, false)),
+      }, timeout.signal);
+
+      const data = await response.json() as any;
+      const message = data?.choices?.[0]?.message;
+      const toolCalls = this.parseToolCalls(message?.tool_calls);
+      // Tool-calling turns usually come back with null content
+      if (typeof message?.content !== 'string' && !toolCalls) {
+        throw new LLMProviderError('Provider returned no completion text', 'invalid_response', response.status);
+      }
+
+      return {
+        ok: true,
+        mocked: false,
+        data: {
+          text: message.content ?? '',
+          citations: Array.isArray(data.citations) ? data.citations : undefined,
+          toolCalls,
+          finishReason: data.choices[0].finish_reason,
+          raw: data,
+        },
+        metadata: {
+          provider: provider.name,
+          model: data.model || model,
+          finishReason: data.choices[0].finish_reason,
+          usage: this.mapUsage(data.usage),
+          latencyMs: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      return this.failure(request, error, provider, model, this.timeoutFor(provider, request));
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  /**
+   * Stream a completion (`stream: true`, server-sent `data:` chunks ending with `[DONE]`)
+   */
+  async *chatStream(request: LLMRequest): AsyncGenerator<string, PluginResult<LLMResponse>> {
+    const provider = this.resolveProvider(request);
+    if (!provider) {
+      return this.failure(request, new LLMProviderError(`LLM provider not configured: ${request.provider || this.getDefaultProvider()}`, 'invalid_request'));
+    }
+
+    const model = request.model || provider.model;
+    const startTime = Date.now();
+    let text = '';
+    let finishReason: string | undefined;
+    let usage: any;
+    let citations: string[] | undefined;
+    let responseModel: string | undefined;
+    // Tool call fragments arrive spread over chunks, keyed by index
+    const toolCallParts: Array<{ id?: string; name?: string; arguments: string }> = [];
+
+    // The timeout covers the whole stream, not just the first byte
+    const timeout = this.startTimeout(this.timeoutFor(provider, request));
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    try {
+      const response = await this.request(provider, '/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify(this.buildBody(request, model, true)),
+      }, timeout.signal);
+
+      if (!response.body) {
+        throw new LLMProviderError('Provider returned an empty stream', 'invalid_response', response.status);
+      }
+
+      reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+
+      while (!done) {
+        const chunk = await reader.read();
+        if (chunk.done) break;
+        buffer += decoder.decode(chunk.value, { stream: true });
+
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') {
+            done = true;
+            break;
+          }
+
+          let event: any;
+          try {
+            event = JSON.parse(payload);
+          } catch {
+            continue;
+          }
+
+          const delta = event?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) {
+            text += delta;
+            yield delta;
+          }
+          for (const part of event?.choices?.[0]?.delta?.tool_calls || []) {
+            const entry = toolCallParts[part.index ?? 0] ??= { arguments: '' };
+            entry.id = part.id || entry.id;
+            entry.name = part.function?.name || entry.name;
+            entry.arguments += part.function?.arguments || '';
+          }
+          finishReason = event?.choices?.[0]?.finish_reason || finishReason;
+          usage = event?.usage || usage;
+          citations = Array.isArray(event?.citations) ? event.citations : citations;
+          responseModel = event?.model || responseModel;
+        }
+      }
+
+      const toolCalls = this.parseToolCalls(toolCallParts.filter(Boolean).map(part => ({
+        id: part.id,
+        function: { name: part.name, arguments: part.arguments },
+      })));
+
+      return {
+        ok: true,
+        mocked: false,
+        data: { text, citations, toolCalls, finishReason },
+        metadata: {
+          provider: provider.name,
+          model: responseModel || model,
+          finishReason,
+          usage: this.mapUsage(usage),
+          latencyMs: Date.now() - startTime,
+          streamed: true,
+        },
+      };
+    } catch (error) {
+      return this.failure(request, error, provider, model, this.timeoutFor(provider, request));
+    } finally {
+      timeout.clear();
+      // Also reached when the consumer stops reading (e.g. the client disconnected): hang up so the provider
+      // stops generating billed tokens; after a complete stream this is a no-op
+      reader?.cancel().catch(() => {});
+      timeout.abort();
+    }
+  }
+
+  /**
+   * Embed texts with the provider's `/embeddings` endpoint
+   */
+  async embed(request: EmbedRequest): Promise<PluginResult<EmbedResponse>> {
+    const provider = this.resolveProvider(request);
+    if (!provider) {
+      return this.failure(request, new LLMProviderError(`LLM provider not configured: ${request.provider || this.getDefaultProvider()}`, 'invalid_request'));
+    }
+    const model = request.model || provider.embeddingModel;
+    if (!model) {
+      return this.failure(request, new LLMProviderError(`${provider.name} has no embedding model configured`, 'invalid_request'), provider);
+    }
+
+    const startTime = Date.now();
+    const timeout = this.startTimeout(this.timeoutFor(provider, request));
+    try {
+      const response = await this.request(provider, '/embeddings', {
+        method: 'POST',
+        body: JSON.stringify({
+          model,
+          input: request.texts,
+          ...(request.dimensions !== undefined && { dimensions: request.dimensions }),
+        }),
+      }, timeout.signal);
+
+      const data = await response.json() as any;
+      const items = Array.isArray(data?.data) ? [...data.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)) : [];
+      const vectors: number[][] = items.map(item => item?.embedding);
+      if (vectors.length !== request.texts.length || vectors.some(vector => !Array.isArray(vector))) {
+        throw new LLMProviderError(`Provider returned ${vectors.length} embedding(s) for ${request.texts.length} text(s)`, 'invalid_response', response.status);
+      }
+
+      return {
+        ok: true,
+        mocked: false,
+        data: { vectors, model: data.model || model, dimensions: vectors[0]?.length ?? 0 },
+        metadata: {
+          provider: provider.name,
+          model: data.model || model,
+          usage: this.mapUsage(data.usage),
+          latencyMs: Date.now() - startTime,
+        },
+      };
+    } catch (error) {
+      return this.failure(request, error, provider, model, this.timeoutFor(provider, request));
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private resolveProvider(request: { provider?: LLMProvider }): OpenAICompatibleProvider | undefined {
+    return this.providers.get(request.provider || this.getDefaultProvider());
+  }
+
+  private timeoutFor(provider: OpenAICompatibleProvider, request?: { timeoutMs?: number }): number {
+    return request?.timeoutMs ?? provider.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  private buildBody(request: LLMRequest, model: string, stream: boolean): Record<string, any> {
+    const temperature = request.temperature ?? this.config.temperature;
+    const maxTokens = request.maxTokens ?? this.config.maxTokens;
+
+    const toolChoice = request.toolChoice;
+
+    return {
+      model,
+      messages: requestMessages(request).map(message => this.toWireMessage(message)),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      ...(toolChoice && {
+        tool_choice: typeof toolChoice === 'string'
+          ? toolChoice
+          : { type: 'function', function: { name: toolChoice.name } },
+      }),
+      ...(request.responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: request.responseSchema, strict: false },
+        },
+      }),
+      ...(temperature !== undefined && { temperature }),
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      ...(stream && { stream: true }),
+    };
+  }
+
+  private toWireMessage(message: LLMMessage): Record<string, any> {
+    return {
+      role: message.role,
+      content: message.content,
+      ...(message.name && { name: message.name }),
+      ...(message.toolCallId && { tool_call_id: message.toolCallId }),
+      ...(message.toolCalls?.length && {
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      }),
+    };
+  }
+
+  /**
+   * Wire tool calls to LLMToolCall; arguments the model garbled are kept under `_raw`
+   */
+  private parseToolCalls(calls: any): LLMToolCall[] | undefined {
+    if (!Array.isArray(calls) || calls.length === 0) {
+      return undefined;
+    }
+
+    return calls.map((call, index) => {
+      const rawArguments = call?.function?.arguments;
+      let args: Record<string, any>;
+      try {
+        args = typeof rawArguments === 'string' ? JSON.parse(rawArguments || '{}') : rawArguments || {};
+      } catch {
+        args = { _raw: rawArguments };
+      }
+      return {
+        id: call?.id || `call_${index}`,
+        name: call?.function?.name || '',
+        arguments: args,
+      };
+    });
+  }
+
+  private mapUsage(usage: any): { promptTokens?: number; completionTokens?: number; totalTokens?: number } | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+    };
+  }
+
+  private startTimeout(timeoutMs: number): { signal: AbortSignal; clear: () => void; abort: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    return { signal: controller.signal, clear: () => clearTimeout(timeoutId), abort: () => controller.abort() };
+  }
+
+  /**
+   * Call the provider; non-2xx responses are thrown as LLMProviderError
+   */
+  private async request(
+    provider: OpenAICompatibleProvider,
+    path: string,
+    init: { method: string; body?: string },
+    signal: AbortSignal
+  ): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${provider.baseUrl.replace(/\/+$/, '')}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(provider.apiKey && { Authorization: `Bearer ${provider.apiKey}` }),
+        },
+        signal,
+      });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      throw new LLMProviderError(`${provider.name} unreachable: ${error.cause?.message || error.message}`, 'network');
+    }
+
+    if (!response.ok) {
+      throw await this.mapHttpError(provider, response);
+    }
+    return response;
+  }
+
+  private async mapHttpError(provider: OpenAICompatibleProvider, response: Response): Promise<LLMProviderError> {
+    const body = await response.json().catch(() => null) as any;
+    const detail = body?.error?.message || body?.message || (typeof body?.error === 'string' ? body.error : undefined);
+    const suffix = detail ? `: ${detail}` : '';
+
+    switch (response.status) {
+      case 401:
+      case 403:
+        return new LLMProviderError(`${provider.name} rejected the credentials${suffix}`, 'auth', response.status);
+      case 404:
+        return new LLMProviderError(`${provider.name} endpoint or model not found${suffix}`, 'not_found', response.status);
+      case 429: {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        return new LLMProviderError(
+          `${provider.name} rate limit exceeded${suffix}`,
+          'rate_limit',
+          response.status,
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+        );
+      }
+      default:
+        return response.status >= 500
+          ? new LLMProviderError(`${provider.name} error ${response.status}${suffix}`, 'provider_error', response.status)
+          : new LLMProviderError(`${provider.name} rejected the request (${response.status})${suffix}`, 'invalid_request', response.status);
+    }
+  }
+
+  private failure<T = LLMResponse>(
+    request: { provider?: LLMProvider },
+    error: unknown,
+    provider?: OpenAICompatibleProvider,
+    model?: string,
+    timeoutMs?: number
+  ): PluginResult<T> {
+    let mapped: LLMProviderError;
+    if (error instanceof LLMProviderError) {
+      mapped = error;
+    } else if (error instanceof Error && error.name === 'AbortError') {
+      mapped = new LLMProviderError(`${provider?.name ?? 'LLM provider'} timed out after ${timeoutMs}ms`, 'timeout');
+    } else {
+      mapped = new LLMProviderError(error instanceof Error ? error.message : String(error), 'invalid_response');
+    }
+
+    log.warn('LLM request failed', {
+      provider: provider?.name ?? request.provider,
+      model,
+      errorType: mapped.type,
+      status: mapped.status,
+      error: mapped.message,
+    });
+
+    return {
+      ok: false,
+      mocked: false,
+      error: mapped.message,
+      metadata: {
+        provider: provider?.name ?? request.provider,
+        model,
+        errorType: mapped.type,
+        status: mapped.status,
+        retryable: mapped.retryable,
+        retryAfterMs: mapped.retryAfterMs,
+      },
+    };
+  }
+}
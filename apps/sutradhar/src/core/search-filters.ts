@@ -0,0 +1,30 @@
+/**
+ * Search filters - Shared `sources`/`filters` matching for retrieval plugins
+ */
+
+import { IndexDocument, SearchRequest } from './interfaces/retrieval-plugin.interface';
+
+/**
+ * `sources` match a document's source exactly or as a directory prefix; each filter must equal
+ * the document's metadata value (or be one of the values, for array filters)
+ */
+export function matchesSearchFilters(
+  doc: Pick<IndexDocument, 'source' | 'metadata'>,
+  request: Pick<SearchRequest, 'sources' | 'filters'>
+): boolean {
+  if (request.sources?.length && !request.sources.some(source => doc.source === source || doc.source.startsWith(`${source.replace(/\/+$/, '')}/`))) {
+    return false;
+  }
+  return Object.entries(request.filters || {}).every(([key, expected]) => {
+    if (expected === undefined || expected === null) return true;
+    const actual = doc.metadata?.[key];
+    return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+  });
+}
+
+/**
+ * Whether the request narrows the search at all
+ */
+export function isScopedSearch(request: Pick<SearchRequest, 'sources' | 'filters'>): boolean {
+  return Boolean(request.sources?.length) || Object.values(request.filters || {}).some(value => value !== undefined && value !== null);
+}
@@ -0,0 +1,103 @@
+/**
+ * Embedding Service - Text vectors for semantic search, caching and duplicate detection
+ * LLM_EMBEDDING_PROVIDER picks the model: "hashed" runs locally and works offline, any other value is
+ * an LLM provider whose `/embeddings` endpoint is used
+ * Vectors from different models can't be compared, so results always say which model produced them
+ */
+
+import { pluginRegistry } from '../plugin-registry';
+import { EmbedRequest, EmbedResponse, ILLMPlugin } from '../interfaces/llm-plugin.interface';
+import { HASHED_EMBEDDING_PROVIDER, hashedEmbedding, hashedEmbeddingModel } from '../hashed-embedding';
+import { PluginResult } from '../types';
+import { LLMCallUsage, UsageTags, usageService } from './usage-service';
+import { env } from '../../env';
+import { log } from '../../log';
+
+// Inputs per provider call; OpenAI accepts up to 2048 but large batches are slow to retry
+const MAX_BATCH = 256;
+
+export interface EmbeddingResult {
+  ok: boolean;
+  mocked?: boolean;
+  data?: EmbedResponse;
+  error?: string;
+  provider?: string;
+  usage?: LLMCallUsage;
+}
+
+export class EmbeddingService {
+  private async getPlugin(): Promise<ILLMPlugin> {
+    return await pluginRegistry.get<ILLMPlugin>('llm');
+  }
+
+  async embed(request: EmbedRequest, tags?: UsageTags): Promise<EmbeddingResult> {
+    const provider = request.provider || env.LLM_EMBEDDING_PROVIDER;
+    if (provider === HASHED_EMBEDDING_PROVIDER) {
+      const dimensions = request.dimensions || env.LLM_EMBEDDING_DIMENSIONS;
+      return {
+        ok: true,
+        mocked: false,
+        data: {
+          vectors: request.texts.map(text => hashedEmbedding(text, dimensions)),
+          model: hashedEmbeddingModel(dimensions),
+          dimensions,
+        },
+        provider,
+      };
+    }
+
+    if (request.texts.length === 0) {
+      return { ok: true, data: { vectors: [], model: request.model || '', dimensions: 0 }, provider };
+    }
+
+    try {
+      const plugin = await this.getPlugin();
+      if (!plugin.embed) {
+        return { ok: false, error: 'The configured LLM plugin does not support embeddings', provider };
+      }
+
+      const vectors: number[][] = [];
+      let last: PluginResult<EmbedResponse> | undefined;
+      let promptTokens = 0;
+      for (let start = 0; start < request.texts.length; start += MAX_BATCH) {
+        last = await plugin.embed({ ...request, provider, texts: request.texts.slice(start, start + MAX_BATCH) });
+        if (!last.ok || !last.data) {
+          return { ok: false, mocked: last.mocked, error: last.error || 'Embedding failed', provider };
+        }
+        vectors.push(...last.data.vectors);
+        promptTokens += last.metadata?.usage?.promptTokens ?? 0;
+      }
+
+      const data: EmbedResponse = { vectors, model: last!.data!.model, dimensions: last!.data!.dimensions };
+      const usage = last!.mocked ? undefined : this.recordUsage(provider, data.model, request.texts, promptTokens, tags);
+      log.info('Embeddings generated', {
+        provider,
+        model: data.model,
+        texts: request.texts.length,
+        dimensions: data.dimensions,
+        promptTokens: usage?.promptTokens,
+        mocked: last!.mocked,
+      });
+
+      return { ok: true, mocked: last!.mocked, data, provider, usage };
+    } catch (error) {
+      log.error('Embedding service error', error);
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        provider,
+      };
+    }
+  }
+
+  private recordUsage(provider: string, model: string, texts: string[], promptTokens: number, tags?: UsageTags): LLMCallUsage {
+    return usageService.record(
+      { provider, model, usage: promptTokens > 0 ? { promptTokens, completionTokens: 0 } : undefined },
+      { user: texts.join('\n') },
+      { text: '' },
+      tags
+    );
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,197 @@
+/**
+ * Ingestion Service - Chunks source documents and feeds the retrieval plugin incrementally
+ * A manifest records each source's content hash and chunk hashes; unchanged sources are skipped, changed ones
+ * only send chunks whose text changed and remove chunks that no longer exist; a sync also removes sources
+ * that are no longer listed
+ * The manifest is persisted (RETRIEVAL_MANIFEST_PATH) only with the local plugin, since the mock forgets its
+ * documents on restart
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { chunkDocuments, dedupKey, resolveChunker, IngestionOptions, IngestionReport, SourceDocument } from '../ingestion';
+import { IndexDocument } from '../interfaces/retrieval-plugin.interface';
+import { retrievalService } from './retrieval-service';
+import { env } from '../../env';
+import { log } from '../../log';
+
+const MANIFEST_VERSION = 1;
+
+interface ManifestEntry {
+  // Hash of the text, metadata and chunking settings
+  hash: string;
+  metadataHash: string;
+  courseSlug?: string;
+  // chunk ID -> content hash
+  chunks: Record<string, string>;
+}
+
+export class IngestionService {
+  private manifest: Record<string, ManifestEntry> | null = null;
+  // Ingests run one at a time so manifest diffs don't interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  ingest(sources: SourceDocument[], options: IngestionOptions = {}): Promise<IngestionReport> {
+    const run = this.queue.then(() => this.run(sources, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async run(sources: SourceDocument[], options: IngestionOptions): Promise<IngestionReport> {
+    // Throws IngestionError for an unknown chunker before anything is touched
+    const { chunker, chunkOptions } = resolveChunker(options);
+    const manifest = await this.load();
+
+    // The index was wiped or replaced behind the manifest's back, so nothing it lists can be trusted
+    const status = await retrievalService.getStatus();
+    if (status.docCount === 0 && Object.keys(manifest).length > 0) {
+      log.warn('Retrieval index is empty, discarding ingestion manifest', { sources: Object.keys(manifest).length });
+      for (const source of Object.keys(manifest)) delete manifest[source];
+    }
+
+    const report: IngestionReport = {
+      chunker: chunker.name,
+      documents: sources.length,
+      unchanged: 0,
+      chunks: 0,
+      indexed: 0,
+      duplicates: 0,
+      removed: 0,
+      deleted: 0,
+      total: status.docCount,
+    };
+    const settings = JSON.stringify([chunker.name, chunkOptions.maxTokens, chunkOptions.overlapTokens]);
+    const seen = new Set<string>();
+    const upserts: IndexDocument[] = [];
+    const removals: string[] = [];
+    const touched: Array<{ source: SourceDocument; entry: ManifestEntry }> = [];
+
+    for (const source of sources) {
+      const metadataHash = this.hash(JSON.stringify(source.metadata || {}));
+      const hash = this.hash(JSON.stringify([source.text, metadataHash, settings]));
+      const previous = manifest[source.source];
+      // Chunks carry the source's metadata, so a metadata change re-sends all of them
+      const resend = options.force || previous?.metadataHash !== metadataHash;
+
+      if (previous && previous.hash === hash && !options.force) {
+        report.unchanged++;
+        report.chunks += Object.keys(previous.chunks).length;
+        for (const chunkHash of Object.values(previous.chunks)) {
+          seen.add(dedupKey(previous.courseSlug, chunkHash));
+        }
+        continue;
+      }
+
+      const { documents, duplicates } = chunkDocuments([source], { ...options, ...chunkOptions, chunker: chunker.name }, seen);
+      report.duplicates += duplicates;
+      report.chunks += documents.length;
+
+      const chunks: Record<string, string> = {};
+      for (const document of documents) {
+        chunks[document.id] = document.metadata!.contentHash;
+        if (resend || previous?.chunks[document.id] !== chunks[document.id]) {
+          upserts.push(document);
+        }
+      }
+      for (const id of Object.keys(previous?.chunks || {})) {
+        if (!(id in chunks)) removals.push(id);
+      }
+      touched.push({ source, entry: { hash, metadataHash, courseSlug: source.metadata?.courseSlug, chunks } });
+    }
+
+    const deleted = options.sync ? this.missingSources(manifest, sources, options.sync) : [];
+    for (const source of deleted) {
+      removals.push(...Object.keys(manifest[source].chunks));
+    }
+
+    if (upserts.length > 0 || removals.length > 0) {
+      const result = await retrievalService.indexDocuments(upserts, { remove: removals });
+      // The manifest isn't updated, so the next ingest retries these sources
+      if (result.indexed < upserts.length || result.removed < removals.length) {
+        throw new Error(
+          `Indexing failed: ${result.indexed} of ${upserts.length} chunks indexed, ${result.removed} of ${removals.length} removed`
+        );
+      }
+      report.indexed = result.indexed;
+      report.removed = removals.length;
+      report.total = result.total;
+    }
+
+    for (const { source, entry } of touched) {
+      manifest[source.source] = entry;
+    }
+    for (const source of deleted) {
+      delete manifest[source];
+    }
+    report.deleted = deleted.length;
+    await this.save();
+
+    log.info('Ingestion completed', report);
+    return report;
+  }
+
+  /**
+   * Manifest sources a sync's documents no longer include, limited to the synced course if one is given
+   */
+  private missingSources(
+    manifest: Record<string, ManifestEntry>,
+    sources: SourceDocument[],
+    sync: true | { courseSlug: string }
+  ): string[] {
+    const listed = new Set(sources.map(source => source.source));
+    const courseSlug = sync === true ? undefined : sync.courseSlug;
+    return Object.keys(manifest).filter(
+      source => !listed.has(source) && (courseSlug === undefined || manifest[source].courseSlug === courseSlug)
+    );
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 16);
+  }
+
+  private manifestPath(): string | null {
+    return env.MOCK_RETRIEVAL === 'false' ? path.resolve(env.RETRIEVAL_MANIFEST_PATH) : null;
+  }
+
+  private async load(): Promise<Record<string, ManifestEntry>> {
+    if (this.manifest) {
+      return this.manifest;
+    }
+    this.manifest = {};
+
+    const file = this.manifestPath();
+    if (!file) {
+      return this.manifest;
+    }
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+      if (data.version === MANIFEST_VERSION && data.sources && typeof data.sources === 'object') {
+        this.manifest = data.sources;
+      } else {
+        log.warn('Ignoring ingestion manifest with an unknown format', { path: file, version: data.version });
+      }
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log.error('Failed to load ingestion manifest', { path: file, error: error.message });
+      }
+    }
+    return this.manifest!;
+  }
+
+  private async save(): Promise<void> {
+    const file = this.manifestPath();
+    if (!file || !this.manifest) {
+      return;
+    }
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ version: MANIFEST_VERSION, sources: this.manifest }));
+      await fs.rename(`${file}.tmp`, file);
+    } catch (error: any) {
+      log.error('Failed to save ingestion manifest', { path: file, error: error.message });
+    }
+  }
+}
+
+export const ingestionService = new IngestionService();
@@ -0,0 +1,196 @@
+/**
+ * LLM Router - Picks the provider/model chain for each LLM call
+ * Chains are ordered fallbacks (e.g. primary model -> cheaper model -> local model); rules pick a chain by request tag
+ * Loaded from LLM_ROUTING_FILE; without it every call goes to LLM_DEFAULT_PROVIDER, then the local provider if configured
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { LLMRequest } from '../interfaces/llm-plugin.interface';
+import { PluginResult } from '../types';
+import { CircuitBreaker, circuitBreakerRegistry } from '../circuit-breaker';
+import { env } from '../../env';
+import { log } from '../../log';
+
+export interface LLMTarget {
+  provider: string;
+  model?: string;      // Provider's default model when omitted
+  timeoutMs?: number;
+}
+
+export interface LLMRoutingRule {
+  tag: string;   // Exact tag, or a prefix ending in "*" (e.g. "code-*")
+  chain: string;
+}
+
+export interface LLMRoutingConfig {
+  defaultChain?: string;
+  chains: Record<string, LLMTarget[]>;
+  rules?: LLMRoutingRule[];
+  circuitBreaker?: { failureThreshold?: number; resetTimeoutMs?: number };
+}
+
+export interface LLMRouteAttempt {
+  provider: string;
+  model?: string;
+  ok: boolean;
+  error?: string;
+  errorType?: string;
+  skipped?: 'circuit-open';
+}
+
+/**
+ * How a call was routed, returned alongside the result
+ */
+export interface LLMRoute {
+  chain: string;
+  provider?: string;
+  model?: string;
+  fallbacks: number;
+  attempts: LLMRouteAttempt[];
+}
+
+// The request itself is bad; another provider would reject it too
+const NO_FALLBACK_ERRORS = ['invalid_request'];
+
+function matchesTag(rule: LLMRoutingRule, tag: string): boolean {
+  return rule.tag.endsWith('*') ? tag.startsWith(rule.tag.slice(0, -1)) : rule.tag === tag;
+}
+
+export class LLMRouter {
+  private config: LLMRoutingConfig | null = null;
+
+  /**
+   * Forget the loaded config so the file is read again on the next call
+   */
+  reload(): void {
+    this.config = null;
+  }
+
+  getConfig(): LLMRoutingConfig {
+    if (!this.config) {
+      this.config = this.load();
+    }
+    return this.config;
+  }
+
+  /**
+   * Targets to try in order for a request
+   * An explicit provider/model goes first; `fallback: false` pins the call to it
+   */
+  resolve(request: LLMRequest, availableProviders: string[]): { chain: string; targets: LLMTarget[] } {
+    const config = this.getConfig();
+    const rule = request.tag ? (config.rules || []).find(candidate => matchesTag(candidate, request.tag!)) : undefined;
+    const chainName = rule?.chain || config.defaultChain || 'default';
+    const chain = config.chains[chainName] || [];
+
+    const targets: LLMTarget[] = [];
+    if (request.provider || request.model) {
+      targets.push({
+        provider: request.provider || chain[0]?.provider || env.LLM_DEFAULT_PROVIDER,
+        model: request.model,
+        timeoutMs: request.timeoutMs,
+      });
+    }
+    if (request.fallback !== false || targets.length === 0) {
+      targets.push(...chain);
+    }
+
+    // Skip providers the plugin doesn't have, and repeats (a provider's default model repeats any earlier target on it)
+    const seen = new Set<string>();
+    const usable = targets.filter(target => {
+      const key = `${target.provider}/${target.model || ''}`;
+      const repeated = seen.has(key) || (!target.model && seen.has(target.provider));
+      if (repeated || (availableProviders.length > 0 && !availableProviders.includes(target.provider))) {
+        return false;
+      }
+      seen.add(key);
+      seen.add(target.provider);
+      return true;
+    });
+
+    return {
+      chain: chainName,
+      targets: request.fallback === false ? usable.slice(0, 1) : usable,
+    };
+  }
+
+  /**
+   * The request as sent to one target
+   */
+  apply(request: LLMRequest, target: LLMTarget): LLMRequest {
+    return {
+      ...request,
+      provider: target.provider,
+      model: target.model,
+      timeoutMs: target.timeoutMs ?? request.timeoutMs,
+    };
+  }
+
+  /**
+   * Whether a failed call should move on to the next target
+   */
+  shouldFallBack(result: PluginResult<any>): boolean {
+    return !NO_FALLBACK_ERRORS.includes(result.metadata?.errorType);
+  }
+
+  /**
+   * Breaker per provider/model; only provider-side failures (timeouts, 5xx, rate limits) count against it
+   */
+  breaker(target: LLMTarget): CircuitBreaker {
+    const settings = this.getConfig().circuitBreaker || {};
+    return circuitBreakerRegistry.get(`llm:${target.provider}/${target.model || 'default'}`, {
+      failureThreshold: settings.failureThreshold ?? 5,
+      resetTimeout: settings.resetTimeoutMs ?? 30000,
+    });
+  }
+
+  recordOutcome(breaker: CircuitBreaker, result: PluginResult<any>): void {
+    if (result.ok) {
+      breaker.recordResult(true);
+    } else if (result.metadata?.retryable) {
+      breaker.recordResult(false);
+    }
+  }
+
+  private load(): LLMRoutingConfig {
+    const filePath = path.resolve(env.LLM_ROUTING_FILE);
+    try {
+      const data = JSON.parse(readFileSync(filePath, 'utf-8')) as LLMRoutingConfig;
+      const chains: Record<string, LLMTarget[]> = {};
+      for (const [name, targets] of Object.entries(data.chains || {})) {
+        const valid = (Array.isArray(targets) ? targets : []).filter(target => typeof target?.provider === 'string');
+        if (valid.length === 0) {
+          log.warn('Skipping empty LLM routing chain', { chain: name });
+          continue;
+        }
+        chains[name] = valid;
+      }
+      const rules = (Array.isArray(data.rules) ? data.rules : []).filter(rule => {
+        const known = rule?.tag && chains[rule.chain];
+        if (!known) {
+          log.warn('Skipping LLM routing rule with unknown chain', { tag: rule?.tag, chain: rule?.chain });
+        }
+        return known;
+      });
+
+      log.info('LLM routing loaded', { path: filePath, chains: Object.keys(chains), rules: rules.length });
+      return { ...data, chains, rules };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log.error('Failed to load LLM routing, using defaults', { path: filePath, error: error.message });
+      }
+      return this.defaults();
+    }
+  }
+
+  private defaults(): LLMRoutingConfig {
+    const chain: LLMTarget[] = [{ provider: env.LLM_DEFAULT_PROVIDER }];
+    if (env.LLM_LOCAL_BASE_URL && env.LLM_DEFAULT_PROVIDER !== 'local') {
+      chain.push({ provider: 'local' });
+    }
+    return { defaultChain: 'default', chains: { default: chain }, rules: [] };
+  }
+}
+
+export const llmRouter = new LLMRouter();
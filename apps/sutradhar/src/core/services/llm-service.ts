@@ -3,23 +3,75 @@
  */
 
 import { pluginRegistry } from '../plugin-registry';
-import { ILLMPlugin, LLMRequest, LLMResponse } from '../interfaces/llm-plugin.interface';
+import { ILLMPlugin, LLMMessage, LLMRequest, LLMResponse } from '../interfaces/llm-plugin.interface';
+import { JsonSchema, validateJsonSchema } from '../json-schema';
 import { log } from '../../log';
 import { cache } from '../cache';
+import { env } from '../../env';
+import { LLMCallUsage, UsageTags, usageService } from './usage-service';
+import { llmRouter, LLMRoute, LLMTarget } from './llm-router';
+import { semanticCache, SemanticCacheHit, SemanticCacheProbe } from './semantic-cache';
+import { PluginResult } from '../types';
+
+const MAX_STRUCTURED_REPAIRS = 5;
+
+export interface LLMChatResult {
+  ok: boolean;
+  mocked?: boolean;
+  data?: LLMResponse;
+  error?: string;
+  usage?: LLMCallUsage;
+  route?: LLMRoute;
+  cached?: Omit<SemanticCacheHit, 'response'>; // Set when the response came from the semantic cache
+}
+
+export interface StructuredChatRequest extends LLMRequest {
+  schema: JsonSchema;
+  maxRepairs?: number; // Re-prompts after invalid output, defaults to LLM_STRUCTURED_MAX_REPAIRS
+}
+
+export interface StructuredChatResponse<T = any> {
+  data: T;
+  text: string;
+  attempts: number;
+}
+
+export interface StructuredChatResult<T = any> {
+  ok: boolean;
+  mocked?: boolean;
+  data?: StructuredChatResponse<T>;
+  error?: string;
+  validationErrors?: string[];
+  attempts: number;
+  usage?: LLMCallUsage; // Summed over all attempts
+  route?: LLMRoute;     // Routing of the last attempt
+}
 
 export class LLMService {
   private async getPlugin(): Promise<ILLMPlugin> {
     return await pluginRegistry.get<ILLMPlugin>('llm');
   }
 
-  async chat(request: LLMRequest): Promise<{ ok: boolean; mocked?: boolean; data?: LLMResponse; error?: string }> {
+  async chat(request: LLMRequest, tags?: UsageTags): Promise<LLMChatResult> {
     try {
       const plugin = await this.getPlugin();
 
       // Cache deterministic/system prompts with longer TTL
       // Skip caching for user queries as they're typically unique
-      const isSystemPrompt = request.system && !request.user.includes('?');
+      // Conversations and tool calls depend on state outside the prompt, so they're never cached
+      const semantic = semanticCache.isCacheable(request);
+      const isSystemPrompt = !semantic && request.system && request.user && !request.user.includes('?') &&
+        !request.messages?.length && !request.tools?.length;
       const cacheKey = `llm:${request.provider || 'default'}:${this.hashRequest(request)}`;
+
+      let probe: SemanticCacheProbe | undefined;
+      if (semantic) {
+        const lookup = await this.semanticLookup(request, tags);
+        if (lookup.result) {
+          return lookup.result;
+        }
+        probe = lookup.probe;
+      }
       
       if (isSystemPrompt) {
         const cached = await cache.get<LLMResponse>(cacheKey);
@@ -35,20 +87,52 @@ export class LLMService {
         }
       }
 
-      const result = await plugin.chat(request);
+      const { targets, route } = this.route(plugin, request);
+      let result: PluginResult<LLMResponse> = { ok: false, error: 'No LLM provider available' };
+      let sent = request;
+      for (const target of targets) {
+        const breaker = llmRouter.breaker(target);
+        if (!breaker.allowRequest()) {
+          result = this.skipTarget(route, target);
+          continue;
+        }
+
+        sent = llmRouter.apply(request, target);
+        result = await plugin.chat(sent);
+        this.recordAttempt(route, target, result);
+        if (result.ok || !llmRouter.shouldFallBack(result)) {
+          break;
+        }
+      }
+      this.finishRoute(route);
       
       // Cache system prompts for 1 hour
       if (isSystemPrompt && result.ok && result.data) {
         await cache.set(cacheKey, result.data, 3600);
       }
 
+      let usage: LLMCallUsage | undefined;
       if (result.ok && result.data) {
+        usage = this.recordUsage(plugin, sent, result.data, result.metadata, tags);
         log.info('LLM response generated', {
-          provider: request.provider || plugin.getDefaultProvider(),
-          userLength: request.user.length,
+          provider: usage.provider,
+          model: usage.model,
+          userLength: request.user?.length ?? 0,
+          messages: request.messages?.length,
           responseLength: result.data.text.length,
+          toolCalls: result.data.toolCalls?.map(call => call.name),
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          costUsd: usage.costUsd,
+          userId: tags?.userId,
+          sessionId: tags?.sessionId,
+          chain: route.chain,
+          fallbacks: route.fallbacks,
           mocked: result.mocked,
         });
+        if (probe && !result.mocked) {
+          semanticCache.store(request, probe, result.data, usage.costUsd);
+        }
       }
 
       return {
@@ -56,6 +140,8 @@ export class LLMService {
         mocked: result.mocked,
         data: result.data,
         error: result.error,
+        usage,
+        route,
       };
     } catch (error) {
       log.error('LLM service error', error);
@@ -66,6 +152,313 @@ export class LLMService {
     }
   }
 
+  /**
+   * Stream a chat completion: yields text deltas, returns the same result as chat()
+   * Plugins without streaming support yield the full text once
+   */
+  async *chatStream(request: LLMRequest, tags?: UsageTags): AsyncGenerator<string, LLMChatResult> {
+    try {
+      const plugin = await this.getPlugin();
+
+      if (!plugin.chatStream) {
+        const result = await this.chat(request, tags);
+        if (result.ok && result.data) {
+          yield result.data.text;
+        }
+        return result;
+      }
+
+      let probe: SemanticCacheProbe | undefined;
+      if (semanticCache.isCacheable(request)) {
+        const lookup = await this.semanticLookup(request, tags);
+        if (lookup.result) {
+          yield lookup.result.data!.text;
+          return lookup.result;
+        }
+        probe = lookup.probe;
+      }
+
+      // Falls back only until the first delta; once text has been sent the stream can't switch models
+      const { targets, route } = this.route(plugin, request);
+      let result: PluginResult<LLMResponse> = { ok: false, error: 'No LLM provider available' };
+      let sent = request;
+      // Text the current attempt has sent; the provider bills it even if the stream never completes
+      let text = '';
+      let usage: LLMCallUsage | undefined;
+      try {
+        for (const target of targets) {
+          const breaker = llmRouter.breaker(target);
+          if (!breaker.allowRequest()) {
+            result = this.skipTarget(route, target);
+            continue;
+          }
+
+          sent = llmRouter.apply(request, target);
+          text = '';
+          const stream = plugin.chatStream(sent);
+          let streamed = false;
+          let next = await stream.next();
+          try {
+            while (!next.done) {
+              streamed = true;
+              text += next.value;
+              yield next.value;
+              next = await stream.next();
+            }
+          } finally {
+            // Our caller stopped reading: close the provider's stream too
+            if (!next.done) {
+              stream.return({ ok: false, error: 'Stream closed by caller' }).catch(() => {});
+            }
+          }
+
+          result = next.value;
+          this.recordAttempt(route, target, result);
+          if (result.ok || streamed || !llmRouter.shouldFallBack(result)) {
+            break;
+          }
+        }
+        this.finishRoute(route);
+
+        if (result.ok && result.data) {
+          usage = this.recordUsage(plugin, sent, result.data, result.metadata, tags);
+          log.info('LLM response streamed', {
+            provider: usage.provider,
+            model: usage.model,
+            userLength: request.user?.length ?? 0,
+            messages: request.messages?.length,
+            responseLength: result.data.text.length,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            costUsd: usage.costUsd,
+            userId: tags?.userId,
+            sessionId: tags?.sessionId,
+            chain: route.chain,
+            fallbacks: route.fallbacks,
+            mocked: result.mocked,
+          });
+          if (probe && !result.mocked) {
+            semanticCache.store(request, probe, result.data, usage.costUsd);
+          }
+        } else if (text) {
+          usage = this.recordPartialStream(plugin, sent, text, tags, result.error);
+        }
+
+        return {
+          ok: result.ok,
+          mocked: result.mocked,
+          data: result.data,
+          error: result.error,
+          usage,
+          route,
+        };
+      } finally {
+        // The caller stopped reading (or the provider threw) part-way through
+        if (!usage && text) {
+          this.recordPartialStream(plugin, sent, text, tags, 'Stream closed before completion');
+        }
+      }
+    } catch (error) {
+      log.error('LLM service stream error', error);
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Chat until the model returns JSON matching `schema`
+   * Invalid output is sent back to the model with the validation errors, up to `maxRepairs` times
+   */
+  async chatStructured<T = any>(request: StructuredChatRequest, tags?: UsageTags): Promise<StructuredChatResult<T>> {
+    const { schema, maxRepairs, ...chatRequest } = request;
+    const repairs = Math.min(Math.max(maxRepairs ?? env.LLM_STRUCTURED_MAX_REPAIRS, 0), MAX_STRUCTURED_REPAIRS);
+
+    const instructions = `Respond only with a JSON value matching this JSON Schema, without explanations or code fences:\n${JSON.stringify(schema)}`;
+    const base: LLMRequest = {
+      ...chatRequest,
+      system: chatRequest.system ? `${chatRequest.system}\n\n${instructions}` : instructions,
+      responseSchema: schema,
+      tools: undefined,
+      toolChoice: undefined,
+    };
+
+    const conversation: LLMMessage[] = [...(chatRequest.messages || [])];
+    if (chatRequest.user) {
+      conversation.push({ role: 'user', content: chatRequest.user });
+    }
+
+    let errors: string[] = [];
+    let mocked: boolean | undefined;
+    let usage: LLMCallUsage | undefined;
+    let route: LLMRoute | undefined;
+    for (let attempt = 1; attempt <= repairs + 1; attempt++) {
+      const result = await this.chat({ ...base, user: undefined, messages: conversation }, tags);
+      mocked = result.mocked;
+      usage = this.addUsage(usage, result.usage);
+      route = result.route;
+      if (!result.ok || !result.data) {
+        return { ok: false, mocked, error: result.error || 'LLM returned no response', attempts: attempt, usage, route };
+      }
+
+      const text = result.data.text;
+      const parsed = this.parseJsonOutput(text);
+      errors = parsed.error ? [`$: ${parsed.error}`] : validateJsonSchema(schema, parsed.value);
+      if (errors.length === 0) {
+        return { ok: true, mocked, data: { data: parsed.value, text, attempts: attempt }, attempts: attempt, usage, route };
+      }
+
+      log.warn('LLM structured output failed validation', { attempt, repairsLeft: repairs + 1 - attempt, errors });
+      conversation.push(
+        { role: 'assistant', content: text },
+        { role: 'user', content: `That response is invalid:\n- ${errors.join('\n- ')}\nReply with the corrected JSON only.` }
+      );
+    }
+
+    return {
+      ok: false,
+      mocked,
+      error: `Model output did not match the schema after ${repairs + 1} attempt(s): ${errors.join('; ')}`,
+      validationErrors: errors,
+      attempts: repairs + 1,
+      usage,
+      route,
+    };
+  }
+
+  /**
+   * A response to a similar earlier request, if the semantic cache has one; no completion is requested or recorded
+   */
+  private async semanticLookup(request: LLMRequest, tags?: UsageTags): Promise<{ result?: LLMChatResult; probe?: SemanticCacheProbe }> {
+    const { hit, probe } = await semanticCache.lookup(request, tags);
+    if (!hit) {
+      return { probe };
+    }
+
+    const { response, ...cached } = hit;
+    log.info('LLM semantic cache hit', {
+      similarity: cached.similarity,
+      hits: cached.hits,
+      ...request.semanticCache?.scope,
+      userId: tags?.userId,
+    });
+    return { result: { ok: true, mocked: false, data: response, cached } };
+  }
+
+  /**
+   * Targets for a request from the routing chains; the request as-is when no chain applies
+   */
+  private route(plugin: ILLMPlugin, request: LLMRequest): { targets: LLMTarget[]; route: LLMRoute } {
+    const resolved = llmRouter.resolve(request, plugin.listProviders());
+    const targets = resolved.targets.length > 0
+      ? resolved.targets
+      : [{ provider: request.provider || plugin.getDefaultProvider(), model: request.model, timeoutMs: request.timeoutMs }];
+    return { targets, route: { chain: resolved.chain, fallbacks: 0, attempts: [] } };
+  }
+
+  private skipTarget(route: LLMRoute, target: LLMTarget): PluginResult<LLMResponse> {
+    route.attempts.push({ provider: target.provider, model: target.model, ok: false, skipped: 'circuit-open' });
+    return {
+      ok: false,
+      error: `Circuit breaker open for ${target.provider}/${target.model || 'default'}`,
+      metadata: { provider: target.provider, errorType: 'provider_error', retryable: true },
+    };
+  }
+
+  private recordAttempt(route: LLMRoute, target: LLMTarget, result: PluginResult<LLMResponse>): void {
+    llmRouter.recordOutcome(llmRouter.breaker(target), result);
+    route.attempts.push({
+      provider: target.provider,
+      model: result.metadata?.model || target.model,
+      ok: result.ok,
+      error: result.error,
+      errorType: result.metadata?.errorType,
+    });
+    if (!result.ok && llmRouter.shouldFallBack(result)) {
+      log.warn('LLM provider call failed', {
+        chain: route.chain,
+        provider: target.provider,
+        model: target.model,
+        errorType: result.metadata?.errorType,
+        error: result.error,
+      });
+    }
+  }
+
+  private finishRoute(route: LLMRoute): void {
+    const last = [...route.attempts].reverse().find(attempt => !attempt.skipped) || route.attempts[route.attempts.length - 1];
+    route.provider = last?.provider;
+    route.model = last?.model;
+    route.fallbacks = Math.max(route.attempts.length - 1, 0);
+  }
+
+  private recordUsage(
+    plugin: ILLMPlugin,
+    request: LLMRequest,
+    response: LLMResponse,
+    metadata: Record<string, any> | undefined,
+    tags?: UsageTags
+  ): LLMCallUsage {
+    const provider = metadata?.provider || request.provider || plugin.getDefaultProvider();
+    const model = metadata?.model || request.model || response.raw?.model || 'unknown';
+    return usageService.record({ provider, model, usage: metadata?.usage }, request, response, tags);
+  }
+
+  /**
+   * Bill a stream that ended without a result, estimating tokens from the text sent so far
+   */
+  private recordPartialStream(plugin: ILLMPlugin, request: LLMRequest, text: string, tags: UsageTags | undefined, reason?: string): LLMCallUsage {
+    const usage = this.recordUsage(plugin, request, { text }, undefined, tags);
+    log.warn('LLM stream ended early, usage estimated', {
+      provider: usage.provider,
+      model: usage.model,
+      responseLength: text.length,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: usage.costUsd,
+      userId: tags?.userId,
+      sessionId: tags?.sessionId,
+      reason,
+    });
+    return usage;
+  }
+
+  private addUsage(total: LLMCallUsage | undefined, usage: LLMCallUsage | undefined): LLMCallUsage | undefined {
+    if (!total || !usage) {
+      return total || usage;
+    }
+    return {
+      ...usage,
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      costUsd: total.costUsd + usage.costUsd,
+      estimated: total.estimated || usage.estimated,
+    };
+  }
+
+  /**
+   * Parse model output as JSON, tolerating code fences and prose around a single JSON value
+   */
+  private parseJsonOutput(text: string): { value?: any; error?: string } {
+    const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      return { value: JSON.parse(trimmed) };
+    } catch {
+      const start = trimmed.search(/[[{]/);
+      const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+      if (start !== -1 && end > start) {
+        try {
+          return { value: JSON.parse(trimmed.slice(start, end + 1)) };
+        } catch {
+          // Fall through to the error below
+        }
+      }
+      return { error: 'output is not valid JSON' };
+    }
+  }
+
   private hashRequest(request: LLMRequest): string {
     // Simple hash for caching (can be improved with crypto)
     const str = `${request.system}:${request.user}:${request.provider || ''}:${request.model || ''}`;
@@ -0,0 +1,267 @@
+/**
+ * Prompt Registry - Named, versioned prompt templates rendered by llm-agent
+ * Each JSON file in PROMPT_TEMPLATES_DIR is one version of a template; the directory is rescanned
+ * every PROMPT_RELOAD_INTERVAL_MS so prompts can change without a deploy
+ *
+ * {
+ *   "id": "tutor.direct",
+ *   "version": 2,
+ *   "variables": { "type": "object", "required": ["question"], "properties": { "question": { "type": "string" } } },
+ *   "defaults": { "tag": "tutoring", "temperature": 0.3 },
+ *   "variants": [
+ *     { "id": "a", "weight": 80, "system": "...", "user": "Question: {{question}}" },
+ *     { "id": "b", "weight": 20, "system": "...", "user": "..." }
+ *   ]
+ * }
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { JsonSchema, validateJsonSchema } from '../json-schema';
+import { LLMRequest } from '../interfaces/llm-plugin.interface';
+import { env } from '../../env';
+import { log } from '../../log';
+
+export interface PromptVariant {
+  id: string;
+  weight?: number; // Relative share of traffic, defaults to 1
+  system?: string;
+  user?: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description?: string;
+  variables?: JsonSchema;
+  defaults?: Pick<LLMRequest, 'tag' | 'model' | 'provider' | 'temperature' | 'maxTokens'>;
+  variants: PromptVariant[];
+}
+
+/**
+ * What was rendered, recorded on llm-agent results as `metadata.prompt`
+ */
+export interface PromptSelection {
+  templateId: string;
+  version: number;
+  variant: string;
+}
+
+export interface RenderedPrompt {
+  system?: string;
+  user?: string;
+  defaults: PromptTemplate['defaults'];
+  selection: PromptSelection;
+}
+
+export interface PromptRenderOptions {
+  version?: number;
+  variant?: string;    // Force a variant, e.g. to preview it
+  assignmentKey?: string; // Same key always gets the same variant (user or session ID)
+}
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, readonly validationErrors?: string[]) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_.]*)\s*\}\}/g;
+
+function lookup(variables: Record<string, any>, name: string): any {
+  return name.split('.').reduce((value, key) => (value == null ? undefined : value[key]), variables as any);
+}
+
+function interpolate(text: string, variables: Record<string, any>): string {
+  return text.replace(PLACEHOLDER, (_, name: string) => {
+    const value = lookup(variables, name);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Deterministic bucket in [0, 1) for sticky variant assignment
+ */
+function bucket(key: string): number {
+  return createHash('sha256').update(key).digest().readUInt32BE(0) / 0x100000000;
+}
+
+export class PromptRegistry {
+  // template ID -> versions, newest first
+  private templates = new Map<string, PromptTemplate[]>();
+  private fileTimes = new Map<string, number>();
+  private lastScan = 0;
+  private scanning: Promise<void> | null = null;
+
+  /**
+   * Render a template into system/user prompts, picking a weighted variant
+   */
+  async render(templateId: string, variables: Record<string, any> = {}, options: PromptRenderOptions = {}): Promise<RenderedPrompt> {
+    const template = await this.get(templateId, options.version);
+    if (!template) {
+      throw new PromptTemplateError(
+        options.version !== undefined
+          ? `Prompt template ${templateId} has no version ${options.version}`
+          : `Unknown prompt template: ${templateId}`
+      );
+    }
+
+    const values = this.withDefaults(template, variables);
+    const errors = validateJsonSchema(template.variables, values, 'variables');
+    if (errors.length > 0) {
+      throw new PromptTemplateError(`Invalid variables for ${template.id}@${template.version}: ${errors.join('; ')}`, errors);
+    }
+
+    const variant = this.pickVariant(template, options);
+    return {
+      system: variant.system !== undefined ? interpolate(variant.system, values) : undefined,
+      user: variant.user !== undefined ? interpolate(variant.user, values) : undefined,
+      defaults: template.defaults,
+      selection: { templateId: template.id, version: template.version, variant: variant.id },
+    };
+  }
+
+  /**
+   * A template version, the newest when no version is given
+   */
+  async get(templateId: string, version?: number): Promise<PromptTemplate | undefined> {
+    await this.refresh();
+    const versions = this.templates.get(templateId) || [];
+    return version === undefined ? versions[0] : versions.find(candidate => candidate.version === version);
+  }
+
+  async list(): Promise<PromptTemplate[]> {
+    await this.refresh();
+    return [...this.templates.values()].flat();
+  }
+
+  /**
+   * Rescan the templates directory now
+   */
+  async reload(): Promise<void> {
+    this.lastScan = 0;
+    this.fileTimes.clear();
+    await this.refresh();
+  }
+
+  private withDefaults(template: PromptTemplate, variables: Record<string, any>): Record<string, any> {
+    const values = { ...variables };
+    for (const [name, schema] of Object.entries(template.variables?.properties || {})) {
+      if (values[name] === undefined && schema.default !== undefined) {
+        values[name] = schema.default;
+      }
+    }
+    return values;
+  }
+
+  private pickVariant(template: PromptTemplate, options: PromptRenderOptions): PromptVariant {
+    if (options.variant) {
+      const forced = template.variants.find(variant => variant.id === options.variant);
+      if (!forced) {
+        throw new PromptTemplateError(`Prompt template ${template.id}@${template.version} has no variant ${options.variant}`);
+      }
+      return forced;
+    }
+
+    const total = template.variants.reduce((sum, variant) => sum + Math.max(variant.weight ?? 1, 0), 0);
+    if (total <= 0) {
+      return template.variants[0];
+    }
+
+    // Sticky per user/session so outcomes can be compared per variant; random otherwise
+    const point = (options.assignmentKey ? bucket(`${template.id}:${options.assignmentKey}`) : Math.random()) * total;
+    let cumulative = 0;
+    for (const variant of template.variants) {
+      cumulative += Math.max(variant.weight ?? 1, 0);
+      if (point < cumulative) {
+        return variant;
+      }
+    }
+    return template.variants[template.variants.length - 1];
+  }
+
+  private async refresh(): Promise<void> {
+    if (Date.now() - this.lastScan < env.PROMPT_RELOAD_INTERVAL_MS) {
+      return;
+    }
+    // Concurrent renders share one scan
+    if (!this.scanning) {
+      this.scanning = this.scan().finally(() => {
+        this.lastScan = Date.now();
+        this.scanning = null;
+      });
+    }
+    await this.scanning;
+  }
+
+  private async scan(): Promise<void> {
+    const dir = path.resolve(env.PROMPT_TEMPLATES_DIR);
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir)).filter(file => file.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log.error('Failed to read prompt templates', { dir, error: error.message });
+      }
+      files = [];
+    }
+
+    // Only re-parse when a file was added, removed or modified
+    const times = new Map<string, number>();
+    for (const file of files) {
+      times.set(file, (await fs.stat(path.join(dir, file))).mtimeMs);
+    }
+    const changed = times.size !== this.fileTimes.size || [...times].some(([file, time]) => this.fileTimes.get(file) !== time);
+    if (!changed) {
+      return;
+    }
+
+    const templates = new Map<string, PromptTemplate[]>();
+    for (const file of files) {
+      try {
+        const template = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')) as PromptTemplate;
+        const problem = this.checkTemplate(template);
+        if (problem) {
+          log.warn('Skipping invalid prompt template', { file, error: problem });
+          continue;
+        }
+        const versions = templates.get(template.id) || [];
+        if (versions.some(existing => existing.version === template.version)) {
+          log.warn('Skipping duplicate prompt template version', { file, templateId: template.id, version: template.version });
+          continue;
+        }
+        templates.set(template.id, [...versions, template].sort((a, b) => b.version - a.version));
+      } catch (error: any) {
+        log.warn('Skipping unreadable prompt template', { file, error: error.message });
+      }
+    }
+
+    this.templates = templates;
+    this.fileTimes = times;
+    log.info('Prompt templates loaded', { dir, templates: templates.size, files: files.length });
+  }
+
+  private checkTemplate(template: PromptTemplate): string | null {
+    if (!template.id || typeof template.id !== 'string') return 'missing id';
+    if (!Number.isInteger(template.version)) return 'version must be an integer';
+    if (!Array.isArray(template.variants) || template.variants.length === 0) return 'needs at least one variant';
+
+    const declared = template.variables?.properties || {};
+    for (const variant of template.variants) {
+      if (!variant.id) return 'variant without id';
+      if (variant.system === undefined && variant.user === undefined) return `variant ${variant.id} has no system or user prompt`;
+      for (const text of [variant.system || '', variant.user || '']) {
+        for (const match of text.matchAll(PLACEHOLDER)) {
+          const root = match[1].split('.')[0];
+          if (!declared[root]) return `variant ${variant.id} uses undeclared variable ${root}`;
+        }
+      }
+    }
+    return null;
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
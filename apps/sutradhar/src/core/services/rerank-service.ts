@@ -0,0 +1,153 @@
+/**
+ * Rerank Service - Reorders retrieved snippets by how well they answer the query
+ * "lexical" scores query term coverage, phrase matches and section headings locally; "llm" has the model grade
+ * each snippet against the query (cross-encoder style, prompt `retrieval.rerank`) and falls back to lexical
+ * when the model is mocked or fails
+ * Either way the final score blends in the retrieval score, so the first-stage ranking still counts
+ */
+
+import { SearchSnippet } from '../interfaces/retrieval-plugin.interface';
+import { tokenize } from '../lexical';
+import { JsonSchema } from '../json-schema';
+import { llmService } from './llm-service';
+import { promptRegistry } from './prompt-registry';
+import { UsageTags } from './usage-service';
+import { log } from '../../log';
+
+export type RerankMode = 'none' | 'lexical' | 'llm';
+
+export const RERANK_MODES: RerankMode[] = ['none', 'lexical', 'llm'];
+
+// Share of the final score taken by the reranker; the rest is the normalized retrieval score
+const LEXICAL_WEIGHT = 0.5;
+const LLM_WEIGHT = 0.7;
+// Passages sent to the model are cut to keep the grading prompt small
+const MAX_PASSAGE_LENGTH = 800;
+
+const RERANK_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['scores'],
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'score'],
+        properties: {
+          index: { type: 'integer', minimum: 1 },
+          score: { type: 'number', minimum: 0, maximum: 10 },
+        },
+      },
+    },
+  },
+};
+
+export interface RerankResult {
+  snippets: SearchSnippet[];
+  // The mode actually applied, "lexical" when an llm rerank fell back
+  mode: RerankMode;
+}
+
+export class RerankService {
+  async rerank(query: string, snippets: SearchSnippet[], mode: RerankMode, tags?: UsageTags): Promise<RerankResult> {
+    if (mode === 'none' || snippets.length === 0) {
+      return { snippets, mode: 'none' };
+    }
+
+    if (mode === 'llm') {
+      const graded = await this.llmScores(query, snippets, tags);
+      if (graded) {
+        return { snippets: this.apply(snippets, graded, LLM_WEIGHT, 'llm'), mode: 'llm' };
+      }
+    }
+
+    const lexical = snippets.map(snippet => this.lexicalScore(query, snippet));
+    return { snippets: this.apply(snippets, lexical, LEXICAL_WEIGHT, 'lexical'), mode: 'lexical' };
+  }
+
+  /**
+   * 0..1 from the share of query terms present, adjacent query term pairs found in the same order,
+   * and query terms in the snippet's section headings
+   */
+  private lexicalScore(query: string, snippet: SearchSnippet): number {
+    const queryTokens = tokenize(query);
+    const terms = [...new Set(queryTokens)];
+    if (terms.length === 0) {
+      return 0;
+    }
+
+    const tokens = tokenize(snippet.text);
+    const present = new Set(tokens);
+    const coverage = terms.filter(term => present.has(term)).length / terms.length;
+
+    const pairs = queryTokens.slice(1).map((token, i) => `${queryTokens[i]} ${token}`);
+    const adjacent = new Set(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`));
+    const phrase = pairs.length > 0 ? pairs.filter(pair => adjacent.has(pair)).length / pairs.length : coverage;
+
+    const heading = new Set(tokenize(snippet.metadata?.breadcrumb || ''));
+    const headingMatch = terms.filter(term => heading.has(term)).length / terms.length;
+
+    return 0.6 * coverage + 0.25 * phrase + 0.15 * headingMatch;
+  }
+
+  /**
+   * 0..1 relevance per snippet from the model, or null to fall back
+   */
+  private async llmScores(query: string, snippets: SearchSnippet[], tags?: UsageTags): Promise<number[] | null> {
+    try {
+      const passages = snippets
+        .map((snippet, i) => `[${i + 1}] ${snippet.text.slice(0, MAX_PASSAGE_LENGTH)}`)
+        .join('\n\n');
+      const rendered = await promptRegistry.render('retrieval.rerank', { query, passages });
+      const result = await llmService.chatStructured<{ scores: Array<{ index: number; score: number }> }>(
+        {
+          system: rendered.system,
+          user: rendered.user,
+          ...rendered.defaults,
+          temperature: 0,
+          schema: RERANK_SCHEMA,
+        },
+        tags
+      );
+
+      if (!result.ok || !result.data || result.mocked) {
+        if (!result.mocked) {
+          log.warn('LLM rerank failed, using lexical rerank', { error: result.error });
+        }
+        return null;
+      }
+
+      // Passages the model skipped keep no rerank score
+      const scores = snippets.map(() => 0);
+      for (const { index, score } of result.data.data.scores) {
+        if (index >= 1 && index <= snippets.length) {
+          scores[index - 1] = score / 10;
+        }
+      }
+      return scores;
+    } catch (error: any) {
+      log.warn('LLM rerank failed, using lexical rerank', { error: error.message });
+      return null;
+    }
+  }
+
+  private apply(snippets: SearchSnippet[], scores: number[], weight: number, mode: RerankMode): SearchSnippet[] {
+    const maxRetrieval = Math.max(0, ...snippets.map(snippet => snippet.score || 0));
+    return snippets
+      .map((snippet, i) => {
+        const retrievalScore = maxRetrieval > 0 ? (snippet.score || 0) / maxRetrieval : 0;
+        const score = weight * scores[i] + (1 - weight) * retrievalScore;
+        return {
+          ...snippet,
+          score: Number(score.toFixed(4)),
+          metadata: {
+            ...snippet.metadata,
+            rerank: { mode, score: Number(scores[i].toFixed(4)), retrievalScore: snippet.score },
+          },
+        };
+      })
+      .sort((a, b) => (b.score || 0) - (a.score || 0));
+  }
+}
+
+export const rerankService = new RerankService();
@@ -0,0 +1,197 @@
+/**
+ * Retrieval Eval Service - Runs golden query sets through a retrieval plugin and scores the rankings
+ * Comparing two configurations (backend, plugin settings, reranker) shows whether a retrieval change helps
+ * before it ships; runs from the CLI (`npm run eval:retrieval`) or as retrieval-agent's `evaluate` task
+ */
+
+import {
+  diffMetrics,
+  EvaluationComparison,
+  EvaluationConfig,
+  EvaluationError,
+  EvaluationOptions,
+  EvaluationReport,
+  GoldenSet,
+  loadGoldenSets,
+  meanMetrics,
+  QueryComparison,
+  QueryEvaluation,
+  scoreRanking,
+} from '../evaluation';
+import { findDataRepository } from '../ingestion';
+import { IRetrievalPlugin, SearchSnippet } from '../interfaces/retrieval-plugin.interface';
+import { pluginRegistry } from '../plugin-registry';
+import { createRetrievalPlugin, RETRIEVAL_BACKENDS } from '../plugin-factory';
+import { rerankService } from './rerank-service';
+import { env } from '../../env';
+import { log } from '../../log';
+
+const DEFAULT_K = 5;
+
+// Plugin settings an evaluation may vary; anything else (index paths, persistence) stays server configuration
+export const EVALUATION_PLUGIN_SETTINGS = ['hybridAlpha', 'chunker'];
+
+export class RetrievalEvalService {
+  async evaluate(config: EvaluationConfig = {}, options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    return this.run(config, await this.goldenSets(options), options.k || DEFAULT_K);
+  }
+
+  /**
+   * Both configurations answer the same golden sets; deltas are candidate - baseline
+   */
+  async compare(
+    baseline: EvaluationConfig,
+    candidate: EvaluationConfig,
+    options: EvaluationOptions = {}
+  ): Promise<EvaluationComparison> {
+    const sets = await this.goldenSets(options);
+    const k = options.k || DEFAULT_K;
+    const before = await this.run(baseline, sets, k);
+    const after = await this.run(candidate, sets, k);
+
+    const changed: QueryComparison[] = [];
+    after.results.forEach((result, i) => {
+      const previous = before.results[i];
+      const delta = diffMetrics(result, previous);
+      if (delta.recall || delta.mrr || delta.ndcg) {
+        changed.push({
+          id: result.id,
+          courseSlug: result.courseSlug,
+          query: result.query,
+          baseline: { recall: previous.recall, mrr: previous.mrr, ndcg: previous.ndcg },
+          candidate: { recall: result.recall, mrr: result.mrr, ndcg: result.ndcg },
+          delta,
+        });
+      }
+    });
+    changed.sort((a, b) => a.delta.ndcg - b.delta.ndcg || a.delta.recall - b.delta.recall);
+
+    const courses: EvaluationComparison['courses'] = {};
+    for (const [courseSlug, metrics] of Object.entries(after.courses)) {
+      courses[courseSlug] = diffMetrics(metrics, before.courses[courseSlug]);
+    }
+
+    return { baseline: before, candidate: after, delta: diffMetrics(after.metrics, before.metrics), courses, changed };
+  }
+
+  private async goldenSets(options: EvaluationOptions): Promise<GoldenSet[]> {
+    const dataDir = findDataRepository();
+    if (!dataDir) {
+      throw new EvaluationError('data_repository not found; set RETRIEVAL_DATA_DIR');
+    }
+    return loadGoldenSets(dataDir, options.courses);
+  }
+
+  private async run(config: EvaluationConfig, sets: GoldenSet[], k: number): Promise<EvaluationReport> {
+    const backend = config.backend || 'retrieval';
+    const rerank = config.rerank || 'none';
+    const name = config.name || [backend, ...Object.entries(config.plugin || {}).map(([key, value]) => `${key}=${value}`), ...(rerank !== 'none' ? [`rerank=${rerank}`] : [])].join(' ');
+    const startTime = Date.now();
+
+    const results = await this.withPlugin(backend, config.plugin, async plugin => {
+      const results: QueryEvaluation[] = [];
+      for (const set of sets) {
+        for (const golden of set.queries) {
+          const ranked = await this.search(plugin, golden.query, { ...set.filters, ...golden.filters }, k, config);
+          const { missed, ...metrics } = scoreRanking(
+            ranked.map(snippet => ({ source: snippet.source, documentId: snippet.metadata?.documentId })),
+            golden.expected,
+            k
+          );
+          results.push({
+            id: golden.id,
+            courseSlug: set.courseSlug,
+            query: golden.query,
+            expected: golden.expected,
+            retrieved: ranked.map(snippet => snippet.metadata?.documentId || snippet.source),
+            missed,
+            ...metrics,
+          });
+        }
+      }
+      return results;
+    });
+
+    const courses: EvaluationReport['courses'] = {};
+    for (const set of sets) {
+      const scored = results.filter(result => result.courseSlug === set.courseSlug);
+      courses[set.courseSlug] = { queries: scored.length, ...meanMetrics(scored) };
+    }
+
+    const report: EvaluationReport = {
+      config: { name, backend, rerank, plugin: config.plugin },
+      k,
+      queries: results.length,
+      metrics: meanMetrics(results),
+      courses,
+      results,
+      durationMs: Date.now() - startTime,
+    };
+    log.info('Retrieval evaluation completed', { config: name, k, queries: report.queries, ...report.metrics });
+    return report;
+  }
+
+  /**
+   * Top k snippets, reranked like RetrievalService.search when the configuration asks for it
+   */
+  private async search(
+    plugin: IRetrievalPlugin,
+    query: string,
+    filters: Record<string, any>,
+    k: number,
+    config: EvaluationConfig
+  ): Promise<SearchSnippet[]> {
+    const rerank = config.rerank || 'none';
+    const result = await plugin.search({
+      query,
+      maxResults: rerank === 'none' ? k : Math.max(k, env.RETRIEVAL_RERANK_CANDIDATES),
+      filters: Object.keys(filters).length > 0 ? filters : undefined,
+    });
+    if (!result.ok || !result.data) {
+      log.warn('Retrieval evaluation search failed', { query, error: result.error });
+      return [];
+    }
+
+    const reranked = await rerankService.rerank(query, result.data, rerank, { agent: 'retrieval-eval' });
+    return reranked.snippets.slice(0, k);
+  }
+
+  /**
+   * Registered plugins are used as they are; backends get a fresh instance that is shut down afterwards
+   * Fresh instances index the data repository in memory and never touch the persisted index
+   */
+  private async withPlugin<T>(
+    backend: string,
+    settings: Record<string, any> | undefined,
+    run: (plugin: IRetrievalPlugin) => Promise<T>
+  ): Promise<T> {
+    if (pluginRegistry.has(backend)) {
+      if (settings && Object.keys(settings).length > 0) {
+        throw new EvaluationError(`Plugin settings need a backend (${RETRIEVAL_BACKENDS.join(', ')}), not the registered plugin ${backend}`);
+      }
+      const plugin = await pluginRegistry.get<IRetrievalPlugin>(backend);
+      if (typeof plugin.search !== 'function') {
+        throw new EvaluationError(`Plugin ${backend} is not a retrieval plugin`);
+      }
+      return run(plugin);
+    }
+
+    if (!RETRIEVAL_BACKENDS.includes(backend)) {
+      throw new EvaluationError(`Unknown retrieval backend: ${backend} (registered: ${pluginRegistry.list().join(', ')}; backends: ${RETRIEVAL_BACKENDS.join(', ')})`);
+    }
+    const unknown = Object.keys(settings || {}).filter(key => !EVALUATION_PLUGIN_SETTINGS.includes(key));
+    if (unknown.length > 0) {
+      throw new EvaluationError(`Unsupported plugin settings: ${unknown.join(', ')} (supported: ${EVALUATION_PLUGIN_SETTINGS.join(', ')})`);
+    }
+    const config = { enabled: true, ...settings, persist: false, autoIndex: true };
+    const plugin = createRetrievalPlugin(backend, config);
+    await plugin.initialize(config);
+    try {
+      return await run(plugin);
+    } finally {
+      await plugin.shutdown?.();
+    }
+  }
+}
+
+export const retrievalEvalService = new RetrievalEvalService();
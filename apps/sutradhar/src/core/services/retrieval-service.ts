@@ -6,63 +6,125 @@ import { pluginRegistry } from '../plugin-registry';
 import { IRetrievalPlugin, SearchRequest, SearchSnippet, IndexRequest } from '../interfaces/retrieval-plugin.interface';
 import { log } from '../../log';
 import { cache } from '../cache';
+import { semanticCache } from './semantic-cache';
+import { RerankMode, rerankService } from './rerank-service';
+import { UsageTags } from './usage-service';
+import { env } from '../../env';
+
+export type SearchScope = 'lesson' | 'course' | 'global';
+
+export interface SearchOptions extends Pick<SearchRequest, 'sources' | 'filters'> {
+  // true uses RETRIEVAL_RERANK_MODE
+  rerank?: boolean | RerankMode;
+  /**
+   * Search the `lessonId` filter's lesson first, then its `courseSlug` course, then the whole index, stopping
+   * once RETRIEVAL_SCOPE_MIN_RESULTS snippets are found; each snippet's `metadata.scope` records which
+   * scope produced it
+   */
+  widen?: boolean;
+  tags?: UsageTags;
+}
+
+export interface SearchResult {
+  snippets: SearchSnippet[];
+  mocked?: boolean;
+  reranked?: RerankMode;
+  // Widest scope searched, for widening searches
+  scope?: SearchScope;
+}
+
+interface ScopedFilters {
+  scope?: SearchScope;
+  filters?: Record<string, any>;
+}
 
 export class RetrievalService {
   private async getPlugin(): Promise<IRetrievalPlugin> {
     return await pluginRegistry.get<IRetrievalPlugin>('retrieval');
   }
 
-  async search(query: string, maxResults = 5): Promise<{ snippets: SearchSnippet[]; mocked?: boolean }> {
+  async search(query: string, maxResults = 5, options: SearchOptions = {}): Promise<SearchResult> {
     try {
       const plugin = await this.getPlugin();
+      const rerank: RerankMode = options.rerank === true ? env.RETRIEVAL_RERANK_MODE : options.rerank || 'none';
 
       // Optional caching for frequent queries
-      const cacheKey = `retrieval:search:${this.hashQuery(query)}:${maxResults}`;
-      const cached = await cache.get<SearchSnippet[]>(cacheKey);
+      const scope = options.sources?.length || options.filters ? `:${this.hashQuery(JSON.stringify([options.sources || [], options.filters || {}]))}` : '';
+      const cacheKey = `retrieval:search:${this.hashQuery(query)}:${maxResults}${scope}:${rerank}${options.widen ? ':widen' : ''}`;
+      const cached = await cache.get<SearchResult>(cacheKey);
       
       if (cached) {
         log.info('Retrieval cache hit', { query });
-        return { snippets: cached };
+        return cached;
       }
 
-      const request: SearchRequest = {
-        query,
-        maxResults,
-      };
-
-      const result = await plugin.search(request);
+      const scopes: ScopedFilters[] = options.widen ? this.widenScopes(options.filters) : [{ filters: options.filters }];
+      const minResults = Math.min(env.RETRIEVAL_SCOPE_MIN_RESULTS, maxResults);
+      const snippets: SearchSnippet[] = [];
+      const seen = new Set<string>();
+      const result: SearchResult = { snippets };
 
-      if (result.ok && result.data) {
-        // Cache retrieval results for 10 minutes (longer TTL for better cost savings)
-        // User queries are unique, but similar queries benefit from cache
-        await cache.set(cacheKey, result.data, 600);
-        
-        log.info('Retrieval search completed', {
+      for (const { scope: name, filters } of scopes) {
+        // Rerankers choose from a wider candidate set than is returned; wider scopes also return what was already found
+        const request: SearchRequest = {
           query,
-          results: result.data.length,
-          mocked: result.mocked,
-        });
-
-        return {
-          snippets: result.data,
-          mocked: result.mocked,
+          maxResults: (rerank === 'none' ? maxResults : Math.max(maxResults, env.RETRIEVAL_RERANK_CANDIDATES)) + snippets.length,
+          sources: options.sources,
+          filters,
         };
+
+        const searched = await plugin.search(request);
+        if (!searched.ok || !searched.data) {
+          break;
+        }
+
+        const fresh = searched.data.filter(snippet => !seen.has(this.snippetKey(snippet)));
+        const reranked = await rerankService.rerank(query, fresh, rerank, options.tags);
+        for (const snippet of reranked.snippets.slice(0, maxResults - snippets.length)) {
+          seen.add(this.snippetKey(snippet));
+          snippets.push(name ? { ...snippet, metadata: { ...snippet.metadata, scope: name } } : snippet);
+        }
+
+        result.mocked = searched.mocked;
+        result.scope = name;
+        if (reranked.mode !== 'none') result.reranked = reranked.mode;
+        if (snippets.length >= minResults) break;
       }
 
-      return { snippets: [] };
+      if (result.mocked === undefined) {
+        return { snippets: [] };
+      }
+
+      // Cache retrieval results for 10 minutes (longer TTL for better cost savings)
+      // User queries are unique, but similar queries benefit from cache
+      await cache.set(cacheKey, result, 600);
+
+      log.info('Retrieval search completed', {
+        query,
+        results: snippets.length,
+        rerank: result.reranked,
+        scope: result.scope,
+        mocked: result.mocked,
+      });
+
+      return result;
     } catch (error) {
       log.error('Retrieval service error', error);
       return { snippets: [] };
     }
   }
 
-  async indexDocuments(documents: Array<{ id: string; text: string; source: string; metadata?: Record<string, any> }>): Promise<{ indexed: number; total: number }> {
+  async indexDocuments(
+    documents: Array<{ id: string; text: string; source: string; metadata?: Record<string, any> }>,
+    options: Pick<IndexRequest, 'remove'> = {}
+  ): Promise<{ indexed: number; removed: number; total: number }> {
     try {
       const plugin = await this.getPlugin();
 
       const request: IndexRequest = {
         documents,
         replace: false,
+        remove: options.remove?.length ? options.remove : undefined,
       };
 
       const result = await plugin.index(request);
@@ -70,19 +132,24 @@ export class RetrievalService {
       if (result.ok && result.data) {
         log.info('Documents indexed', {
           indexed: result.data.indexed,
+          removed: request.remove?.length,
           total: result.data.total,
         });
 
         // Clear search cache since index changed
         await cache.clear('retrieval');
+        // Cached answers can't be narrowed to the changed lessons: searches widen from the lesson to its course
+        // and then to every course, so any answer may have used an added, updated or removed document
+        semanticCache.invalidate();
 
-        return result.data;
+        // Removing IDs that aren't in the index is not an error, so every requested removal counts
+        return { ...result.data, removed: request.remove?.length || 0 };
       }
 
-      return { indexed: 0, total: 0 };
+      return { indexed: 0, removed: 0, total: 0 };
     } catch (error) {
       log.error('Index service error', error);
-      return { indexed: 0, total: 0 };
+      return { indexed: 0, removed: 0, total: 0 };
     }
   }
 
@@ -101,6 +168,22 @@ export class RetrievalService {
     }
   }
 
+  /**
+   * Lesson, course and global filters for a widening search; filters other than lessonId/courseSlug apply to all of them
+   */
+  private widenScopes(filters: Record<string, any> = {}): ScopedFilters[] {
+    const { lessonId, courseSlug, ...rest } = filters;
+    const scopes: ScopedFilters[] = [];
+    if (lessonId) scopes.push({ scope: 'lesson', filters });
+    if (courseSlug) scopes.push({ scope: 'course', filters: { ...rest, courseSlug } });
+    scopes.push({ scope: 'global', filters: Object.keys(rest).length > 0 ? rest : undefined });
+    return scopes;
+  }
+
+  private snippetKey(snippet: SearchSnippet): string {
+    return snippet.metadata?.documentId || `${snippet.source}\n${snippet.text}`;
+  }
+
   private hashQuery(query: string): string {
     // Simple hash for caching
     let hash = 0;
@@ -0,0 +1,230 @@
+/**
+ * Semantic Cache - Reuses LLM responses for near-identical requests
+ * Requests opt in with `semanticCache`; entries are partitioned by course, lesson and persona plus the exact
+ * system prompt and model, and matched within a partition by embedding similarity (see embedding-service) of the
+ * normalized user text
+ * Entries live in process memory and are all dropped whenever the search index changes
+ */
+
+import { createHash } from 'crypto';
+import { LLMRequest, LLMResponse, SemanticCacheScope } from '../interfaces/llm-plugin.interface';
+import { cosineSimilarity, normalizeText } from '../hashed-embedding';
+import { embeddingService } from './embedding-service';
+import { UsageTags } from './usage-service';
+import { env } from '../../env';
+import { log } from '../../log';
+
+interface CacheEntry {
+  vector: Float32Array;
+  text: string;
+  response: LLMResponse;
+  scope: SemanticCacheScope;
+  costUsd: number;
+  createdAt: number;
+  hits: number;
+}
+
+export interface SemanticCacheHit {
+  response: LLMResponse;
+  similarity: number;
+  cachedAt: number;
+  hits: number;
+}
+
+/**
+ * The request's embedding, reused to store the response after a miss
+ */
+export interface SemanticCacheProbe {
+  text: string;
+  vector: Float32Array;
+  model: string;
+}
+
+export interface SemanticCacheStats {
+  entries: number;
+  partitions: number;
+  hits: number;
+  misses: number;
+  savedUsd: number;
+  threshold: number;
+  ttlSeconds: number;
+  embeddingProvider: string;
+}
+
+export class SemanticCache {
+  // partition key -> entries, oldest first
+  private partitions = new Map<string, CacheEntry[]>();
+  private size = 0;
+  private hits = 0;
+  private misses = 0;
+  private savedUsd = 0;
+
+  /**
+   * Whether a request can be answered from the cache at all
+   * Tool calls and prior turns depend on state outside the text being compared, so they never are
+   */
+  isCacheable(request: LLMRequest): boolean {
+    return !!request.semanticCache && env.LLM_SEMANTIC_CACHE_ENABLED === 'true' &&
+      !request.tools?.length && !request.messages?.length && !request.responseSchema &&
+      !!this.keyText(request);
+  }
+
+  /**
+   * Find the most similar live entry above the threshold
+   * Returns the probe even on a miss so store() doesn't embed the request again; no probe if embedding failed
+   */
+  async lookup(request: LLMRequest, tags?: UsageTags): Promise<{ hit: SemanticCacheHit | null; probe?: SemanticCacheProbe }> {
+    const text = this.keyText(request);
+    const embedded = await embeddingService.embed({ texts: [text] }, tags);
+    if (!embedded.ok || !embedded.data) {
+      log.warn('Semantic cache skipped, embedding failed', { error: embedded.error });
+      this.misses++;
+      return { hit: null };
+    }
+    const probe: SemanticCacheProbe = { text, vector: Float32Array.from(embedded.data.vectors[0]), model: embedded.data.model };
+
+    const key = this.partitionKey(request, probe.model);
+    const entries = this.partitions.get(key) || [];
+    const now = Date.now();
+    const live = entries.filter(entry => now - entry.createdAt < env.LLM_SEMANTIC_CACHE_TTL_SECONDS * 1000);
+    this.replace(key, entries, live);
+
+    const threshold = request.semanticCache?.threshold ?? env.LLM_SEMANTIC_CACHE_THRESHOLD;
+    let best: { entry: CacheEntry; similarity: number } | null = null;
+    for (const entry of live) {
+      const similarity = entry.text === text ? 1 : cosineSimilarity(probe.vector, entry.vector);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) {
+      this.misses++;
+      return { hit: null, probe };
+    }
+
+    best.entry.hits++;
+    this.hits++;
+    this.savedUsd += best.entry.costUsd;
+    return {
+      hit: {
+        response: best.entry.response,
+        similarity: Number(best.similarity.toFixed(4)),
+        cachedAt: best.entry.createdAt,
+        hits: best.entry.hits,
+      },
+      probe,
+    };
+  }
+
+  store(request: LLMRequest, probe: SemanticCacheProbe, response: LLMResponse, costUsd: number = 0): void {
+    if (response.toolCalls?.length) {
+      return;
+    }
+
+    const key = this.partitionKey(request, probe.model);
+    const entries = this.partitions.get(key) || [];
+    entries.push({
+      vector: probe.vector,
+      text: probe.text,
+      response: { ...response, raw: undefined },
+      scope: request.semanticCache?.scope || {},
+      costUsd,
+      createdAt: Date.now(),
+      hits: 0,
+    });
+    this.partitions.set(key, entries);
+    this.size++;
+    this.evict();
+  }
+
+  /**
+   * Drop entries for a course, or one lesson of it; everything when no scope is given
+   * Returns how many entries were removed
+   */
+  invalidate(scope: { courseSlug?: string; lessonId?: string } = {}): number {
+    let removed = 0;
+    for (const [key, entries] of this.partitions) {
+      const kept = entries.filter(entry =>
+        (scope.courseSlug !== undefined && entry.scope.courseSlug !== scope.courseSlug) ||
+        (scope.lessonId !== undefined && entry.scope.lessonId !== scope.lessonId)
+      );
+      removed += entries.length - kept.length;
+      this.replace(key, entries, kept);
+    }
+
+    if (removed > 0) {
+      log.info('Semantic cache invalidated', { ...scope, removed });
+    }
+    return removed;
+  }
+
+  stats(): SemanticCacheStats {
+    return {
+      entries: this.size,
+      partitions: this.partitions.size,
+      hits: this.hits,
+      misses: this.misses,
+      savedUsd: this.savedUsd,
+      threshold: env.LLM_SEMANTIC_CACHE_THRESHOLD,
+      ttlSeconds: env.LLM_SEMANTIC_CACHE_TTL_SECONDS,
+      embeddingProvider: env.LLM_EMBEDDING_PROVIDER,
+    };
+  }
+
+  /**
+   * Text compared by similarity: the caller's key (e.g. just the student's question) or the whole user turn
+   */
+  private keyText(request: LLMRequest): string {
+    return normalizeText(request.semanticCache?.key || request.user || '');
+  }
+
+  /**
+   * Everything that must match exactly for a response to be reused
+   * The rest of the user turn (e.g. retrieved context) isn't part of it; lesson scope and invalidation keep it fresh
+   * The embedding model is, since vectors from different models can't be compared
+   */
+  private partitionKey(request: LLMRequest, embeddingModel: string): string {
+    const scope = request.semanticCache?.scope || {};
+    const frame = createHash('sha256')
+      .update(JSON.stringify([
+        request.system || '',
+        request.provider || '',
+        request.model || '',
+        request.tag || '',
+        embeddingModel,
+      ]))
+      .digest('hex')
+      .slice(0, 16);
+    return `${scope.courseSlug || '-'}/${scope.lessonId || '-'}/${scope.persona || 'default'}/${frame}`;
+  }
+
+  private replace(key: string, before: CacheEntry[], after: CacheEntry[]): void {
+    this.size -= before.length - after.length;
+    if (after.length === 0) {
+      this.partitions.delete(key);
+    } else if (after !== before) {
+      this.partitions.set(key, after);
+    }
+  }
+
+  /**
+   * Drop the oldest entries across partitions once over LLM_SEMANTIC_CACHE_MAX_ENTRIES
+   */
+  private evict(): void {
+    while (this.size > env.LLM_SEMANTIC_CACHE_MAX_ENTRIES) {
+      let oldest: { key: string; entries: CacheEntry[] } | null = null;
+      for (const [key, entries] of this.partitions) {
+        if (!oldest || entries[0].createdAt < oldest.entries[0].createdAt) {
+          oldest = { key, entries };
+        }
+      }
+      if (!oldest) {
+        return;
+      }
+      this.replace(oldest.key, oldest.entries, oldest.entries.slice(1));
+    }
+  }
+}
+
+export const semanticCache = new SemanticCache();
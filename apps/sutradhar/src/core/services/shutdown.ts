@@ -9,6 +9,7 @@ import { healthMonitor } from './health-monitor';
 import { disconnectCache } from '../cache';
 import { destroyAgents } from '../http/client-pool';
 import { env } from '../../env';
+import { orchestrator } from '../../orchestrator/orchestrator';
 
 export interface ShutdownOptions {
   timeout?: number;
@@ -81,6 +82,12 @@ export class ShutdownService {
       log.info('Stopping health monitor...');
       healthMonitor.stopHeartbeat();
 
+      // Step 1.5: Stop agents (kills spawned agent processes)
+      log.info('Stopping agents...');
+      await orchestrator.shutdown().catch((err) => {
+        log.warn('Agent shutdown error', err);
+      });
+
       // Step 2: Disconnect cache
       log.info('Disconnecting cache...');
       await disconnectCache().catch((err) => {
@@ -0,0 +1,301 @@
+/**
+ * Usage Service - Token and cost accounting for LLM calls
+ * Every call is aggregated per UTC day by user, user type, course, agent and model;
+ * llm-agent checks the daily budgets before calling the model
+ * Totals are kept in process memory, so they reset when Sutradhar restarts
+ */
+
+import { LLMRequest, LLMResponse, requestMessages } from '../interfaces/llm-plugin.interface';
+import { env } from '../../env';
+import { log } from '../../log';
+
+export interface UsageTags {
+  userId?: string;
+  sessionId?: string;
+  courseSlug?: string;
+  agent?: string; // Caller that asked for the completion, e.g. an Optimus agent
+  requestId?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LLMCallUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  estimated: boolean; // Provider didn't report usage, tokens were estimated from text length
+}
+
+export interface UsageRecord extends LLMCallUsage {
+  timestamp: number;
+  tags: UsageTags;
+}
+
+export type UsageDimension = 'user' | 'userType' | 'course' | 'agent' | 'model';
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['user', 'userType', 'course', 'agent', 'model'];
+
+export interface BudgetOverrun {
+  scope: 'user' | 'guest' | 'anonymous' | 'course';
+  key: string;
+  spentUsd: number;
+  limitUsd: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  exceeded: BudgetOverrun[];
+  downgrade?: { provider?: string; model: string };
+}
+
+interface ModelPrice {
+  prompt: number;     // USD per 1M prompt tokens
+  completion: number; // USD per 1M completion tokens
+}
+
+// List prices; override or extend with LLM_PRICING
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+  'sonar': { prompt: 1, completion: 1 },
+  'sonar-pro': { prompt: 3, completion: 15 },
+  'pplx-7b-online': { prompt: 0.2, completion: 0.2 },
+};
+
+const MAX_RECENT_RECORDS = 1000;
+
+export function isGuestUser(userId?: string): boolean {
+  return !!userId && userId.startsWith('GUEST_');
+}
+
+/**
+ * Who a call is billed to: the user, else a guest session (a guest's session ID is its user ID),
+ * else the pool shared by every anonymous caller
+ */
+export function billedTo(tags: UsageTags): { key: string; type: 'registered' | 'guest' | 'anonymous' } {
+  const id = tags.userId || (isGuestUser(tags.sessionId) ? tags.sessionId : undefined);
+  if (!id) {
+    return { key: 'anonymous', type: 'anonymous' };
+  }
+  return { key: id, type: isGuestUser(id) ? 'guest' : 'registered' };
+}
+
+function utcDay(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+// Roughly 4 characters per token for English text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function parsePricing(raw?: string): Record<string, ModelPrice> {
+  if (!raw) {
+    return {};
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    log.warn('Ignoring invalid LLM_PRICING, expected {"model": {"prompt": usd, "completion": usd}}', { error: String(error) });
+    return {};
+  }
+}
+
+export class UsageService {
+  private readonly pricing: Record<string, ModelPrice> = { ...DEFAULT_PRICING, ...parsePricing(env.LLM_PRICING) };
+  // day -> "dimension:key" -> totals
+  private days = new Map<string, Map<string, UsageTotals>>();
+  private recent: UsageRecord[] = [];
+
+  /**
+   * Record one completed call, estimating tokens when the provider reported none
+   */
+  record(
+    call: { provider: string; model: string; usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number } },
+    request: LLMRequest,
+    response: LLMResponse,
+    tags: UsageTags = {}
+  ): LLMCallUsage {
+    const estimated = !call.usage || call.usage.promptTokens === undefined;
+    const promptTokens = estimated
+      ? estimateTokens(requestMessages(request).map(message => message.content || '').join('\n') + JSON.stringify(request.tools || []))
+      : call.usage!.promptTokens!;
+    const completionTokens = estimated || call.usage!.completionTokens === undefined
+      ? estimateTokens(response.text + (response.toolCalls ? JSON.stringify(response.toolCalls) : ''))
+      : call.usage!.completionTokens!;
+
+    const usage: LLMCallUsage = {
+      provider: call.provider,
+      model: call.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: this.cost(call.model, promptTokens, completionTokens),
+      estimated,
+    };
+    const record: UsageRecord = { ...usage, timestamp: Date.now(), tags };
+
+    const totals = this.dayTotals(utcDay(record.timestamp), true)!;
+    const billed = billedTo(tags);
+    const keys: Array<[UsageDimension, string | undefined]> = [
+      ['user', billed.key],
+      ['userType', billed.type],
+      ['course', tags.courseSlug],
+      ['agent', tags.agent],
+      ['model', `${record.provider}/${record.model}`],
+    ];
+    for (const key of ['total', ...keys.filter(([, value]) => value).map(([dimension, value]) => `${dimension}:${value}`)]) {
+      const entry = totals.get(key) || emptyTotals();
+      entry.calls += 1;
+      entry.promptTokens += record.promptTokens;
+      entry.completionTokens += record.completionTokens;
+      entry.totalTokens += record.totalTokens;
+      entry.costUsd += record.costUsd;
+      totals.set(key, entry);
+    }
+
+    this.recent.push(record);
+    if (this.recent.length > MAX_RECENT_RECORDS) {
+      this.recent.shift();
+    }
+
+    return usage;
+  }
+
+  /**
+   * Estimated cost in USD; models without a known price (e.g. local ones) are free
+   */
+  cost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.priceFor(model);
+    if (!price) {
+      return 0;
+    }
+    return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+  }
+
+  /**
+   * Totals for one day grouped by a dimension, most expensive first
+   */
+  summary(dimension: UsageDimension, day: string = utcDay()): { day: string; totals: UsageTotals; groups: Array<UsageTotals & { key: string }> } {
+    const totals = this.dayTotals(day);
+    const prefix = `${dimension}:`;
+    const groups = [...(totals?.entries() || [])]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, value]) => ({ key: key.slice(prefix.length), ...value }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+
+    return { day, totals: totals?.get('total') || emptyTotals(), groups };
+  }
+
+  getTotals(dimension: UsageDimension, key: string, day: string = utcDay()): UsageTotals {
+    return this.dayTotals(day)?.get(`${dimension}:${key}`) || emptyTotals();
+  }
+
+  getRecent(filter: { userId?: string; limit?: number } = {}): UsageRecord[] {
+    const records = filter.userId ? this.recent.filter(record => billedTo(record.tags).key === filter.userId) : this.recent;
+    return records.slice(-(filter.limit || 50)).reverse();
+  }
+
+  /**
+   * Check today's spend against the user (guest or anonymous pool) and course budgets
+   * When a budget is exhausted the call is refused, or moved to LLM_BUDGET_DOWNGRADE_MODEL if configured
+   */
+  checkBudget(tags: UsageTags, request: { provider?: string; model?: string }): BudgetCheck {
+    const exceeded: BudgetOverrun[] = [];
+
+    const billed = billedTo(tags);
+    const limit = billed.type === 'registered'
+      ? env.LLM_BUDGET_USER_DAILY_USD
+      : billed.type === 'guest' ? env.LLM_BUDGET_GUEST_DAILY_USD : env.LLM_BUDGET_ANONYMOUS_DAILY_USD;
+    const spent = this.getTotals('user', billed.key).costUsd;
+    if (limit !== undefined && spent >= limit) {
+      exceeded.push({ scope: billed.type === 'registered' ? 'user' : billed.type, key: billed.key, spentUsd: spent, limitUsd: limit });
+    }
+
+    if (tags.courseSlug && env.LLM_BUDGET_COURSE_DAILY_USD !== undefined) {
+      const spent = this.getTotals('course', tags.courseSlug).costUsd;
+      if (spent >= env.LLM_BUDGET_COURSE_DAILY_USD) {
+        exceeded.push({ scope: 'course', key: tags.courseSlug, spentUsd: spent, limitUsd: env.LLM_BUDGET_COURSE_DAILY_USD });
+      }
+    }
+
+    if (exceeded.length === 0) {
+      return { allowed: true, exceeded };
+    }
+
+    const downgradeModel = env.LLM_BUDGET_DOWNGRADE_MODEL;
+    const downgradeProvider = env.LLM_BUDGET_DOWNGRADE_PROVIDER;
+    const alreadyDowngraded = request.model === downgradeModel && (!downgradeProvider || request.provider === downgradeProvider);
+    if (env.LLM_BUDGET_ACTION === 'downgrade' && downgradeModel && !alreadyDowngraded) {
+      return { allowed: true, exceeded, downgrade: { provider: downgradeProvider, model: downgradeModel } };
+    }
+
+    return { allowed: false, exceeded };
+  }
+
+  /**
+   * Configured budgets, for the costs endpoint
+   */
+  getBudgets(): Record<string, any> {
+    return {
+      userDailyUsd: env.LLM_BUDGET_USER_DAILY_USD ?? null,
+      guestDailyUsd: env.LLM_BUDGET_GUEST_DAILY_USD ?? null,
+      anonymousDailyUsd: env.LLM_BUDGET_ANONYMOUS_DAILY_USD ?? null,
+      courseDailyUsd: env.LLM_BUDGET_COURSE_DAILY_USD ?? null,
+      action: env.LLM_BUDGET_ACTION,
+      downgradeModel: env.LLM_BUDGET_DOWNGRADE_MODEL ?? null,
+      downgradeProvider: env.LLM_BUDGET_DOWNGRADE_PROVIDER ?? null,
+    };
+  }
+
+  private priceFor(model: string): ModelPrice | undefined {
+    if (this.pricing[model]) {
+      return this.pricing[model];
+    }
+    // Dated snapshots such as gpt-4o-mini-2024-07-18 use the base model's price
+    const base = Object.keys(this.pricing)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return base ? this.pricing[base] : undefined;
+  }
+
+  private dayTotals(day: string, create: boolean = false): Map<string, UsageTotals> | undefined {
+    let totals = this.days.get(day);
+    if (!totals && create) {
+      totals = new Map();
+      this.days.set(day, totals);
+      this.prune();
+    }
+    return totals;
+  }
+
+  private prune(): void {
+    const oldest = utcDay(Date.now() - env.USAGE_RETENTION_DAYS * 24 * 3600 * 1000);
+    for (const day of this.days.keys()) {
+      if (day < oldest) {
+        this.days.delete(day);
+      }
+    }
+  }
+}
+
+export const usageService = new UsageService();
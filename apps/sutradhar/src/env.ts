@@ -64,6 +64,19 @@ const envSchema = z.object({
   // Retrieval
   MOCK_RETRIEVAL: z.string().default('true'),
   RETRIEVAL_TIMEOUT_MS: z.string().default('2500').transform(Number),
+  // Local hybrid retrieval (MOCK_RETRIEVAL=false)
+  RETRIEVAL_INDEX_PATH: z.string().default('./data/retrieval-index.json'),
+  RETRIEVAL_HYBRID_ALPHA: z.string().default('0.5').transform(Number), // Weight of embedding similarity vs BM25 (0 = BM25 only, 1 = vectors only)
+  RETRIEVAL_AUTO_INDEX: z.string().default('true'), // Seed an empty index from data_repository at startup
+  RETRIEVAL_DATA_DIR: z.string().optional(), // data_repository location, found relative to the working directory when unset
+  RETRIEVAL_RERANK_MODE: z.enum(['lexical', 'llm']).default('lexical'), // Reranker used by searches that ask for `rerank: true`
+  RETRIEVAL_RERANK_CANDIDATES: z.string().default('20').transform(Number), // Snippets retrieved for the reranker to choose from
+  RETRIEVAL_SCOPE_MIN_RESULTS: z.string().default('3').transform(Number), // Widening searches move from lesson to course to global until they have this many snippets
+  // Ingestion (retrieval-agent `ingest`): chunker and token limits per chunk, see core/ingestion
+  RETRIEVAL_CHUNKER: z.string().default('markdown'), // markdown | code-blocks | sliding-window
+  RETRIEVAL_CHUNK_MAX_TOKENS: z.string().default('400').transform(Number),
+  RETRIEVAL_CHUNK_OVERLAP_TOKENS: z.string().default('50').transform(Number),
+  RETRIEVAL_MANIFEST_PATH: z.string().default('./data/retrieval-manifest.json'), // Content hashes for incremental re-indexing
   HYPERSPELL_API_KEY: z.string().optional(),
   HYPERSPELL_BASE_URL: z.string().url().default('https://api.hyperspell.ai'),
   MOSS_PROJECT_ID: z.string().optional(),
@@ -87,6 +100,38 @@ const envSchema = z.object({
   LLM_OPENAI_MODEL: z.string().default('gpt-4o-mini'),
   LLM_PERPLEXITY_MODEL: z.string().default('pplx-7b-online'),
   MOCK_LLM: z.string().default('true'),
+  OPENAI_BASE_URL: z.string().url().default('https://api.openai.com/v1'),
+  PERPLEXITY_BASE_URL: z.string().url().default('https://api.perplexity.ai'),
+  LLM_LOCAL_BASE_URL: z.string().url().optional(), // Any OpenAI-compatible server, e.g. http://127.0.0.1:8080/v1 (llama.cpp, vLLM)
+  LLM_LOCAL_API_KEY: z.string().optional(),
+  LLM_LOCAL_MODEL: z.string().default('local'),
+  LLM_TIMEOUT_MS: z.string().default('30000').transform(Number),
+  LLM_TEMPERATURE: z.string().optional().transform(val => (val ? Number(val) : undefined)),
+  LLM_MAX_TOKENS: z.string().optional().transform(val => (val ? Number(val) : undefined)),
+  LLM_ROUTING_FILE: z.string().default('./config/llm-routing.json'), // Fallback chains and tag rules, see config/llm-routing.example.json
+  // Embeddings: "hashed" is a deterministic local n-gram model that works offline; otherwise an LLM provider name
+  LLM_EMBEDDING_PROVIDER: z.string().default('hashed'),
+  LLM_EMBEDDING_DIMENSIONS: z.string().default('512').transform(Number), // Size of hashed vectors
+  LLM_OPENAI_EMBEDDING_MODEL: z.string().default('text-embedding-3-small'),
+  LLM_LOCAL_EMBEDDING_MODEL: z.string().optional(), // Defaults to LLM_LOCAL_MODEL
+  // Semantic response cache, used by requests that opt in with `semanticCache`
+  LLM_SEMANTIC_CACHE_ENABLED: z.string().default('true'),
+  LLM_SEMANTIC_CACHE_THRESHOLD: z.string().default('0.85').transform(Number), // Cosine similarity needed to reuse a response; tune per embedding model
+  LLM_SEMANTIC_CACHE_TTL_SECONDS: z.string().default('86400').transform(Number),
+  LLM_SEMANTIC_CACHE_MAX_ENTRIES: z.string().default('5000').transform(Number),
+  PROMPT_TEMPLATES_DIR: z.string().default('./prompts'), // One JSON file per prompt template version, see core/services/prompt-registry.ts
+  PROMPT_RELOAD_INTERVAL_MS: z.string().default('5000').transform(Number), // How often the templates directory is rescanned
+  LLM_STRUCTURED_MAX_REPAIRS: z.string().default('2').transform(Number), // Re-prompts allowed when chatStructured output fails its schema
+  // LLM usage accounting & daily budgets (USD per UTC day; unset budgets are unlimited)
+  LLM_PRICING: z.string().optional(), // JSON overrides: {"model": {"prompt": usdPer1M, "completion": usdPer1M}}
+  LLM_BUDGET_USER_DAILY_USD: z.string().optional().transform(val => (val ? Number(val) : undefined)),
+  LLM_BUDGET_GUEST_DAILY_USD: z.string().optional().default('0.01').transform(val => (val ? Number(val) : undefined)), // Each GUEST_* user or session; empty disables
+  LLM_BUDGET_ANONYMOUS_DAILY_USD: z.string().optional().default('0.5').transform(val => (val ? Number(val) : undefined)), // Shared by all calls with neither a user nor a guest session; empty disables
+  LLM_BUDGET_COURSE_DAILY_USD: z.string().optional().transform(val => (val ? Number(val) : undefined)),
+  LLM_BUDGET_ACTION: z.enum(['refuse', 'downgrade']).default('refuse'),
+  LLM_BUDGET_DOWNGRADE_MODEL: z.string().optional(), // Used instead of refusing when LLM_BUDGET_ACTION=downgrade
+  LLM_BUDGET_DOWNGRADE_PROVIDER: z.string().optional(),
+  USAGE_RETENTION_DAYS: z.string().default('7').transform(Number),
   // Test & CI
   RL_BYPASS: z.string().default('false'),
   LOG_JSON: z.string().default('false'),
@@ -95,8 +140,43 @@ const envSchema = z.object({
   REDIS_URL: z.string().optional(), // URL validation happens at runtime when Redis is actually used
   USE_REDIS: z.string().default('false'), // Force Redis in dev if needed
   CACHE_DEFAULT_TTL: z.string().default('3600').transform(Number),
+  // Agent Runtimes
+  CONTAINER_DRIVER: z.string().default('docker'), // docker | podman | fake
+  CONTAINER_NETWORKS: z.string().default('bridge'), // Networks agents may join (comma-separated); host and container:* never
+  CONTAINER_DEFAULT_MEMORY: z.string().default('512m'), // Limits for agents that don't set config.memory / config.cpus
+  CONTAINER_DEFAULT_CPUS: z.string().default('1'),
+  CONTAINER_AGENT_IMAGES: z.string().default(''), // Images container agents may run (comma-separated, with tag); none by default
+  PROCESS_AGENT_COMMANDS: z.string().default(''), // Scripts and commands process agents may run (comma-separated paths or PATH names); none by default
+  PROCESS_AGENT_ENV: z.string().default('PATH,HOME,LANG,TZ,NODE_ENV'), // Sutradhar's variables passed on to process agents, besides their config.env
+  // Agent Routing
+  ROUTING_STRATEGY: z.enum(['round-robin', 'least-latency', 'health-weighted']).default('round-robin'),
+  AGENT_HEALTH_INTERVAL_MS: z.string().default('30000').transform(Number), // 0 disables periodic health checks
+  // Capability contracts (payload/result schemas): enforce rejects violations, warn only logs
+  CAPABILITY_VALIDATION: z.enum(['off', 'warn', 'enforce']).default('enforce'),
+  // Guardrail pre-stage for agents declaring config.guardrails: enforce blocks, warn only reports the outcome
+  GUARDRAILS_MODE: z.enum(['off', 'warn', 'enforce']).default('enforce'),
+  GUARDRAILS_BLOCK_SEVERITY: z.enum(['low', 'medium', 'high', 'critical']).default('medium'), // Milder failures only warn
+  // Agent Registry Persistence (non in-process agents are restored on boot)
+  AGENT_REGISTRY_STORE: z.enum(['none', 'file', 'convex']).default('file'),
+  AGENT_REGISTRY_FILE: z.string().default('./data/agent-registry.json'),
+  AGENT_EVICT_AFTER_FAILURES: z.string().default('0').transform(Number), // Consecutive failed health checks before a persisted agent is stopped until it recovers; 0 never stops it
+  // Orchestrator API Auth (API keys or HS256 JWTs, scoped per agent and task type)
+  ORCHESTRATOR_AUTH: z.enum(['disabled', 'enabled']).default('enabled'), // disabled is only accepted with NODE_ENV=development
+  ORCHESTRATOR_CLIENTS_FILE: z.string().default('./config/orchestrator-clients.json'),
+  ORCHESTRATOR_JWT_SECRET: z.string().optional(),
+  ORCHESTRATOR_JWT_ISSUER: z.string().optional(),
+  ORCHESTRATOR_JWT_AUDIENCE: z.string().optional(),
+  ORCHESTRATOR_API_SPAWN: z.enum(['disabled', 'enabled']).default('disabled'), // Whether POST /agents/register may start process and container agents
+  // Workflows
+  WORKFLOW_FOREACH_MAX_ITEMS: z.string().default('100').transform(Number), // forEach steps over longer arrays fail instead of fanning out
+  WORKFLOW_FOREACH_CONCURRENCY: z.string().default('4').transform(Number), // forEach items running at once, for steps without `concurrency`
+  // Background Jobs
+  JOB_STORE: z.enum(['memory', 'redis']).default('memory'),
+  JOB_TTL_SECONDS: z.string().default('86400').transform(Number),
+  JOB_TIMEOUT_MS: z.string().default('600000').transform(Number),
   // CORS & API
   ALLOWED_ORIGINS: z.string().optional(), // Comma-separated list
+  REQUEST_BODY_LIMIT: z.string().default('5mb'), // Large enough for a retrieval `ingest` of every lesson
   FRONTEND_URL: z.string().url().optional(),
         // Graceful shutdown
         GRACEFUL_SHUTDOWN_TIMEOUT: z.string().default('30000').transform(Number),
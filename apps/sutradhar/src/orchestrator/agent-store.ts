@@ -0,0 +1,149 @@
+/**
+ * Agent Definition Store - Persists registered agents across restarts
+ * Only agents that can be recreated from their definition (http, process, container) are stored
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentDefinition, AgentTask, AgentResult } from './types';
+import { env } from '../env';
+import { log } from '../log';
+
+export interface IAgentDefinitionStore {
+  readonly name: string;
+  load(): Promise<AgentDefinition[]>;
+  save(definition: AgentDefinition): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+type ExecuteFn = (agentId: string, task: AgentTask) => Promise<AgentResult>;
+
+/**
+ * In-process agents hold live objects and are registered in code on every boot
+ */
+export function isPersistable(definition: AgentDefinition): boolean {
+  return definition.runtime !== 'in-process';
+}
+
+/**
+ * The definition as stored: config.env and URL credentials stay in memory only, so secrets never reach the store
+ * Agents restored from the store start without them; put values they need in their server-side configuration
+ */
+export function persistedDefinition(definition: AgentDefinition): AgentDefinition {
+  const { env: _env, ...config } = definition.config || {};
+  if (typeof config.url === 'string') {
+    try {
+      const url = new URL(config.url);
+      if (url.username || url.password) {
+        url.username = '';
+        url.password = '';
+        config.url = url.toString();
+      }
+    } catch {
+      // Not a URL; the HTTP runtime fails on it anyway
+    }
+  }
+  return { ...definition, config };
+}
+
+/**
+ * JSON file store; writes go to a temp file first so a crash never leaves a partial file
+ */
+export class FileAgentDefinitionStore implements IAgentDefinitionStore {
+  readonly name = 'file';
+  // Serializes writes so concurrent registrations don't drop each other
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<AgentDefinition[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content);
+      return Array.isArray(data.agents) ? data.agents : [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(definition: AgentDefinition): Promise<void> {
+    await this.update(agents => [...agents.filter(agent => agent.id !== definition.id), definition]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.update(agents => agents.filter(agent => agent.id !== id));
+  }
+
+  private update(fn: (agents: AgentDefinition[]) => AgentDefinition[]): Promise<void> {
+    const next = this.writeQueue.then(async () => {
+      const agents = fn(await this.load());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify({ agents }, null, 2), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Keep the queue alive after a failed write
+    this.writeQueue = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Convex store, accessed through the data-agent (agentDefinitions:* functions)
+ */
+export class ConvexAgentDefinitionStore implements IAgentDefinitionStore {
+  readonly name = 'convex';
+
+  constructor(private readonly executeFn: ExecuteFn) {}
+
+  async load(): Promise<AgentDefinition[]> {
+    const data = await this.call('query', 'agentDefinitions:list', {});
+    // Convex HTTP API wraps results as { status, value }
+    const definitions = Array.isArray(data) ? data : data?.value;
+    return Array.isArray(definitions) ? definitions : [];
+  }
+
+  async save(definition: AgentDefinition): Promise<void> {
+    await this.call('mutation', 'agentDefinitions:upsert', { agentId: definition.id, definition });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.call('mutation', 'agentDefinitions:remove', { agentId: id });
+  }
+
+  private async call(type: 'query' | 'mutation', convexPath: string, args: any): Promise<any> {
+    const result = await this.executeFn('data-agent', {
+      id: `agent-store-${Date.now()}`,
+      type,
+      payload: { path: convexPath, args },
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `Convex ${type} ${convexPath} failed`);
+    }
+    if (result.data?.skipped) {
+      throw new Error('Convex is not configured (CONVEX_URL not set)');
+    }
+    return result.data;
+  }
+}
+
+/**
+ * Create the store selected by AGENT_REGISTRY_STORE (none | file | convex)
+ */
+export function createAgentDefinitionStore(executeFn: ExecuteFn): IAgentDefinitionStore | null {
+  switch (env.AGENT_REGISTRY_STORE) {
+    case 'none':
+      return null;
+    case 'convex':
+      log.info('Initializing Convex agent registry store');
+      return new ConvexAgentDefinitionStore(executeFn);
+    case 'file':
+    default:
+      log.info('Initializing file agent registry store', { path: env.AGENT_REGISTRY_FILE });
+      return new FileAgentDefinitionStore(path.resolve(env.AGENT_REGISTRY_FILE));
+  }
+}
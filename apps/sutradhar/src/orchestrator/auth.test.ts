@@ -0,0 +1,177 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { authenticateClient, hasScope, reloadClients, scopeMatches, OrchestratorClient } from './auth';
+import { env } from '../env';
+
+jest.mock('../log', () => ({
+  log: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const SECRET = 'test-secret';
+
+function sign(claims: unknown, options: { secret?: string; alg?: string } = {}): string {
+  const header = Buffer.from(JSON.stringify({ alg: options.alg ?? 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createHmac('sha256', options.secret ?? SECRET).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Run authenticateClient against the given headers
+ */
+function authenticate(headers: Record<string, string>): { client?: OrchestratorClient; status?: number; message?: string } {
+  const req = { headers, method: 'POST', originalUrl: '/orchestrator/tasks', socket: {} } as unknown as Request;
+  let status: number | undefined;
+  let message: string | undefined;
+  const res = {
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json(body: any) {
+      message = body.message;
+      return this;
+    },
+  } as unknown as Response;
+
+  let passed = false;
+  authenticateClient(req, res, () => {
+    passed = true;
+  });
+  return passed ? { client: req.client } : { status, message };
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('scopeMatches', () => {
+  it('matches exact scopes and the global wildcard', () => {
+    expect(scopeMatches('data-agent:query', 'data-agent:query')).toBe(true);
+    expect(scopeMatches('*', 'orchestrator:agents.register')).toBe(true);
+    expect(scopeMatches('data-agent:query', 'data-agent:mutation')).toBe(false);
+  });
+
+  it('expands `*` within a single segment', () => {
+    expect(scopeMatches('llm-agent:*', 'llm-agent:chat')).toBe(true);
+    expect(scopeMatches('*:search', 'retrieval-agent:search')).toBe(true);
+    expect(scopeMatches('orchestrator:workflows.*', 'orchestrator:workflows.run')).toBe(true);
+    expect(scopeMatches('*:search', 'retrieval-agent:index')).toBe(false);
+    expect(scopeMatches('llm-*', 'llm-agent:chat')).toBe(false);
+  });
+
+  it('treats other regex characters literally', () => {
+    expect(scopeMatches('orchestrator:agents.*', 'orchestrator:agentsXread')).toBe(false);
+    expect(scopeMatches('data-agent:(query|mutation)', 'data-agent:query')).toBe(false);
+  });
+
+  it('is used by hasScope for every granted scope', () => {
+    const client: OrchestratorClient = { id: 'c', scopes: ['data-agent:query', '*:search'], authMethod: 'api-key' };
+    expect(hasScope(client, 'retrieval-agent:search')).toBe(true);
+    expect(hasScope(client, 'data-agent:mutation')).toBe(false);
+    expect(hasScope(undefined, 'data-agent:query')).toBe(false);
+  });
+});
+
+describe('authenticateClient', () => {
+  const saved = { ...env };
+
+  beforeAll(() => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'orchestrator-auth-'));
+    const clientsFile = path.join(dir, 'clients.json');
+    writeFileSync(clientsFile, JSON.stringify({
+      clients: [
+        { id: 'hashed', keyHash: createHash('sha256').update('hashed-key').digest('hex'), scopes: ['data-agent:*'] },
+        { id: 'plain', apiKey: 'plain-key', scopes: ['*:search'] },
+        { id: 'no-scopes', apiKey: 'broken-key' },
+      ],
+    }));
+
+    env.ORCHESTRATOR_AUTH = 'enabled';
+    env.ORCHESTRATOR_CLIENTS_FILE = clientsFile;
+    env.ORCHESTRATOR_JWT_SECRET = SECRET;
+    reloadClients();
+  });
+
+  afterAll(() => {
+    Object.assign(env, saved);
+    reloadClients();
+  });
+
+  afterEach(() => {
+    env.ORCHESTRATOR_JWT_ISSUER = undefined;
+    env.ORCHESTRATOR_JWT_AUDIENCE = undefined;
+  });
+
+  describe('API keys', () => {
+    it('accepts keys stored as a hash or in plaintext', () => {
+      expect(authenticate({ 'x-api-key': 'hashed-key' }).client).toEqual({ id: 'hashed', scopes: ['data-agent:*'], authMethod: 'api-key' });
+      expect(authenticate({ authorization: 'Bearer plain-key' }).client?.id).toBe('plain');
+    });
+
+    it('rejects unknown keys, invalid entries and missing credentials', () => {
+      expect(authenticate({ 'x-api-key': 'wrong-key' })).toEqual({ status: 401, message: 'Invalid API key' });
+      expect(authenticate({ 'x-api-key': 'broken-key' }).status).toBe(401);
+      expect(authenticate({})).toEqual({ status: 401, message: 'Missing credentials' });
+    });
+  });
+
+  describe('JWTs', () => {
+    it('accepts a valid token with scopes from `scope` or `scopes`', () => {
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', scope: 'a:b c:*', exp: now() + 60 })}` }).client)
+        .toEqual({ id: 'svc', scopes: ['a:b', 'c:*'], authMethod: 'jwt' });
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', scopes: ['a:b', 7] })}` }).client?.scopes).toEqual(['a:b']);
+    });
+
+    it('rejects a bad signature or algorithm', () => {
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc' }, { secret: 'other' })}` }).message).toBe('Invalid token signature');
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc' }, { alg: 'none' })}` }).message).toBe('Unsupported token algorithm: none');
+
+      const [header, , signature] = sign({ sub: 'svc' }).split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'admin', scope: '*' })).toString('base64url');
+      expect(authenticate({ authorization: `Bearer ${header}.${forged}.${signature}` }).message).toBe('Invalid token signature');
+    });
+
+    it('checks expiry and not-before with clock skew', () => {
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', exp: now() - 120 })}` }).message).toBe('Token expired');
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', exp: now() - 10 })}` }).client?.id).toBe('svc');
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', nbf: now() + 120 })}` }).message).toBe('Token not yet valid');
+    });
+
+    it('checks issuer and audience when configured', () => {
+      env.ORCHESTRATOR_JWT_ISSUER = 'optimus';
+      env.ORCHESTRATOR_JWT_AUDIENCE = 'sutradhar';
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', iss: 'optimus', aud: ['other', 'sutradhar'] })}` }).client?.id).toBe('svc');
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', iss: 'optimus', aud: 'other' })}` }).message).toBe('Invalid token audience');
+      expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc', iss: 'someone', aud: 'sutradhar' })}` }).message).toBe('Invalid token issuer');
+    });
+
+    it('rejects tokens without a subject or a claims object', () => {
+      expect(authenticate({ authorization: `Bearer ${sign({ scope: '*' })}` }).message).toBe('Token has no subject');
+      for (const claims of [null, 42, 'svc', []]) {
+        expect(authenticate({ authorization: `Bearer ${sign(claims)}` })).toEqual({ status: 401, message: 'Malformed token' });
+      }
+    });
+
+    it('is refused when no secret is configured', () => {
+      env.ORCHESTRATOR_JWT_SECRET = undefined;
+      try {
+        expect(authenticate({ authorization: `Bearer ${sign({ sub: 'svc' })}` }).message).toBe('JWT authentication is not configured');
+      } finally {
+        env.ORCHESTRATOR_JWT_SECRET = SECRET;
+      }
+    });
+  });
+
+  it('grants every scope when auth is disabled', () => {
+    env.ORCHESTRATOR_AUTH = 'disabled';
+    try {
+      const { client } = authenticate({});
+      expect(client?.authMethod).toBe('none');
+      expect(hasScope(client, 'orchestrator:agents.register')).toBe(true);
+    } finally {
+      env.ORCHESTRATOR_AUTH = 'enabled';
+    }
+  });
+});
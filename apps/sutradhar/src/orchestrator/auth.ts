@@ -0,0 +1,273 @@
+/**
+ * Orchestrator Auth - Client identities and scopes for the orchestrator API
+ * Clients authenticate with an API key or an HS256 JWT; scopes say which agents and task types they may call
+ *
+ * Scopes:
+ *   <agentId>:<taskType>            e.g. data-agent:query, llm-agent:*, *:search
+ *   orchestrator:<resource>.<verb>  e.g. orchestrator:agents.register, orchestrator:workflows.*
+ *   *                               everything
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../env';
+import { log } from '../log';
+
+export interface OrchestratorClient {
+  id: string;
+  scopes: string[];
+  authMethod: 'api-key' | 'jwt' | 'none';
+}
+
+/**
+ * Entry in ORCHESTRATOR_CLIENTS_FILE ({ "clients": [...] })
+ * Prefer `keyHash` (sha256 hex of the key) so plaintext keys never sit on disk
+ */
+interface ClientConfig {
+  id: string;
+  apiKey?: string;
+  keyHash?: string;
+  scopes: string[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      client?: OrchestratorClient;
+    }
+  }
+}
+
+// Used when auth is disabled, so route checks behave the same either way
+const ANONYMOUS_CLIENT: OrchestratorClient = { id: 'anonymous', scopes: ['*'], authMethod: 'none' };
+
+// Tolerated clock difference when checking exp/nbf
+const CLOCK_SKEW_SECONDS = 30;
+
+let keyIndex: Map<string, ClientConfig> | null = null;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Load clients from ORCHESTRATOR_CLIENTS_FILE, indexed by key hash
+ */
+function loadClients(): Map<string, ClientConfig> {
+  if (keyIndex) {
+    return keyIndex;
+  }
+
+  keyIndex = new Map();
+  const filePath = path.resolve(env.ORCHESTRATOR_CLIENTS_FILE);
+  try {
+    const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+    for (const client of (Array.isArray(data.clients) ? data.clients : []) as ClientConfig[]) {
+      const keyHash = client.keyHash?.toLowerCase() || (client.apiKey ? hashKey(client.apiKey) : undefined);
+      if (!client.id || !keyHash || !Array.isArray(client.scopes)) {
+        log.warn('Skipping invalid orchestrator client entry', { clientId: client.id });
+        continue;
+      }
+      keyIndex.set(keyHash, client);
+    }
+    log.info('Orchestrator clients loaded', { path: filePath, clients: keyIndex.size });
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      log.error('Failed to load orchestrator clients', { path: filePath, error: error.message });
+    }
+  }
+  return keyIndex;
+}
+
+/**
+ * Forget loaded clients so the file is read again on the next request
+ */
+export function reloadClients(): void {
+  keyIndex = null;
+}
+
+function authenticateApiKey(key: string): OrchestratorClient | null {
+  const presented = Buffer.from(hashKey(key), 'hex');
+  // Compare every entry in constant time rather than relying on the map lookup
+  for (const [keyHash, client] of loadClients()) {
+    const expected = Buffer.from(keyHash, 'hex');
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return { id: client.id, scopes: client.scopes, authMethod: 'api-key' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify an HS256 JWT signed with ORCHESTRATOR_JWT_SECRET
+ * `sub` is the client ID; scopes come from `scope` (space-separated) or `scopes` (array)
+ */
+function authenticateJwt(token: string): { client?: OrchestratorClient; reason?: string } {
+  if (!env.ORCHESTRATOR_JWT_SECRET) {
+    return { reason: 'JWT authentication is not configured' };
+  }
+
+  const [encodedHeader, encodedPayload, signature] = token.split('.');
+  let header: any;
+  let claims: any;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+    claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+  } catch {
+    return { reason: 'Malformed token' };
+  }
+  // `null`, `42` and `[]` are valid JSON but not a claims set
+  if (typeof claims !== 'object' || !claims || Array.isArray(claims)) {
+    return { reason: 'Malformed token' };
+  }
+
+  if (header?.alg !== 'HS256') {
+    return { reason: `Unsupported token algorithm: ${header?.alg}` };
+  }
+
+  const expected = createHmac('sha256', env.ORCHESTRATOR_JWT_SECRET)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const presented = Buffer.from(signature || '', 'base64url');
+  if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+    return { reason: 'Invalid token signature' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && now > claims.exp + CLOCK_SKEW_SECONDS) {
+    return { reason: 'Token expired' };
+  }
+  if (typeof claims.nbf === 'number' && now + CLOCK_SKEW_SECONDS < claims.nbf) {
+    return { reason: 'Token not yet valid' };
+  }
+  if (env.ORCHESTRATOR_JWT_ISSUER && claims.iss !== env.ORCHESTRATOR_JWT_ISSUER) {
+    return { reason: 'Invalid token issuer' };
+  }
+  if (env.ORCHESTRATOR_JWT_AUDIENCE) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(env.ORCHESTRATOR_JWT_AUDIENCE)) {
+      return { reason: 'Invalid token audience' };
+    }
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    return { reason: 'Token has no subject' };
+  }
+
+  const scopes = Array.isArray(claims.scopes)
+    ? claims.scopes.filter((scope: any) => typeof scope === 'string')
+    : typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [];
+
+  return { client: { id: claims.sub, scopes, authMethod: 'jwt' } };
+}
+
+export function scopeMatches(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) {
+    return true;
+  }
+  if (!granted.includes('*')) {
+    return false;
+  }
+  // `*` stands for any run of characters within one segment
+  const pattern = granted
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^:]*');
+  return new RegExp(`^${pattern}$`).test(required);
+}
+
+/**
+ * Whether a client holds a scope
+ */
+export function hasScope(client: OrchestratorClient | undefined, scope: string): boolean {
+  return !!client && client.scopes.some(granted => scopeMatches(granted, scope));
+}
+
+/**
+ * Scope needed to run a task type on an agent
+ */
+export function taskScope(agentId: string, taskType: string): string {
+  return `${agentId}:${taskType}`;
+}
+
+/**
+ * Audit-log a denied call and send the error response
+ */
+export function denyAccess(req: Request, res: Response, status: 401 | 403, reason: string, scope?: string): void {
+  log.warn('Orchestrator access denied', {
+    audit: true,
+    status,
+    reason,
+    scope,
+    clientId: req.client?.id,
+    authMethod: req.client?.authMethod,
+    method: req.method,
+    path: req.originalUrl,
+    ip: req.ip || req.socket.remoteAddress,
+    requestId: req.requestId || req.headers['x-request-id'],
+  });
+
+  res.status(status).json({
+    ok: false,
+    error: status === 401 ? 'Unauthorized' : 'Forbidden',
+    message: reason,
+  });
+}
+
+/**
+ * Check a scope inside a route handler; sends 403 and returns false when it is missing
+ */
+export function authorize(req: Request, res: Response, scope: string): boolean {
+  if (hasScope(req.client, scope)) {
+    return true;
+  }
+  denyAccess(req, res, 403, `Missing scope: ${scope}`, scope);
+  return false;
+}
+
+/**
+ * Identify the caller from `X-API-Key` or `Authorization: Bearer <api key | JWT>`
+ */
+export function authenticateClient(req: Request, res: Response, next: NextFunction): void {
+  if (env.ORCHESTRATOR_AUTH === 'disabled') {
+    req.client = ANONYMOUS_CLIENT;
+    return next();
+  }
+
+  const authorization = req.headers.authorization;
+  const bearer = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : undefined;
+  const apiKey = (req.headers['x-api-key'] as string | undefined) || bearer;
+
+  if (!apiKey) {
+    return denyAccess(req, res, 401, 'Missing credentials');
+  }
+
+  // JWTs have three dot-separated parts; API keys have none
+  if (apiKey.split('.').length === 3) {
+    const { client, reason } = authenticateJwt(apiKey);
+    if (!client) {
+      return denyAccess(req, res, 401, reason || 'Invalid token');
+    }
+    req.client = client;
+    return next();
+  }
+
+  const client = authenticateApiKey(apiKey);
+  if (!client) {
+    return denyAccess(req, res, 401, 'Invalid API key');
+  }
+  req.client = client;
+  next();
+}
+
+/**
+ * Route middleware requiring a fixed scope
+ */
+export function requireScope(scope: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (authorize(req, res, scope)) {
+      next();
+    }
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Capability Contract - Checks tasks and results against an agent's declared capabilities
+ * Payloads are validated before dispatch, result data after; CAPABILITY_VALIDATION=warn only logs, off skips
+ */
+
+import { AgentHandle, AgentResult, AgentTask } from './types';
+import { validateJsonSchema } from '../core/json-schema';
+import { env } from '../env';
+import { log } from '../log';
+
+export type ContractViolation = 'capability' | 'payload' | 'result';
+
+function violation(kind: ContractViolation, error: string, validationErrors?: string[]): AgentResult {
+  return {
+    success: false,
+    error,
+    metadata: { contractViolation: kind, validationErrors },
+  };
+}
+
+/**
+ * Check a task before dispatch, returns a failed result if the agent can't accept it
+ */
+export function checkTaskContract(handle: AgentHandle, task: AgentTask): AgentResult | null {
+  if (env.CAPABILITY_VALIDATION === 'off') {
+    return null;
+  }
+
+  if (handle.capabilities && !handle.capabilities.includes(task.type)) {
+    const error = `Agent ${handle.id} does not support task type "${task.type}" (supports: ${handle.capabilities.join(', ')})`;
+    if (env.CAPABILITY_VALIDATION === 'warn') {
+      log.warn('Capability contract violated', { agentId: handle.id, taskType: task.type, error });
+      return null;
+    }
+    return violation('capability', error);
+  }
+
+  const schema = handle.capabilitySchemas?.[task.type]?.payload;
+  const errors = validateJsonSchema(schema, task.payload, 'payload');
+  if (errors.length === 0) {
+    return null;
+  }
+
+  if (env.CAPABILITY_VALIDATION === 'warn') {
+    log.warn('Invalid task payload', { agentId: handle.id, taskType: task.type, errors });
+    return null;
+  }
+  return violation('payload', `Invalid payload for ${handle.id}:${task.type}: ${errors.join('; ')}`, errors);
+}
+
+/**
+ * Check the data of a successful result; agents returning data that breaks their contract fail the task
+ */
+export function checkResultContract(handle: AgentHandle, task: AgentTask, result: AgentResult): AgentResult {
+  if (env.CAPABILITY_VALIDATION === 'off' || !result.success) {
+    return result;
+  }
+
+  const schema = handle.capabilitySchemas?.[task.type]?.result;
+  const errors = validateJsonSchema(schema, result.data, 'data');
+  if (errors.length === 0) {
+    return result;
+  }
+
+  log.warn('Agent result violates its capability contract', { agentId: handle.id, taskType: task.type, errors });
+  if (env.CAPABILITY_VALIDATION === 'warn') {
+    return result;
+  }
+
+  return {
+    ...result,
+    success: false,
+    error: `Invalid result from ${handle.id}:${task.type}: ${errors.join('; ')}`,
+    metadata: { ...result.metadata, contractViolation: 'result', validationErrors: errors },
+  };
+}
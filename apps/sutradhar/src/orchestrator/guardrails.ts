@@ -0,0 +1,152 @@
+/**
+ * Guardrail Stage - Checks the end user's text in a task before dispatch
+ * Agents opt in with config.guardrails (see policy.ts); GUARDRAILS_MODE=warn only reports failures, off skips
+ * The outcome is returned in AgentResult.metadata.guardrails
+ */
+
+import { AgentHandle, AgentResult, AgentTask, GuardrailPolicy } from './types';
+import { checkGuardrails, guardrailRegistry, GuardrailResult } from '../core/guardrails';
+import { env } from '../env';
+import { log } from '../log';
+
+export type GuardrailOutcome = 'allow' | 'warn' | 'block';
+
+export interface GuardrailReport {
+  outcome: GuardrailOutcome;
+  persona: string;
+  guardrail?: string;
+  category?: string;
+  severity?: string;
+  reason?: string;
+  degraded?: boolean; // The guardrail system failed and let the task through
+  latency: number;
+}
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+function readPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], value);
+}
+
+/**
+ * Text at a payload path; a message list (e.g. client-supplied history) contributes its user turns
+ */
+function textsAt(payload: any, path: string): any[] {
+  const value = readPath(payload, path);
+  return Array.isArray(value)
+    ? value.filter(message => message?.role === 'user').map(message => message.content)
+    : [value];
+}
+
+/**
+ * The end user's text in a task, or null when the task isn't checked
+ */
+function guardedInput(policy: GuardrailPolicy, task: AgentTask): string | null {
+  if (!policy.taskTypes.includes(task.type)) {
+    return null;
+  }
+
+  const parts = policy.input
+    .flatMap(path => textsAt(task.payload, path))
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+  return parts.length > 0 ? parts.join('\n') : null;
+}
+
+/**
+ * A persona from the task's context wins when it is configured; an unknown one would run every guardrail
+ */
+function resolvePersona(policy: GuardrailPolicy, task: AgentTask): string {
+  const requested = task.context?.persona;
+  return typeof requested === 'string' && guardrailRegistry.getPersonaConfig(requested)
+    ? requested.toLowerCase()
+    : policy.persona;
+}
+
+function outcomeOf(result: GuardrailResult): GuardrailOutcome {
+  if (result.allowed) {
+    return 'allow';
+  }
+  if (env.GUARDRAILS_MODE === 'warn') {
+    return 'warn';
+  }
+  // A failure without a severity is treated as the most severe
+  const severity = SEVERITIES.indexOf(result.severity ?? 'critical');
+  return severity >= SEVERITIES.indexOf(env.GUARDRAILS_BLOCK_SEVERITY) ? 'block' : 'warn';
+}
+
+/**
+ * Check a task before dispatch, returns a refused result if a guardrail blocks it
+ * `report` is set whenever guardrails ran, for the caller to attach to the agent's result
+ */
+export async function checkTaskGuardrails(
+  handle: AgentHandle,
+  task: AgentTask
+): Promise<{ rejected: AgentResult | null; report?: GuardrailReport }> {
+  const policy = handle.policy?.guardrails;
+  if (env.GUARDRAILS_MODE === 'off' || !policy) {
+    return { rejected: null };
+  }
+
+  const input = guardedInput(policy, task);
+  if (input === null) {
+    return { rejected: null };
+  }
+
+  const persona = resolvePersona(policy, task);
+  const startTime = Date.now();
+  const result = await checkGuardrails(input, undefined, persona, {
+    stage: 'input',
+    // Repeat detection is per session; without one, users are kept apart by their ID
+    sessionId: task.context?.sessionId || task.context?.userId,
+    userId: task.context?.userId,
+  });
+
+  const outcome = outcomeOf(result);
+  const report: GuardrailReport = {
+    outcome,
+    persona,
+    ...(!result.allowed && {
+      guardrail: result.metadata?.guardrail,
+      category: result.category,
+      severity: result.severity,
+      reason: result.reason,
+    }),
+    ...(result.metadata?.degraded && { degraded: true }),
+    latency: Date.now() - startTime,
+  };
+
+  if (outcome === 'allow') {
+    return { rejected: null, report };
+  }
+
+  log.warn(outcome === 'block' ? 'Task blocked by guardrail' : 'Task flagged by guardrail', {
+    agentId: handle.id,
+    taskId: task.id,
+    taskType: task.type,
+    persona,
+    guardrail: report.guardrail,
+    category: report.category,
+    severity: report.severity,
+  });
+
+  if (outcome === 'warn') {
+    return { rejected: null, report };
+  }
+
+  // Refused like an exhausted budget: not retried, not failed over and not held against the agent's health
+  return {
+    rejected: {
+      success: false,
+      error: result.reason || `Blocked by guardrail ${report.guardrail || report.category}`,
+      metadata: { agentId: handle.id, refused: true, guardrails: report },
+    },
+    report,
+  };
+}
+
+/**
+ * Attach the guardrail report to the agent's result
+ */
+export function withGuardrailReport(result: AgentResult, report?: GuardrailReport): AgentResult {
+  return report ? { ...result, metadata: { ...result.metadata, guardrails: report } } : result;
+}
@@ -0,0 +1,123 @@
+/**
+ * Job Manager - Runs tasks in the background and tracks them by job ID
+ */
+
+import { randomBytes } from 'crypto';
+import { AgentJob, AgentTask, AgentResult, ExecuteOptions } from './types';
+import { IJobStore } from './job-store';
+import { env } from '../env';
+import { log } from '../log';
+
+type ExecuteFn = (agentId: string, task: AgentTask, options: ExecuteOptions) => Promise<AgentResult>;
+
+const TERMINAL_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+export class JobManager {
+  // Abort controllers for jobs running on this instance
+  private running: Map<string, AbortController> = new Map();
+
+  constructor(
+    private readonly store: IJobStore,
+    private readonly executeFn: ExecuteFn
+  ) {}
+
+  /**
+   * Queue a task and start it in the background
+   */
+  async submit(agentId: string, task: AgentTask, options: { timeoutMs?: number } = {}): Promise<AgentJob> {
+    const job: AgentJob = {
+      id: `job_${randomBytes(12).toString('base64url')}`,
+      agentId,
+      task,
+      status: 'queued',
+      timeoutMs: options.timeoutMs ?? env.JOB_TIMEOUT_MS,
+      createdAt: Date.now(),
+    };
+
+    await this.store.save(job);
+    log.info('Job submitted', { jobId: job.id, agentId, taskType: task.type });
+
+    // Run on the next tick so the caller gets the job ID right away
+    setImmediate(() => {
+      this.run(job).catch(error => {
+        log.error('Job runner failed', { jobId: job.id, error: error.message });
+      });
+    });
+
+    return job;
+  }
+
+  async get(jobId: string): Promise<AgentJob | null> {
+    return await this.store.get(jobId);
+  }
+
+  /**
+   * Cancel a job; finished jobs are returned unchanged
+   */
+  async cancel(jobId: string): Promise<AgentJob | null> {
+    const job = await this.store.get(jobId);
+    if (!job || TERMINAL_STATUSES.includes(job.status)) {
+      return job;
+    }
+
+    job.status = 'cancelled';
+    job.finishedAt = Date.now();
+    await this.store.save(job);
+
+    this.running.get(jobId)?.abort();
+    log.info('Job cancelled', { jobId, agentId: job.agentId });
+
+    return job;
+  }
+
+  private async run(job: AgentJob): Promise<void> {
+    // Cancelled while queued
+    const current = await this.store.get(job.id);
+    if (current?.status === 'cancelled') return;
+
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    job.status = 'running';
+    job.startedAt = Date.now();
+    await this.store.save(job);
+
+    const cancelled = new Promise<AgentResult>(resolve => {
+      controller.signal.addEventListener('abort', () => {
+        resolve({ success: false, error: 'Job cancelled' });
+      });
+    });
+
+    let result: AgentResult;
+    try {
+      // In-process agents can't be interrupted, so stop waiting on cancel
+      result = await Promise.race([
+        this.executeFn(job.agentId, job.task, { timeoutMs: job.timeoutMs, signal: controller.signal }),
+        cancelled,
+      ]);
+    } catch (error: any) {
+      result = { success: false, error: error.message || 'Job execution failed' };
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    // Another instance may have cancelled the job in the shared store
+    const latest = await this.store.get(job.id);
+    if (controller.signal.aborted || latest?.status === 'cancelled') {
+      return;
+    }
+
+    job.status = result.success ? 'succeeded' : 'failed';
+    job.result = result;
+    job.error = result.success ? undefined : result.error;
+    job.finishedAt = Date.now();
+    await this.store.save(job);
+
+    log.info('Job finished', {
+      jobId: job.id,
+      agentId: job.agentId,
+      status: job.status,
+      durationMs: job.finishedAt - (job.startedAt || job.createdAt),
+    });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Job Store - Persistence for background task jobs
+ * Backed by the core cache layer (in-memory or Redis)
+ */
+
+import { AgentJob } from './types';
+import { ICache, MemoryCache, RedisCache } from '../core/cache';
+import { env } from '../env';
+import { log } from '../log';
+
+export interface IJobStore {
+  save(job: AgentJob): Promise<void>;
+  get(id: string): Promise<AgentJob | null>;
+  delete(id: string): Promise<void>;
+}
+
+export class CacheJobStore implements IJobStore {
+  constructor(
+    private readonly cache: ICache,
+    private readonly ttlSeconds: number
+  ) {}
+
+  async save(job: AgentJob): Promise<void> {
+    await this.cache.set(this.key(job.id), job, this.ttlSeconds);
+  }
+
+  async get(id: string): Promise<AgentJob | null> {
+    return await this.cache.get<AgentJob>(this.key(id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.cache.delete(this.key(id));
+  }
+
+  private key(id: string): string {
+    return `job:${id}`;
+  }
+}
+
+/**
+ * Create the job store selected by JOB_STORE (memory | redis)
+ */
+export function createJobStore(): IJobStore {
+  const ttl = env.JOB_TTL_SECONDS;
+
+  if (env.JOB_STORE === 'redis') {
+    if (env.REDIS_URL) {
+      log.info('Initializing Redis job store');
+      return new CacheJobStore(new RedisCache(env.REDIS_URL, ttl), ttl);
+    }
+    log.warn('JOB_STORE=redis but REDIS_URL is not set, falling back to in-memory job store');
+  }
+
+  return new CacheJobStore(new MemoryCache(ttl), ttl);
+}
@@ -0,0 +1,108 @@
+/**
+ * Load Balancer - Picks among agent instances that can serve a task
+ * Tracks per-agent latency and success rate from completed executions
+ */
+
+import { AgentHandle, RoutingStrategy } from './types';
+
+export interface AgentRoutingStats {
+  requests: number;
+  failures: number;
+  latencyMs?: number;  // Exponentially weighted moving average
+  successRate: number; // Exponentially weighted moving average, 0..1
+  lastUsed?: number;
+}
+
+// Weight of the newest sample in the moving averages
+const EWMA_ALPHA = 0.3;
+
+// Relative weight of instances whose health has not been checked yet
+const UNKNOWN_HEALTH_WEIGHT = 0.5;
+
+export class LoadBalancer {
+  private stats: Map<string, AgentRoutingStats> = new Map();
+  private cursors: Map<string, number> = new Map();
+
+  /**
+   * Order candidates by preference; unhealthy instances are dropped
+   * The first entry is the pick, the rest are failover targets
+   */
+  order(candidates: AgentHandle[], strategy: RoutingStrategy, key: string): AgentHandle[] {
+    const available = candidates.filter(handle => handle.health?.status !== 'unhealthy');
+    if (available.length <= 1) {
+      return available;
+    }
+
+    switch (strategy) {
+      case 'least-latency':
+        // Instances without samples go first so they get measured
+        return [...available].sort((a, b) =>
+          (this.getStats(a.id).latencyMs ?? 0) - (this.getStats(b.id).latencyMs ?? 0)
+        );
+
+      case 'health-weighted':
+        return this.weightedOrder(available);
+
+      case 'round-robin':
+      default: {
+        const cursor = this.cursors.get(key) ?? 0;
+        this.cursors.set(key, (cursor + 1) % available.length);
+        const start = cursor % available.length;
+        return [...available.slice(start), ...available.slice(0, start)];
+      }
+    }
+  }
+
+  /**
+   * Record the outcome of an execution
+   */
+  record(agentId: string, latencyMs: number, success: boolean): void {
+    const stats = this.getStats(agentId);
+    stats.requests++;
+    if (!success) stats.failures++;
+    stats.latencyMs = stats.latencyMs === undefined
+      ? latencyMs
+      : EWMA_ALPHA * latencyMs + (1 - EWMA_ALPHA) * stats.latencyMs;
+    stats.successRate = EWMA_ALPHA * (success ? 1 : 0) + (1 - EWMA_ALPHA) * stats.successRate;
+    stats.lastUsed = Date.now();
+  }
+
+  getStats(agentId: string): AgentRoutingStats {
+    let stats = this.stats.get(agentId);
+    if (!stats) {
+      stats = { requests: 0, failures: 0, successRate: 1 };
+      this.stats.set(agentId, stats);
+    }
+    return stats;
+  }
+
+  forget(agentId: string): void {
+    this.stats.delete(agentId);
+  }
+
+  /**
+   * Weighted random pick by health and recent success rate, remaining instances by weight
+   */
+  private weightedOrder(available: AgentHandle[]): AgentHandle[] {
+    const weighted = available.map(handle => ({
+      handle,
+      weight: (handle.health?.status === 'healthy' ? 1 : UNKNOWN_HEALTH_WEIGHT) *
+        Math.max(this.getStats(handle.id).successRate, 0.01),
+    }));
+
+    const total = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+    let target = Math.random() * total;
+    let pickIndex = weighted.length - 1;
+    for (let i = 0; i < weighted.length; i++) {
+      target -= weighted[i].weight;
+      if (target <= 0) {
+        pickIndex = i;
+        break;
+      }
+    }
+
+    const [pick] = weighted.splice(pickIndex, 1);
+    weighted.sort((a, b) => b.weight - a.weight);
+    return [pick.handle, ...weighted.map(entry => entry.handle)];
+  }
+}
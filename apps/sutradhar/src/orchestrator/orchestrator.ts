@@ -3,30 +3,250 @@
  */
 
 import { agentRegistry } from './registry';
-import { AgentDefinition, AgentTask, AgentResult, AgentHandle } from './types';
+import {
+  AgentDefinition,
+  AgentTask,
+  AgentResult,
+  AgentHandle,
+  AgentJob,
+  AgentStreamEvent,
+  AgentSelector,
+  ExecuteOptions,
+  HealthStatus,
+  WorkflowDefinition,
+  WorkflowRun,
+} from './types';
 import { InProcessRuntime } from './runtime/in-process';
 import { HttpRuntime } from './runtime/http';
+import { ProcessRuntime, assertCommandAllowed } from './runtime/process';
+import { ContainerRuntime, assertImageAllowed } from './runtime/container';
+import { JobManager } from './job-manager';
+import { createJobStore } from './job-store';
+import { WorkflowEngine } from './workflow-engine';
+import { LoadBalancer, AgentRoutingStats } from './load-balancer';
+import { IAgentDefinitionStore, createAgentDefinitionStore, isPersistable, persistedDefinition } from './agent-store';
+import { isRetryable, backoffDelay } from './policy';
+import { checkTaskContract, checkResultContract } from './contract';
+import { checkTaskGuardrails, withGuardrailReport } from './guardrails';
+import { circuitBreakerRegistry, CircuitBreaker } from '../core/circuit-breaker';
+import { env } from '../env';
+import { log } from '../log';
 
 export class Orchestrator {
   private inProcessRuntime: InProcessRuntime;
   private httpRuntime: HttpRuntime;
+  private processRuntime: ProcessRuntime;
+  private containerRuntime: ContainerRuntime;
+  private jobManager: JobManager;
+  private workflowEngine: WorkflowEngine;
+  private loadBalancer: LoadBalancer = new LoadBalancer();
+  private healthTimer: NodeJS.Timeout | null = null;
+  private definitionStore: IAgentDefinitionStore | null;
+  // Persisted agents that could not be started yet; retried on every health tick
+  private pendingRestore: Map<string, AgentDefinition> = new Map();
+  // Pending agents evicted for failing health checks; they come back once they pass one again
+  private evicted: Set<string> = new Set();
+  private healthFailures: Map<string, number> = new Map();
 
   constructor() {
     this.inProcessRuntime = new InProcessRuntime();
     this.httpRuntime = new HttpRuntime();
+    this.processRuntime = new ProcessRuntime();
+    this.containerRuntime = new ContainerRuntime();
+    this.jobManager = new JobManager(
+      createJobStore(),
+      (agentId, task, options) => this.executeTask(agentId, task, options)
+    );
+    this.workflowEngine = new WorkflowEngine(
+      (agentId, task, options) => this.executeTask(agentId, task, options)
+    );
+    this.definitionStore = createAgentDefinitionStore((agentId, task) => this.executeTask(agentId, task));
   }
 
   /**
    * Register a new agent
+   * Non in-process agents are persisted and restored on the next boot
    */
   async registerAgent(definition: AgentDefinition): Promise<AgentHandle> {
-    return await agentRegistry.register(definition);
+    const handle = await agentRegistry.register(definition);
+    // A new definition may change breaker thresholds
+    circuitBreakerRegistry.remove(`agent:${definition.id}`);
+    this.pendingRestore.delete(definition.id);
+    this.evicted.delete(definition.id);
+    this.healthFailures.delete(definition.id);
+
+    if (this.definitionStore && isPersistable(definition)) {
+      await this.definitionStore.save(persistedDefinition(definition)).catch(error => {
+        log.warn(`Failed to persist agent ${definition.id}`, { error: error.message });
+      });
+    }
+
+    return handle;
+  }
+
+  /**
+   * Unregister an agent and release its runtime resources
+   */
+  async unregisterAgent(id: string): Promise<void> {
+    const handle = agentRegistry.get(id);
+    await agentRegistry.unregister(id);
+    this.loadBalancer.forget(id);
+    circuitBreakerRegistry.remove(`agent:${id}`);
+    this.healthFailures.delete(id);
+
+    const wasPending = this.pendingRestore.delete(id);
+    this.evicted.delete(id);
+    if (this.definitionStore && (wasPending || (handle && handle.runtime !== 'in-process'))) {
+      await this.definitionStore.delete(id).catch(error => {
+        log.warn(`Failed to remove persisted agent ${id}`, { error: error.message });
+      });
+    }
+  }
+
+  /**
+   * Re-register agents persisted by a previous run
+   * Agents that fail to start are retried by the health monitor
+   */
+  async restoreAgents(): Promise<{ restored: string[]; pending: string[] }> {
+    if (!this.definitionStore) {
+      return { restored: [], pending: [] };
+    }
+
+    let definitions: AgentDefinition[];
+    try {
+      definitions = await this.definitionStore.load();
+    } catch (error: any) {
+      log.error(`Failed to load persisted agents from ${this.definitionStore.name} store`, { error: error.message });
+      return { restored: [], pending: [] };
+    }
+
+    const restored: string[] = [];
+    for (const definition of definitions) {
+      if (agentRegistry.get(definition.id)) continue;
+      // The store may predate the current allow-lists (or have been edited); such agents are never retried
+      try {
+        if (definition.runtime === 'process') assertCommandAllowed(definition);
+        if (definition.runtime === 'container') assertImageAllowed(definition);
+      } catch (error: any) {
+        log.warn(`Not restoring agent ${definition.id}`, { error: error.message });
+        continue;
+      }
+      if (await this.tryRestore(definition)) {
+        restored.push(definition.id);
+      }
+    }
+
+    log.info('Persisted agents restored', {
+      store: this.definitionStore.name,
+      restored,
+      pending: Array.from(this.pendingRestore.keys()),
+    });
+    return { restored, pending: Array.from(this.pendingRestore.keys()) };
+  }
+
+  private async tryRestore(definition: AgentDefinition): Promise<boolean> {
+    try {
+      await agentRegistry.register(definition);
+      if (this.evicted.has(definition.id) && (await this.checkHealth(definition.id)).status === 'unhealthy') {
+        await agentRegistry.unregister(definition.id);
+        return false;
+      }
+      this.pendingRestore.delete(definition.id);
+      this.evicted.delete(definition.id);
+      return true;
+    } catch (error: any) {
+      if (!this.pendingRestore.has(definition.id)) {
+        log.warn(`Failed to restore agent ${definition.id}, will retry`, { error: error.message });
+      }
+      this.pendingRestore.set(definition.id, definition);
+      return false;
+    }
+  }
+
+  /**
+   * Stop all agents (called on shutdown)
+   */
+  async shutdown(): Promise<void> {
+    this.stopHealthMonitor();
+    await agentRegistry.shutdown();
+  }
+
+  /**
+   * Periodically refresh every agent's health so routing can skip unhealthy instances
+   */
+  startHealthMonitor(intervalMs: number = env.AGENT_HEALTH_INTERVAL_MS): void {
+    this.stopHealthMonitor();
+    if (intervalMs <= 0) return;
+
+    this.healthTimer = setInterval(() => {
+      for (const handle of agentRegistry.list()) {
+        this.revalidate(handle).catch(error => {
+          log.warn(`Health check failed for agent ${handle.id}`, { error: error.message });
+        });
+      }
+      for (const definition of Array.from(this.pendingRestore.values())) {
+        this.tryRestore(definition).catch(() => {});
+      }
+    }, intervalMs);
+    this.healthTimer.unref();
+  }
+
+  /**
+   * Refresh an agent's health; persisted agents failing too many checks in a row are dropped
+   */
+  private async revalidate(handle: AgentHandle): Promise<void> {
+    const health = await this.checkHealth(handle.id);
+    if (handle.runtime === 'in-process') return;
+
+    if (health.status !== 'unhealthy') {
+      this.healthFailures.delete(handle.id);
+      return;
+    }
+
+    const failures = (this.healthFailures.get(handle.id) ?? 0) + 1;
+    this.healthFailures.set(handle.id, failures);
+
+    if (env.AGENT_EVICT_AFTER_FAILURES > 0 && failures >= env.AGENT_EVICT_AFTER_FAILURES) {
+      log.warn(`Evicting agent ${handle.id} after ${failures} failed health checks`, { error: health.error });
+      await this.evictAgent(handle.id);
+    }
+  }
+
+  /**
+   * Stop an agent but keep its persisted definition: an outage shouldn't undo an operator's registration
+   * The health monitor restores it once it passes a health check again
+   */
+  private async evictAgent(id: string): Promise<void> {
+    const definitions = this.definitionStore
+      ? await this.definitionStore.load().catch(error => {
+          log.warn(`Failed to load persisted agents from ${this.definitionStore!.name} store`, { error: error.message });
+          return [] as AgentDefinition[];
+        })
+      : [];
+    const definition = definitions.find(candidate => candidate.id === id);
+
+    await agentRegistry.unregister(id);
+    this.loadBalancer.forget(id);
+    circuitBreakerRegistry.remove(`agent:${id}`);
+    this.healthFailures.delete(id);
+
+    if (definition) {
+      this.pendingRestore.set(id, definition);
+      this.evicted.add(id);
+    }
+  }
+
+  stopHealthMonitor(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
   }
 
   /**
    * Execute a task via an agent
    */
-  async executeTask(agentId: string, task: AgentTask): Promise<AgentResult> {
+  async executeTask(agentId: string, task: AgentTask, options: ExecuteOptions = {}): Promise<AgentResult> {
     const handle = agentRegistry.get(agentId);
     if (!handle) {
       return {
@@ -35,12 +255,227 @@ export class Orchestrator {
       };
     }
 
+    const rejected = checkTaskContract(handle, task);
+    if (rejected) {
+      return rejected;
+    }
+
+    const guarded = await checkTaskGuardrails(handle, task);
+    if (guarded.rejected) {
+      return guarded.rejected;
+    }
+
+    // The registry resolves every handle's policy on register
+    const policy = handle.policy!;
+    const breaker = this.getCircuitBreaker(handle);
+    const timeoutMs = options.timeoutMs ?? policy.timeoutMs;
+    // Only idempotent tasks are retried: a timed-out in-process attempt keeps running after it is abandoned
+    const maxAttempts = isRetryable(policy, task) ? policy.retry.maxAttempts : 1;
+
+    let result: AgentResult = { success: false, error: 'Task not attempted' };
+    let attempt = 0;
+    while (attempt < maxAttempts) {
+      attempt++;
+
+      if (breaker && !breaker.allowRequest()) {
+        result = {
+          success: false,
+          error: `Circuit breaker open for agent ${agentId}`,
+          metadata: { circuitBreaker: 'open' },
+        };
+        break;
+      }
+
+      const startTime = Date.now();
+      result = await this.attempt(handle, task, timeoutMs, options.signal);
+      const healthy = this.isHealthyResult(result);
+      breaker?.recordResult(healthy);
+      this.loadBalancer.record(agentId, Date.now() - startTime, healthy);
+
+      if (healthy || options.signal?.aborted || attempt >= maxAttempts) {
+        break;
+      }
+
+      const delay = backoffDelay(policy.retry, attempt);
+      log.warn(`Agent ${agentId} attempt ${attempt} failed, retrying in ${delay}ms`, {
+        taskId: task.id,
+        taskType: task.type,
+        error: result.error,
+      });
+      await this.sleep(delay, options.signal);
+    }
+
+    if (attempt > 1) {
+      result = { ...result, metadata: { ...result.metadata, attempts: attempt } };
+    }
+    return withGuardrailReport(checkResultContract(handle, task, result), guarded.report);
+  }
+
+  /**
+   * Deliberate refusals (e.g. an exhausted budget) and payloads the agent rejected aren't agent faults: no retry, no breaker failure
+   */
+  private isHealthyResult(result: AgentResult): boolean {
+    return result.success || result.metadata?.refused === true || result.metadata?.contractViolation === 'payload';
+  }
+
+  /**
+   * Circuit breaker state and policy for an agent (null if the agent has no breaker)
+   */
+  getCircuitBreakerStats(agentId: string): ReturnType<CircuitBreaker['getStats']> | null {
+    const handle = agentRegistry.get(agentId);
+    const breaker = handle ? this.getCircuitBreaker(handle) : null;
+    return breaker ? breaker.getStats() : null;
+  }
+
+  /**
+   * One attempt with the timeout enforced here, so in-process agents are bounded too
+   */
+  private async attempt(handle: AgentHandle, task: AgentTask, timeoutMs: number, signal?: AbortSignal): Promise<AgentResult> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<AgentResult>(resolve => {
+      timeoutId = setTimeout(() => {
+        controller.abort();
+        resolve({
+          success: false,
+          error: `Agent ${handle.id} timed out after ${timeoutMs}ms`,
+          metadata: { timedOut: true },
+        });
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.dispatch(handle, task, { timeoutMs, signal: controller.signal }).catch((error: any): AgentResult => ({
+          success: false,
+          error: error.message || 'Agent execution failed',
+        })),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private getCircuitBreaker(handle: AgentHandle): CircuitBreaker | null {
+    const config = handle.policy?.circuitBreaker;
+    if (!config) return null;
+
+    return circuitBreakerRegistry.get(`agent:${handle.id}`, {
+      failureThreshold: config.failureThreshold,
+      successThreshold: config.successThreshold,
+      resetTimeout: config.resetTimeoutMs,
+    });
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * Execute a task on any agent matching the selector
+   * Instances are tried in the order chosen by the routing strategy until one succeeds
+   * `allow` narrows the candidates further (e.g. to agents the caller is authorized for)
+   */
+  async executeRouted(
+    selector: AgentSelector,
+    task: AgentTask,
+    options: ExecuteOptions = {},
+    allow?: (agentId: string) => boolean
+  ): Promise<AgentResult> {
+    const candidates = this.resolveSelector(selector, task.type, allow);
+    if (candidates.length === 0) {
+      return {
+        success: false,
+        error: `No healthy agent available for ${this.describeSelector(selector, task.type)}`,
+      };
+    }
+
+    let result: AgentResult = { success: false, error: 'No agent attempted' };
+    let attempts = 0;
+    for (const handle of candidates) {
+      attempts++;
+      result = await this.executeTask(handle.id, task, options);
+      result = {
+        ...result,
+        metadata: { ...result.metadata, routedTo: handle.id, attempts },
+      };
+
+      // A payload rejected by one instance's contract, or a deliberate refusal, is not worth sending to the next
+      if (result.success || options.signal?.aborted || result.metadata?.contractViolation === 'payload' || result.metadata?.refused === true) {
+        break;
+      }
+
+      if (attempts < candidates.length) {
+        log.warn(`Agent ${handle.id} failed, failing over`, { taskType: task.type, error: result.error });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Pick the agent the routing strategy would use for a task (first failover candidate)
+   */
+  selectAgent(
+    selector: AgentSelector,
+    taskType: string,
+    allow?: (agentId: string) => boolean
+  ): AgentHandle | undefined {
+    return this.resolveSelector(selector, taskType, allow)[0];
+  }
+
+  /**
+   * Routing statistics (latency, success rate) for an agent
+   */
+  getRoutingStats(agentId: string): AgentRoutingStats {
+    return this.loadBalancer.getStats(agentId);
+  }
+
+  private resolveSelector(
+    selector: AgentSelector,
+    taskType: string,
+    allow?: (agentId: string) => boolean
+  ): AgentHandle[] {
+    const capability = selector.capability ?? taskType;
+    // Instances with an open breaker are skipped like unhealthy ones
+    const candidates = agentRegistry.find(selector.type, capability)
+      .filter(handle => !allow || allow(handle.id))
+      .filter(handle => this.getCircuitBreaker(handle)?.getState() !== 'open');
+    return this.loadBalancer.order(
+      candidates,
+      selector.strategy ?? env.ROUTING_STRATEGY,
+      `${selector.type ?? '*'}:${capability}`
+    );
+  }
+
+  private describeSelector(selector: AgentSelector, taskType: string): string {
+    return `type=${selector.type ?? '*'} capability=${selector.capability ?? taskType}`;
+  }
+
+  private async dispatch(handle: AgentHandle, task: AgentTask, options: ExecuteOptions): Promise<AgentResult> {
     // Route to appropriate runtime
     switch (handle.runtime) {
       case 'in-process':
         return await this.inProcessRuntime.execute(handle, task);
       case 'http':
-        return await this.httpRuntime.execute(handle, task);
+        return await this.httpRuntime.execute(handle, task, options);
+      case 'container':
+        return await this.containerRuntime.execute(handle, task, options);
+      case 'process':
+        return await this.processRuntime.execute(handle, task, options);
       default:
         return {
           success: false,
@@ -49,6 +484,170 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Execute a task and stream its output
+   * Only in-process agents stream today; other runtimes emit one `result` event
+   */
+  async *executeTaskStream(agentId: string, task: AgentTask, options: ExecuteOptions = {}): AsyncGenerator<AgentStreamEvent> {
+    const handle = agentRegistry.get(agentId);
+    if (!handle) {
+      yield { type: 'result', result: { success: false, error: `Agent not found: ${agentId}` } };
+      return;
+    }
+
+    const rejected = checkTaskContract(handle, task);
+    if (rejected) {
+      yield { type: 'result', result: rejected };
+      return;
+    }
+
+    if (handle.runtime === 'in-process') {
+      const guarded = await checkTaskGuardrails(handle, task);
+      if (guarded.rejected) {
+        yield { type: 'result', result: guarded.rejected };
+        return;
+      }
+
+      for await (const event of this.streamAttempt(handle, task, options)) {
+        yield event.type === 'result'
+          ? { type: 'result', result: withGuardrailReport(checkResultContract(handle, task, event.result), guarded.report) }
+          : event;
+      }
+      return;
+    }
+
+    yield { type: 'result', result: await this.executeTask(agentId, task, options) };
+  }
+
+  /**
+   * One streamed attempt under the agent's policy: breaker, timeout and routing stats as in executeTask
+   * Streams are never retried, since deltas may already have reached the caller
+   * On timeout, or when the caller stops reading, the agent's stream is closed so it stops generating
+   */
+  private async *streamAttempt(handle: AgentHandle, task: AgentTask, options: ExecuteOptions): AsyncGenerator<AgentStreamEvent> {
+    const breaker = this.getCircuitBreaker(handle);
+    if (breaker && !breaker.allowRequest()) {
+      yield {
+        type: 'result',
+        result: {
+          success: false,
+          error: `Circuit breaker open for agent ${handle.id}`,
+          metadata: { circuitBreaker: 'open' },
+        },
+      };
+      return;
+    }
+
+    const timeoutMs = options.timeoutMs ?? handle.policy!.timeoutMs;
+    const stream = this.inProcessRuntime.executeStream(handle, task);
+    const startTime = Date.now();
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<AgentResult>(resolve => {
+      timeoutId = setTimeout(() => resolve({
+        success: false,
+        error: `Agent ${handle.id} timed out after ${timeoutMs}ms`,
+        metadata: { timedOut: true },
+      }), timeoutMs);
+      onAbort = () => resolve({ success: false, error: 'Task cancelled', metadata: { cancelled: true } });
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    let result: AgentResult | undefined;
+    try {
+      while (!result) {
+        const next = await Promise.race([
+          stream.next().catch((error: any): IteratorResult<AgentStreamEvent> => ({
+            done: false,
+            value: { type: 'result', result: { success: false, error: error.message || 'Agent execution failed' } },
+          })),
+          stopped.then((stop): IteratorResult<AgentStreamEvent> => ({ done: false, value: { type: 'result', result: stop } })),
+        ]);
+
+        if (next.done) {
+          result = { success: false, error: `Agent ${handle.id} ended its stream without a result` };
+        } else if (next.value.type === 'result') {
+          result = next.value.result;
+        } else {
+          yield next.value;
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      if (onAbort) options.signal?.removeEventListener('abort', onAbort);
+      // Stop the agent when it timed out or the caller went away; a pending chunk is awaited in the background
+      if (!result || result.metadata?.timedOut || result.metadata?.cancelled) {
+        stream.return(undefined).catch(() => {});
+      }
+    }
+
+    const healthy = this.isHealthyResult(result) || result.metadata?.cancelled === true;
+    breaker?.recordResult(healthy);
+    this.loadBalancer.record(handle.id, Date.now() - startTime, healthy);
+    yield { type: 'result', result };
+  }
+
+  /**
+   * Submit a task for background execution, returns immediately with a job
+   */
+  async submitTask(agentId: string, task: AgentTask, options: { timeoutMs?: number } = {}): Promise<AgentJob> {
+    return await this.jobManager.submit(agentId, task, options);
+  }
+
+  /**
+   * Get a background job by ID
+   */
+  async getJob(jobId: string): Promise<AgentJob | null> {
+    return await this.jobManager.get(jobId);
+  }
+
+  /**
+   * Cancel a queued or running background job
+   */
+  async cancelJob(jobId: string): Promise<AgentJob | null> {
+    return await this.jobManager.cancel(jobId);
+  }
+
+  /**
+   * Register (or replace) a workflow definition; throws if it is invalid
+   */
+  registerWorkflow(definition: WorkflowDefinition): WorkflowDefinition {
+    return this.workflowEngine.register(definition);
+  }
+
+  /**
+   * Remove a workflow definition
+   */
+  unregisterWorkflow(id: string): boolean {
+    return this.workflowEngine.unregister(id);
+  }
+
+  /**
+   * Get workflow definition by ID
+   */
+  getWorkflow(id: string): WorkflowDefinition | undefined {
+    return this.workflowEngine.get(id);
+  }
+
+  /**
+   * List all workflow definitions
+   */
+  listWorkflows(): WorkflowDefinition[] {
+    return this.workflowEngine.list();
+  }
+
+  /**
+   * Run a registered workflow and wait for it to finish
+   */
+  async runWorkflow(workflowId: string, input: any = {}, context: AgentTask['context'] = {}): Promise<WorkflowRun | null> {
+    const definition = this.workflowEngine.get(workflowId);
+    if (!definition) {
+      return null;
+    }
+    return await this.workflowEngine.run(definition, input, context);
+  }
+
   /**
    * Get agent by ID
    */
@@ -71,7 +670,14 @@ export class Orchestrator {
   }
 
   /**
-   * Check agent health
+   * All agents matching a selector, before health and routing are considered
+   */
+  findAgents(selector: AgentSelector, taskType: string): AgentHandle[] {
+    return agentRegistry.find(selector.type, selector.capability ?? taskType);
+  }
+
+  /**
+   * Check agent health (the result is kept on the handle for routing)
    */
   async checkHealth(agentId: string): Promise<any> {
     const handle = agentRegistry.get(agentId);
@@ -79,11 +685,27 @@ export class Orchestrator {
       return { status: 'unknown', error: 'Agent not found' };
     }
 
+    let health: HealthStatus;
+    try {
+      health = await this.probeHealth(handle);
+    } catch (error: any) {
+      health = { status: 'unhealthy', error: error.message };
+    }
+
+    handle.health = { ...health, lastCheck: health.lastCheck ?? Date.now() };
+    return health;
+  }
+
+  private async probeHealth(handle: AgentHandle): Promise<any> {
     switch (handle.runtime) {
       case 'in-process':
         return await this.inProcessRuntime.health(handle);
       case 'http':
         return await this.httpRuntime.health(handle);
+      case 'container':
+        return await this.containerRuntime.health(handle);
+      case 'process':
+        return await this.processRuntime.health(handle);
       default:
         return { status: 'unknown', error: 'Unsupported runtime' };
     }
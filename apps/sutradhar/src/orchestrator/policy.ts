@@ -0,0 +1,88 @@
+/**
+ * Agent Policies - Timeouts, retries and circuit breakers per agent
+ * Declared in AgentDefinition.config and enforced by the orchestrator for every runtime
+ */
+
+import { AgentDefinition, AgentPolicy, AgentTask, RetryPolicy } from './types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_HEALTH_TIMEOUT_MS = 5000;
+
+const DEFAULT_RETRY: RetryPolicy = {
+  maxAttempts: 1,
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Resolve an agent's policy from its definition, filling in defaults
+ *
+ * config: {
+ *   timeoutMs: 10000,
+ *   healthTimeoutMs: 2000,
+ *   retry: { maxAttempts: 3, initialDelayMs: 200, maxDelayMs: 5000, multiplier: 2, jitter: 0.2 },
+ *   idempotent: ['search'],   // Retries only these task types (default: none; true retries all)
+ *   circuitBreaker: { failureThreshold: 5, successThreshold: 2, resetTimeoutMs: 30000 },
+ *   guardrails: { taskTypes: ['search'], input: ['query'], persona: 'tutor' }, // Off unless declared
+ * }
+ */
+export function resolveAgentPolicy(definition: AgentDefinition): AgentPolicy {
+  const config = definition.config || {};
+  const retry = config.retry || {};
+  const breaker = config.circuitBreaker;
+  const guardrails = config.guardrails;
+
+  return {
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    healthTimeoutMs: config.healthTimeoutMs ?? DEFAULT_HEALTH_TIMEOUT_MS,
+    retry: {
+      maxAttempts: Math.max(1, retry.maxAttempts ?? DEFAULT_RETRY.maxAttempts),
+      initialDelayMs: retry.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs,
+      maxDelayMs: retry.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs,
+      multiplier: retry.multiplier ?? DEFAULT_RETRY.multiplier,
+      jitter: Math.min(1, Math.max(0, retry.jitter ?? DEFAULT_RETRY.jitter)),
+    },
+    // Sends and mutations must not run twice, so retrying is opt-in per task type
+    idempotent: config.idempotent ?? false,
+    // In-process agents fail fast on their own; breakers are opt-in for them
+    circuitBreaker: breaker === false || (breaker === undefined && definition.runtime === 'in-process')
+      ? null
+      : {
+          failureThreshold: breaker?.failureThreshold ?? 5,
+          successThreshold: breaker?.successThreshold ?? 2,
+          resetTimeoutMs: breaker?.resetTimeoutMs ?? 30000,
+        },
+    guardrails: guardrails
+      ? {
+          taskTypes: guardrails.taskTypes ?? [],
+          input: guardrails.input ?? [],
+          persona: guardrails.persona ?? 'default',
+        }
+      : null,
+  };
+}
+
+/**
+ * Whether a failed task may be sent again
+ * Tasks can override the agent's hint with `context.idempotent`
+ */
+export function isRetryable(policy: AgentPolicy, task: AgentTask): boolean {
+  if (typeof task.context?.idempotent === 'boolean') {
+    return task.context.idempotent;
+  }
+  if (Array.isArray(policy.idempotent)) {
+    return policy.idempotent.includes(task.type);
+  }
+  return policy.idempotent;
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with jitter
+ */
+export function backoffDelay(retry: RetryPolicy, attempt: number): number {
+  const base = Math.min(retry.initialDelayMs * Math.pow(retry.multiplier, attempt - 1), retry.maxDelayMs);
+  const spread = base * retry.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
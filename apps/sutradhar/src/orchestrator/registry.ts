@@ -5,21 +5,29 @@
 import { AgentDefinition, AgentHandle } from './types';
 import { InProcessRuntime } from './runtime/in-process';
 import { HttpRuntime } from './runtime/http';
+import { ProcessRuntime } from './runtime/process';
+import { ContainerRuntime } from './runtime/container';
+import { resolveAgentPolicy } from './policy';
 
 export class AgentRegistry {
   private agents: Map<string, AgentHandle> = new Map();
   private inProcessRuntime: InProcessRuntime;
   private httpRuntime: HttpRuntime;
+  private processRuntime: ProcessRuntime;
+  private containerRuntime: ContainerRuntime;
 
   constructor() {
     this.inProcessRuntime = new InProcessRuntime();
     this.httpRuntime = new HttpRuntime();
+    this.processRuntime = new ProcessRuntime();
+    this.containerRuntime = new ContainerRuntime();
   }
 
   /**
    * Register a new agent
    */
   async register(definition: AgentDefinition): Promise<AgentHandle> {
+    // Start the new instance first: if it fails, the one already registered keeps serving
     let handle: AgentHandle;
 
     switch (definition.runtime) {
@@ -30,16 +38,29 @@ export class AgentRegistry {
         handle = await this.httpRuntime.start(definition);
         break;
       case 'container':
-        // TODO: Implement container runtime
-        throw new Error('Container runtime not yet implemented');
+        handle = await this.containerRuntime.start(definition);
+        break;
       case 'process':
-        // TODO: Implement process runtime
-        throw new Error('Process runtime not yet implemented');
+        handle = await this.processRuntime.start(definition);
+        break;
       default:
         throw new Error(`Unknown runtime: ${definition.runtime}`);
     }
 
+    handle.capabilitySchemas = definition.capabilitySchemas ?? handle.instance?.capabilitySchemas?.();
+    // Schemas imply the capability list when none is declared
+    handle.capabilities = definition.capabilities ?? handle.instance?.capabilities?.() ??
+      (handle.capabilitySchemas ? Object.keys(handle.capabilitySchemas) : undefined);
+    handle.policy = resolveAgentPolicy(definition);
+
+    // Re-registering replaces the previous instance (and stops its process)
+    const previous = this.agents.get(definition.id);
     this.agents.set(definition.id, handle);
+    if (previous) {
+      await this.stopInstance(previous).catch(error => {
+        console.warn(`Failed to stop replaced agent ${definition.id}: ${error}`);
+      });
+    }
     return handle;
   }
 
@@ -57,6 +78,17 @@ export class AgentRegistry {
     return Array.from(this.agents.values()).filter(agent => agent.type === type);
   }
 
+  /**
+   * Get agents matching a type and/or capability
+   * Agents that don't declare capabilities are assumed to support any
+   */
+  find(type?: string, capability?: string): AgentHandle[] {
+    return Array.from(this.agents.values()).filter(agent =>
+      (!type || agent.type === type) &&
+      (!capability || !agent.capabilities || agent.capabilities.includes(capability))
+    );
+  }
+
   /**
    * List all agents
    */
@@ -71,7 +103,14 @@ export class AgentRegistry {
     const handle = this.agents.get(id);
     if (!handle) return;
 
-    // Cleanup based on runtime
+    await this.stopInstance(handle);
+    this.agents.delete(id);
+  }
+
+  /**
+   * Release an instance's runtime resources
+   */
+  private async stopInstance(handle: AgentHandle): Promise<void> {
     switch (handle.runtime) {
       case 'in-process':
         // No cleanup needed
@@ -80,14 +119,23 @@ export class AgentRegistry {
         // No cleanup needed
         break;
       case 'container':
-        // TODO: Stop container
+        await this.containerRuntime.stop(handle);
         break;
       case 'process':
-        // TODO: Kill process
+        await this.processRuntime.stop(handle);
         break;
     }
+  }
 
-    this.agents.delete(id);
+  /**
+   * Unregister all agents (stops spawned processes)
+   */
+  async shutdown(): Promise<void> {
+    for (const id of Array.from(this.agents.keys())) {
+      await this.unregister(id).catch(error => {
+        console.warn(`Failed to stop agent ${id}: ${error}`);
+      });
+    }
   }
 }
 
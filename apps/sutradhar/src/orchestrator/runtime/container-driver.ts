@@ -0,0 +1,177 @@
+/**
+ * Container Drivers - Pluggable backends for the container runtime
+ * Docker and Podman share the same CLI surface; the fake driver runs without either
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface ContainerRunOptions {
+  name: string;
+  image: string;
+  env?: Record<string, string>;
+  ports: number[];
+  labels?: Record<string, string>;
+  memory?: string;    // e.g. '512m'
+  cpus?: string;      // e.g. '0.5'
+  network?: string;
+  readOnly?: boolean;
+}
+
+export interface ContainerInfo {
+  id: string;
+  host: string;
+  ports: Record<number, number>; // container port -> host port
+}
+
+export interface IContainerDriver {
+  readonly name: string;
+  run(options: ContainerRunOptions): Promise<ContainerInfo>;
+  stop(id: string, timeoutSeconds?: number): Promise<void>;
+  remove(id: string): Promise<void>;
+  isRunning(id: string): Promise<boolean>;
+}
+
+/**
+ * Docker/Podman CLI driver
+ * Containers are sandboxed: no capabilities, no privilege escalation, ports bound to loopback
+ */
+export class CliContainerDriver implements IContainerDriver {
+  constructor(readonly name: 'docker' | 'podman', private readonly binary: string = name) {}
+
+  async run(options: ContainerRunOptions): Promise<ContainerInfo> {
+    if (options.network === 'host' || options.network?.startsWith('container:')) {
+      throw new Error(`Refusing to share the ${options.network} network namespace with an agent container`);
+    }
+
+    const args = [
+      'run', '-d',
+      '--name', options.name,
+      '--cap-drop', 'ALL',
+      '--security-opt', 'no-new-privileges',
+    ];
+
+    for (const port of options.ports) {
+      args.push('-p', `127.0.0.1::${port}`);
+    }
+    for (const [key, value] of Object.entries(options.env || {})) {
+      args.push('-e', `${key}=${value}`);
+    }
+    for (const [key, value] of Object.entries(options.labels || {})) {
+      args.push('--label', `${key}=${value}`);
+    }
+    if (options.memory) args.push('--memory', options.memory);
+    if (options.cpus) args.push('--cpus', options.cpus);
+    if (options.network) args.push('--network', options.network);
+    if (options.readOnly) args.push('--read-only');
+
+    args.push(options.image);
+
+    const id = (await this.exec(args)).trim();
+    const ports: Record<number, number> = {};
+
+    try {
+      for (const port of options.ports) {
+        ports[port] = await this.resolveHostPort(id, port);
+      }
+    } catch (error) {
+      await this.remove(id).catch(() => {});
+      throw error;
+    }
+
+    return { id, host: '127.0.0.1', ports };
+  }
+
+  async stop(id: string, timeoutSeconds = 10): Promise<void> {
+    await this.exec(['stop', '-t', String(timeoutSeconds), id]);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.exec(['rm', '-f', id]);
+  }
+
+  async isRunning(id: string): Promise<boolean> {
+    try {
+      const output = await this.exec(['inspect', '-f', '{{.State.Running}}', id]);
+      return output.trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  private async resolveHostPort(id: string, port: number): Promise<number> {
+    // Output looks like "127.0.0.1:49153" (possibly one line per address family)
+    const output = await this.exec(['port', id, `${port}/tcp`]);
+    const match = output.match(/:(\d+)\s*$/m);
+    if (!match) {
+      throw new Error(`Could not resolve host port for container ${id} port ${port}`);
+    }
+    return Number(match[1]);
+  }
+
+  private async exec(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(this.binary, args, { timeout: 120000 });
+      return stdout;
+    } catch (error: any) {
+      const detail = (error.stderr || error.message || '').toString().trim();
+      throw new Error(`${this.name} ${args[0]} failed: ${detail}`);
+    }
+  }
+}
+
+/**
+ * Fake driver (CONTAINER_DRIVER=fake) - no containers are started
+ * Each container port maps to a host port (identity by default), so an agent server
+ * started by hand on that port stands in for the image, e.g. on machines without Docker
+ */
+export class FakeContainerDriver implements IContainerDriver {
+  readonly name = 'fake';
+  private containers: Map<string, { options: ContainerRunOptions; running: boolean }> = new Map();
+  private counter = 0;
+
+  constructor(private readonly portMap: Record<number, number> = {}) {}
+
+  async run(options: ContainerRunOptions): Promise<ContainerInfo> {
+    const id = `fake-${++this.counter}`;
+    this.containers.set(id, { options, running: true });
+
+    const ports: Record<number, number> = {};
+    for (const port of options.ports) {
+      ports[port] = this.portMap[port] ?? port;
+    }
+
+    return { id, host: '127.0.0.1', ports };
+  }
+
+  async stop(id: string): Promise<void> {
+    const container = this.containers.get(id);
+    if (container) container.running = false;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.containers.delete(id);
+  }
+
+  async isRunning(id: string): Promise<boolean> {
+    return this.containers.get(id)?.running ?? false;
+  }
+}
+
+/**
+ * Create a driver by name
+ */
+export function createContainerDriver(name: string): IContainerDriver {
+  switch (name) {
+    case 'docker':
+      return new CliContainerDriver('docker');
+    case 'podman':
+      return new CliContainerDriver('podman');
+    case 'fake':
+      return new FakeContainerDriver();
+    default:
+      throw new Error(`Unknown container driver: ${name}`);
+  }
+}
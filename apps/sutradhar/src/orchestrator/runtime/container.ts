@@ -0,0 +1,190 @@
+/**
+ * Container Runtime - Isolated agents started from an image
+ * The agent inside the container speaks the same HTTP protocol as HTTP agents
+ */
+
+// @ts-ignore - node-fetch types may not be available
+import fetch from 'node-fetch';
+import { AgentDefinition, AgentHandle, AgentTask, AgentResult, HealthStatus, ExecuteOptions } from '../types';
+import { HttpRuntime } from './http';
+import { IContainerDriver, createContainerDriver } from './container-driver';
+import { env } from '../../env';
+import { log } from '../../log';
+
+interface ContainerInstance {
+  driver: IContainerDriver;
+  healthUrl: string;
+}
+
+// Drivers are shared across runtimes so containers can always be found for cleanup
+const drivers: Map<string, IContainerDriver> = new Map();
+
+/**
+ * Register (or replace) a container driver, e.g. one with a custom binary or port map
+ */
+export function registerContainerDriver(name: string, driver: IContainerDriver): void {
+  drivers.set(name, driver);
+}
+
+/**
+ * The network an agent may join: one of CONTAINER_NETWORKS, never the host's or another container's
+ * Those would escape the sandbox (and break the loopback port publishing)
+ */
+function resolveNetwork(network: unknown): string | undefined {
+  if (network === undefined) {
+    return undefined;
+  }
+
+  const allowed = env.CONTAINER_NETWORKS.split(',').map(name => name.trim()).filter(Boolean);
+  if (typeof network !== 'string' || network === 'host' || network.startsWith('container:') || !allowed.includes(network)) {
+    throw new Error(`Container network not allowed: ${network} (allowed: ${allowed.join(', ') || 'none'})`);
+  }
+  return network;
+}
+
+/**
+ * Throw unless the definition's image is on the CONTAINER_AGENT_IMAGES allow-list (compared with its tag)
+ */
+export function assertImageAllowed(definition: AgentDefinition): void {
+  const image = definition.config?.image;
+  const allowed = env.CONTAINER_AGENT_IMAGES.split(',').map(name => name.trim()).filter(Boolean);
+  if (typeof image !== 'string' || !allowed.includes(image)) {
+    throw new Error(`Container image not allowed: ${image} (allowed: ${allowed.join(', ') || 'none'})`);
+  }
+}
+
+function getDriver(name: string): IContainerDriver {
+  if (!drivers.has(name)) {
+    drivers.set(name, createContainerDriver(name));
+  }
+  return drivers.get(name)!;
+}
+
+export class ContainerRuntime {
+  private httpRuntime = new HttpRuntime();
+
+  async start(definition: AgentDefinition): Promise<AgentHandle> {
+    const config = definition.config || {};
+    if (!config.image) {
+      throw new Error('Container agents require an image in config');
+    }
+    if (!config.ports || config.ports.length === 0) {
+      throw new Error('Container agents require at least one port in config');
+    }
+
+    assertImageAllowed(definition);
+    const network = resolveNetwork(config.network);
+    const driver = getDriver(config.driver || env.CONTAINER_DRIVER);
+    const agentPort = config.ports[0];
+
+    const container = await driver.run({
+      name: `sutradhar-agent-${definition.id}-${Date.now().toString(36)}`,
+      image: config.image,
+      env: config.env,
+      ports: config.ports,
+      labels: { 'sutradhar.agent': definition.id },
+      // Untrusted agents never run unbounded
+      memory: config.memory || env.CONTAINER_DEFAULT_MEMORY,
+      cpus: config.cpus || env.CONTAINER_DEFAULT_CPUS,
+      network,
+      readOnly: config.readOnly,
+    });
+
+    const endpoint = `http://${container.host}:${container.ports[agentPort]}`;
+    const healthUrl = `${endpoint}${config.healthEndpoint || '/health'}`;
+
+    try {
+      await this.waitForHealthy(healthUrl, config.startTimeoutMs ?? 30000);
+    } catch (error) {
+      // Never leave an unhealthy untrusted container behind
+      await this.removeContainer(driver, container.id);
+      throw error;
+    }
+
+    log.info(`Agent container started: ${definition.id}`, {
+      driver: driver.name,
+      containerId: container.id,
+      endpoint,
+    });
+
+    const instance: ContainerInstance = { driver, healthUrl };
+    return {
+      id: definition.id,
+      type: definition.type,
+      runtime: 'container',
+      endpoint,
+      containerId: container.id,
+      instance,
+    };
+  }
+
+  async execute(handle: AgentHandle, task: AgentTask, options: ExecuteOptions = {}): Promise<AgentResult> {
+    return await this.httpRuntime.execute(handle, task, options);
+  }
+
+  async health(handle: AgentHandle): Promise<HealthStatus> {
+    const instance = handle.instance as ContainerInstance | undefined;
+    if (!instance || !handle.containerId) {
+      return { status: 'unhealthy', error: 'Container not available' };
+    }
+
+    if (!(await instance.driver.isRunning(handle.containerId))) {
+      return { status: 'unhealthy', lastCheck: Date.now(), error: 'Container not running' };
+    }
+
+    const startTime = Date.now();
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), handle.policy?.healthTimeoutMs ?? 5000);
+      const response = await fetch(instance.healthUrl, { signal: controller.signal });
+      clearTimeout(timeoutId);
+      if (response.ok) {
+        return { status: 'healthy', lastCheck: Date.now(), latency: Date.now() - startTime };
+      }
+      return { status: 'unhealthy', lastCheck: Date.now(), error: `HTTP ${response.status}` };
+    } catch (error: any) {
+      return { status: 'unhealthy', lastCheck: Date.now(), error: error.message };
+    }
+  }
+
+  async stop(handle: AgentHandle): Promise<void> {
+    const instance = handle.instance as ContainerInstance | undefined;
+    if (!instance || !handle.containerId) return;
+
+    await this.removeContainer(instance.driver, handle.containerId);
+    log.info(`Agent container stopped: ${handle.id}`, { containerId: handle.containerId });
+  }
+
+  private async removeContainer(driver: IContainerDriver, containerId: string): Promise<void> {
+    try {
+      await driver.stop(containerId);
+    } catch (error) {
+      log.warn(`Failed to stop container ${containerId}, removing anyway`, error);
+    }
+    await driver.remove(containerId);
+  }
+
+  /**
+   * Poll the health endpoint until it answers 2xx or the timeout passes
+   */
+  private async waitForHealthy(healthUrl: string, timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    let lastError = 'no response';
+
+    while (Date.now() < deadline) {
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 2000);
+        const response = await fetch(healthUrl, { signal: controller.signal });
+        clearTimeout(timeoutId);
+        if (response.ok) return;
+        lastError = `HTTP ${response.status}`;
+      } catch (error: any) {
+        lastError = error.message;
+      }
+      await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    throw new Error(`Container agent did not become healthy within ${timeoutMs}ms (${lastError})`);
+  }
+}
@@ -4,7 +4,7 @@
 
 // @ts-ignore - node-fetch types may not be available
 import fetch from 'node-fetch';
-import { AgentDefinition, AgentHandle, AgentTask, AgentResult } from '../types';
+import { AgentDefinition, AgentHandle, AgentTask, AgentResult, ExecuteOptions } from '../types';
 
 export class HttpRuntime {
   async start(definition: AgentDefinition): Promise<AgentHandle> {
@@ -19,7 +19,7 @@ export class HttpRuntime {
 
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      const timeoutId = setTimeout(() => controller.abort(), definition.config.healthTimeoutMs ?? 5000);
       const response = await fetch(healthUrl, { signal: controller.signal });
       clearTimeout(timeoutId);
       if (!response.ok) {
@@ -37,23 +37,25 @@ export class HttpRuntime {
     };
   }
 
-  async execute(handle: AgentHandle, task: AgentTask): Promise<AgentResult> {
+  async execute(handle: AgentHandle, task: AgentTask, options: ExecuteOptions = {}): Promise<AgentResult> {
     if (!handle.endpoint) {
       throw new Error('Agent endpoint not available');
     }
 
     const executeUrl = `${handle.endpoint}/execute`;
-    
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? 30000);
+    options.signal?.addEventListener('abort', onAbort);
+
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000);
       const response = await fetch(executeUrl, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        // Retries resend the same task ID, so agents can deduplicate on it
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': task.id },
         body: JSON.stringify(task),
         signal: controller.signal,
       });
-      clearTimeout(timeoutId);
 
       if (!response.ok) {
         return {
@@ -69,6 +71,9 @@ export class HttpRuntime {
         success: false,
         error: error.message || 'Failed to execute HTTP agent',
       };
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -81,7 +86,7 @@ export class HttpRuntime {
     
     try {
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      const timeoutId = setTimeout(() => controller.abort(), handle.policy?.healthTimeoutMs ?? 5000);
       const response = await fetch(healthUrl, { signal: controller.signal });
       clearTimeout(timeoutId);
       if (response.ok) {
@@ -2,13 +2,14 @@
  * In-Process Runtime - Runs agents in the same process
  */
 
-import { AgentDefinition, AgentHandle, AgentTask, AgentResult } from '../types';
+import { AgentDefinition, AgentHandle, AgentTask, AgentResult, AgentStreamEvent } from '../types';
 
 // IAgent interface for in-process agents
 interface IAgent {
   id: string;
   type: string;
   execute(task: AgentTask): Promise<AgentResult>;
+  executeStream?(task: AgentTask): AsyncIterable<AgentStreamEvent>;
   health(): Promise<any>;
 }
 
@@ -41,6 +42,21 @@ export class InProcessRuntime {
     return await agent.execute(task);
   }
 
+  async *executeStream(handle: AgentHandle, task: AgentTask): AsyncGenerator<AgentStreamEvent> {
+    if (!handle.instance) {
+      throw new Error('Agent instance not available');
+    }
+
+    const agent = handle.instance as IAgent;
+    if (agent.executeStream) {
+      yield* agent.executeStream(task);
+      return;
+    }
+
+    // Agents without streaming deliver their result as a single event
+    yield { type: 'result', result: await agent.execute(task) };
+  }
+
   async health(handle: AgentHandle): Promise<any> {
     if (!handle.instance) {
       return { status: 'unhealthy', error: 'Instance not available' };
@@ -0,0 +1,420 @@
+/**
+ * Process Runtime - Agents spawned as child processes
+ * Speaks newline-delimited JSON-RPC 2.0 over the child's stdin/stdout
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import readline from 'readline';
+import path from 'path';
+import { AgentDefinition, AgentHandle, AgentTask, AgentResult, HealthStatus, ExecuteOptions } from '../types';
+import { env } from '../../env';
+import { log } from '../../log';
+
+export interface ProcessRestartPolicy {
+  maxRestarts: number;    // Consecutive crashes before giving up
+  initialDelayMs: number; // First restart delay, doubled on every crash
+  maxDelayMs: number;     // Upper bound for the restart delay
+  resetAfterMs: number;   // Uptime after which the crash counter resets
+}
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+// Variables that make an interpreter load other code; never taken from a definition's config.env
+const LOADER_ENV = /^(NODE_OPTIONS|LD_\w+|DYLD_\w+|PYTHONSTARTUP|PYTHONPATH|PERL5OPT|PERL5LIB|RUBYOPT|BASH_ENV|ENV)$/;
+
+function listSetting(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Commands and scripts compare as absolute paths; bare names (e.g. python3) are looked up on PATH and compare as-is
+ */
+function normalizeExecutable(value: string, cwd?: string): string {
+  return value.includes('/') ? path.resolve(cwd || process.cwd(), value) : value;
+}
+
+/**
+ * The child's environment: only the PROCESS_AGENT_ENV variables of Sutradhar's own, plus config.env
+ */
+function childEnv(configEnv: Record<string, string> = {}): NodeJS.ProcessEnv {
+  const rejected = Object.keys(configEnv).filter(name => LOADER_ENV.test(name));
+  if (rejected.length > 0) {
+    throw new Error(`Process agent env may not set ${rejected.join(', ')}`);
+  }
+
+  const inherited: NodeJS.ProcessEnv = {};
+  for (const name of listSetting(env.PROCESS_AGENT_ENV)) {
+    if (process.env[name] !== undefined) {
+      inherited[name] = process.env[name];
+    }
+  }
+  return { ...inherited, ...configEnv };
+}
+
+// Children still alive when the parent exits are killed synchronously
+const liveChildren: Set<ChildProcess> = new Set();
+process.on('exit', () => {
+  for (const child of liveChildren) {
+    child.kill('SIGKILL');
+  }
+});
+
+/**
+ * Throw unless the definition runs what the PROCESS_AGENT_COMMANDS allow-list permits
+ * The script has to be listed, and so does config.command when it runs the script
+ */
+export function assertCommandAllowed(definition: AgentDefinition): void {
+  const config = definition.config || {};
+  const allowed = listSetting(env.PROCESS_AGENT_COMMANDS).map(entry => normalizeExecutable(entry));
+  for (const executable of config.command ? [config.command, config.script] : [config.script]) {
+    if (typeof executable !== 'string' || !allowed.includes(normalizeExecutable(executable, config.cwd))) {
+      throw new Error(`Process agent command not allowed: ${executable} (allowed: ${allowed.join(', ') || 'none'})`);
+    }
+  }
+}
+
+function resolveCommand(definition: AgentDefinition): { command: string; args: string[] } {
+  assertCommandAllowed(definition);
+  const config = definition.config || {};
+  const script = config.script as string;
+  const extraArgs: string[] = Array.isArray(config.args) ? config.args : [];
+
+  if (config.command) {
+    return { command: config.command, args: [script, ...extraArgs] };
+  }
+
+  // Node scripts run on the same Node binary as Sutradhar
+  if (['.js', '.cjs', '.mjs'].includes(path.extname(script))) {
+    return { command: process.execPath, args: [script, ...extraArgs] };
+  }
+
+  return { command: script, args: extraArgs };
+}
+
+/**
+ * Supervised child process for a single agent
+ */
+export class AgentProcess {
+  private child: ChildProcess | null = null;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
+  private restartCount = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private spawnedAt = 0;
+  private stopped = false;
+  private lastError?: string;
+
+  constructor(
+    private readonly definition: AgentDefinition,
+    private readonly handle: AgentHandle,
+    private readonly policy: ProcessRestartPolicy
+  ) {}
+
+  /**
+   * Spawn the child and resolve once the OS has started it
+   */
+  async spawn(): Promise<void> {
+    const { command, args } = resolveCommand(this.definition);
+    const config = this.definition.config || {};
+    // Uptime counts from the attempt, so a failed restart never looks like a long-lived process
+    this.spawnedAt = Date.now();
+
+    const child = spawn(command, args, {
+      cwd: config.cwd,
+      env: childEnv(config.env),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+
+    this.child = child;
+    this.handle.processId = child.pid;
+    liveChildren.add(child);
+
+    // A child that closed its stdin fails writes with EPIPE; unhandled, that would take Sutradhar down
+    child.stdin!.on('error', error => {
+      log.warn(`Agent process ${this.definition.id} stdin error`, { error: error.message });
+      this.rejectPending(new Error(`Agent process ${this.definition.id} stdin closed: ${error.message}`));
+    });
+
+    readline.createInterface({ input: child.stdout! }).on('line', line => this.onLine(line));
+    readline.createInterface({ input: child.stderr! }).on('line', line => {
+      log.debug(`Agent process ${this.definition.id} stderr`, { line });
+    });
+
+    child.on('error', error => {
+      log.error(`Agent process ${this.definition.id} error`, error);
+    });
+    child.on('exit', (code, signal) => this.onExit(child, code, signal));
+
+    log.info(`Agent process started: ${this.definition.id}`, { pid: child.pid, command, args });
+  }
+
+  /**
+   * Send a JSON-RPC request and wait for its response
+   * Aborting the signal sends a `cancel` notification for the request
+   */
+  request<T = any>(method: string, params: any, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const child = this.child;
+    if (!child || !child.stdin || child.stdin.destroyed) {
+      return Promise.reject(new Error(`Agent process ${this.definition.id} is not running`));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Request cancelled'));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const pending = this.pending.get(id);
+        if (!pending) return;
+        this.pending.delete(id);
+        clearTimeout(pending.timer);
+        this.notify('cancel', { id });
+        reject(new Error('Request cancelled'));
+      };
+
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        signal?.removeEventListener('abort', onAbort);
+        // The child may still be working on it
+        this.notify('cancel', { id });
+        reject(new Error(`Agent process ${this.definition.id} did not answer ${method} within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timer,
+      });
+      child.stdin!.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  /**
+   * Send a JSON-RPC notification (no response expected)
+   */
+  notify(method: string, params?: any): void {
+    try {
+      this.child?.stdin?.write(JSON.stringify({ jsonrpc: '2.0', method, params }) + '\n');
+    } catch {
+      // stdin already closed
+    }
+  }
+
+  /**
+   * Stop the child: ask politely, then SIGTERM, then SIGKILL
+   */
+  async stop(graceMs: number): Promise<void> {
+    this.stopped = true;
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const child = this.child;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+
+    this.notify('shutdown');
+    child.stdin?.end();
+    child.kill('SIGTERM');
+
+    const killTimer = setTimeout(() => child.kill('SIGKILL'), graceMs);
+    await exited;
+    clearTimeout(killTimer);
+    log.info(`Agent process stopped: ${this.definition.id}`, { pid: child.pid });
+  }
+
+  isRunning(): boolean {
+    return this.child !== null && !this.stopped;
+  }
+
+  getLastError(): string | undefined {
+    return this.lastError;
+  }
+
+  private onLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let message: JsonRpcResponse;
+    try {
+      message = JSON.parse(trimmed);
+    } catch {
+      // Plain output (console.log etc.) is not part of the protocol
+      log.debug(`Agent process ${this.definition.id} stdout`, { line: trimmed });
+      return;
+    }
+
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) {
+      log.warn(`Agent process ${this.definition.id} sent an unexpected message`, { message });
+      return;
+    }
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      pending.reject(new Error(message.error.message || `JSON-RPC error ${message.error.code}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const [id, pending] of this.pending.entries()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  private onExit(child: ChildProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    liveChildren.delete(child);
+    if (this.child === child) {
+      this.child = null;
+      this.handle.processId = undefined;
+    }
+
+    this.rejectPending(new Error(`Agent process ${this.definition.id} exited (code ${code}, signal ${signal})`));
+
+    if (this.stopped) {
+      return;
+    }
+
+    this.lastError = `Process exited unexpectedly (code ${code}, signal ${signal})`;
+    log.warn(`Agent process ${this.definition.id} crashed`, { code, signal, restarts: this.restartCount });
+
+    // A process that stayed up long enough is considered recovered
+    if (Date.now() - this.spawnedAt >= this.policy.resetAfterMs) {
+      this.restartCount = 0;
+    }
+
+    if (this.restartCount >= this.policy.maxRestarts) {
+      this.handle.health = { status: 'unhealthy', lastCheck: Date.now(), error: this.lastError };
+      log.error(`Agent process ${this.definition.id} exceeded ${this.policy.maxRestarts} restarts, giving up`);
+      return;
+    }
+
+    const delay = Math.min(this.policy.initialDelayMs * Math.pow(2, this.restartCount), this.policy.maxDelayMs);
+    this.restartCount++;
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.stopped) return;
+      this.spawn().catch(error => {
+        this.lastError = error.message;
+        log.error(`Agent process ${this.definition.id} failed to restart`, error);
+        this.onExit(child, null, null);
+      });
+    }, delay);
+
+    log.info(`Restarting agent process ${this.definition.id} in ${delay}ms`, { attempt: this.restartCount });
+  }
+}
+
+export class ProcessRuntime {
+  async start(definition: AgentDefinition): Promise<AgentHandle> {
+    if (!definition.config?.script) {
+      throw new Error('Process agents require a script in config');
+    }
+
+    const handle: AgentHandle = {
+      id: definition.id,
+      type: definition.type,
+      runtime: 'process',
+    };
+
+    const restart = definition.config.restart || {};
+    const agentProcess = new AgentProcess(definition, handle, {
+      maxRestarts: restart.maxRestarts ?? 5,
+      initialDelayMs: restart.initialDelayMs ?? 1000,
+      maxDelayMs: restart.maxDelayMs ?? 30000,
+      resetAfterMs: restart.resetAfterMs ?? 60000,
+    });
+
+    await agentProcess.spawn();
+    handle.instance = agentProcess;
+
+    // Verify agent answers, but don't fail registration (same as HTTP agents)
+    try {
+      await agentProcess.request('health', {}, definition.config.startTimeoutMs ?? 10000);
+    } catch (error) {
+      console.warn(`Agent health check failed, but continuing: ${error}`);
+    }
+
+    return handle;
+  }
+
+  async execute(handle: AgentHandle, task: AgentTask, options: ExecuteOptions = {}): Promise<AgentResult> {
+    if (!handle.instance) {
+      throw new Error('Agent process not available');
+    }
+
+    const agentProcess = handle.instance as AgentProcess;
+
+    try {
+      return await agentProcess.request<AgentResult>('execute', task, options.timeoutMs ?? 30000, options.signal);
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to execute process agent',
+      };
+    }
+  }
+
+  async health(handle: AgentHandle): Promise<HealthStatus> {
+    if (!handle.instance) {
+      return { status: 'unhealthy', error: 'Process not available' };
+    }
+
+    const agentProcess = handle.instance as AgentProcess;
+    if (!agentProcess.isRunning()) {
+      return { status: 'unhealthy', lastCheck: Date.now(), error: agentProcess.getLastError() || 'Process not running' };
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await agentProcess.request<Partial<HealthStatus>>('health', {}, handle.policy?.healthTimeoutMs ?? 5000);
+      return {
+        status: result?.status || 'healthy',
+        lastCheck: Date.now(),
+        latency: Date.now() - startTime,
+        error: result?.error,
+      };
+    } catch (error: any) {
+      return { status: 'unhealthy', lastCheck: Date.now(), error: error.message };
+    }
+  }
+
+  async stop(handle: AgentHandle, graceMs = 5000): Promise<void> {
+    if (!handle.instance) return;
+    await (handle.instance as AgentProcess).stop(graceMs);
+  }
+}
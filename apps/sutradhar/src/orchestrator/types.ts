@@ -3,6 +3,8 @@
  * Agent-agnostic orchestration types
  */
 
+import { JsonSchema } from '../core/json-schema';
+
 export interface AgentTask {
   id: string;
   type: string;
@@ -27,6 +29,103 @@ export interface AgentResult<T = any> {
   };
 }
 
+/**
+ * Incremental output of a streaming task; always ends with a single `result`
+ */
+export type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'result'; result: AgentResult };
+
+export interface ExecuteOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export type RoutingStrategy = 'round-robin' | 'least-latency' | 'health-weighted';
+
+/**
+ * Address a task by agent type and/or capability instead of an exact agent ID
+ */
+export interface AgentSelector {
+  type?: string;
+  capability?: string; // Defaults to the task type
+  strategy?: RoutingStrategy;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface AgentJob {
+  id: string;
+  agentId: string;
+  task: AgentTask;
+  status: JobStatus;
+  result?: AgentResult;
+  error?: string;
+  timeoutMs: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * Condition on the workflow scope, e.g. { path: 'steps.intent.data.intent', equals: 'slack' }
+ * With no operator the value at `path` must be truthy
+ */
+export interface WorkflowCondition {
+  path: string;
+  equals?: any;
+  notEquals?: any;
+  in?: any[];
+  exists?: boolean;
+}
+
+/**
+ * A single agent task in a workflow
+ * String values in `payload` may reference the scope with {{ path }} templates:
+ * `input.*`, `context.*`, `steps.<id>.data.*` and, inside forEach, `item` / `index`
+ */
+export interface WorkflowStep {
+  id: string;
+  agentId: string;
+  taskType: string;
+  payload?: any;
+  dependsOn?: string[];
+  when?: WorkflowCondition;
+  forEach?: string;          // Path to an array; the step runs once per item, in parallel
+  concurrency?: number;      // forEach items running at once (default WORKFLOW_FOREACH_CONCURRENCY)
+  continueOnError?: boolean; // Dependents still run when this step fails
+  timeoutMs?: number;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  description?: string;
+  steps: WorkflowStep[];
+  output?: any; // Template mapping for the run output; defaults to each step's data
+}
+
+export type WorkflowStepStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface WorkflowStepRun {
+  status: WorkflowStepStatus;
+  result?: AgentResult;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  status: 'succeeded' | 'failed';
+  input: any;
+  output?: any;
+  steps: Record<string, WorkflowStepRun>;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
 export interface AgentDefinition {
   id: string;
   type: string;
@@ -43,12 +142,61 @@ export interface AgentDefinition {
   };
   implementation?: any; // For in-process agents
   capabilities?: string[];
+  capabilitySchemas?: Record<string, CapabilitySchema>; // Keyed by task type; overrides the agent's own schemas
+}
+
+/**
+ * Contract for one capability (task type): what the payload must look like and what the result data looks like
+ */
+export interface CapabilitySchema {
+  description?: string;
+  payload?: JsonSchema;
+  result?: JsonSchema; // Checked against AgentResult.data of successful results
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;    // Total attempts, 1 disables retries
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;     // Backoff factor between attempts
+  jitter: number;         // 0..1, fraction of the delay randomized
+}
+
+export interface AgentCircuitBreakerPolicy {
+  failureThreshold: number;
+  successThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/**
+ * Guardrails run on the end user's text before a task is dispatched
+ */
+export interface GuardrailPolicy {
+  taskTypes: string[]; // Task types that are checked
+  input: string[];     // Payload paths holding the end user's text, e.g. 'variables.question'; for a message list, its user turns
+  persona: string;     // Used unless the task's context names a configured persona
+}
+
+/**
+ * Execution policy resolved from AgentDefinition.config:
+ * `timeoutMs`, `healthTimeoutMs`, `retry`, `idempotent`, `circuitBreaker` (false disables), `guardrails`
+ */
+export interface AgentPolicy {
+  timeoutMs: number;
+  healthTimeoutMs: number;
+  retry: RetryPolicy;
+  idempotent: boolean | string[]; // true, false or the task types that are safe to retry
+  circuitBreaker: AgentCircuitBreakerPolicy | null;
+  guardrails: GuardrailPolicy | null;
 }
 
 export interface AgentHandle {
   id: string;
   type: string;
   runtime: string;
+  capabilities?: string[];
+  capabilitySchemas?: Record<string, CapabilitySchema>;
+  policy?: AgentPolicy;
   instance?: any;
   endpoint?: string;
   containerId?: string;
@@ -69,7 +217,9 @@ export interface IAgent {
   version?: string;
   
   capabilities?(): string[];
+  capabilitySchemas?(): Record<string, CapabilitySchema>;
   execute(task: AgentTask): Promise<AgentResult>;
+  executeStream?(task: AgentTask): AsyncIterable<AgentStreamEvent>;
   health(): Promise<HealthStatus>;
   metrics?(): Promise<Record<string, any>>;
 }
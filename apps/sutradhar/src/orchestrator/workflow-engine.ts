@@ -0,0 +1,399 @@
+/**
+ * Workflow Engine - Runs declarative agent DAGs
+ * Steps start as soon as their dependencies finish, so independent steps run in parallel
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  AgentTask,
+  AgentResult,
+  ExecuteOptions,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowRun,
+  WorkflowStep,
+  WorkflowStepRun,
+} from './types';
+import { env } from '../env';
+import { log } from '../log';
+
+type ExecuteFn = (agentId: string, task: AgentTask, options: ExecuteOptions) => Promise<AgentResult>;
+
+// Matches {{ path }} placeholders
+const TEMPLATE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const STEP_REFERENCE_PATTERN = /steps\.([A-Za-z0-9_-]+)/g;
+
+/**
+ * Read a dotted path (e.g. `steps.search.data.snippets.0.text`) from an object
+ */
+function getPath(scope: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), scope);
+}
+
+/**
+ * Resolve {{ path }} templates in a value
+ * A string that is a single template keeps the referenced value's type
+ */
+function resolveTemplate(value: any, scope: any): any {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_TEMPLATE_PATTERN);
+    if (whole) {
+      return getPath(scope, whole[1]);
+    }
+    return value.replace(TEMPLATE_PATTERN, (_, path) => {
+      const resolved = getPath(scope, path);
+      if (resolved == null) return '';
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveTemplate(item, scope));
+  }
+
+  if (value && typeof value === 'object') {
+    const resolved: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplate(item, scope);
+    }
+    return resolved;
+  }
+
+  return value;
+}
+
+function evaluateCondition(condition: WorkflowCondition, scope: any): boolean {
+  const value = getPath(scope, condition.path);
+
+  if (condition.exists !== undefined) {
+    return (value !== undefined && value !== null) === condition.exists;
+  }
+  if (condition.equals !== undefined) {
+    return value === condition.equals;
+  }
+  if (condition.notEquals !== undefined) {
+    return value !== condition.notEquals;
+  }
+  if (condition.in !== undefined) {
+    return condition.in.includes(value);
+  }
+  return Boolean(value);
+}
+
+/**
+ * Check a workflow definition, returns a list of problems (empty when valid)
+ */
+export function validateWorkflow(definition: WorkflowDefinition): string[] {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition.id !== 'string' || !definition.id) {
+    errors.push('Workflow id is required');
+  }
+  if (!Array.isArray(definition?.steps) || definition.steps.length === 0) {
+    errors.push('Workflow requires at least one step');
+    return errors;
+  }
+
+  const steps = new Map<string, WorkflowStep>();
+  for (const step of definition.steps) {
+    if (!step.id || typeof step.id !== 'string') {
+      errors.push('Every step requires an id');
+      continue;
+    }
+    if (steps.has(step.id)) {
+      errors.push(`Duplicate step id: ${step.id}`);
+    }
+    if (!step.agentId || !step.taskType) {
+      errors.push(`Step ${step.id} requires agentId and taskType`);
+    }
+    if (step.dependsOn !== undefined && !Array.isArray(step.dependsOn)) {
+      errors.push(`Step ${step.id}: dependsOn must be an array`);
+    }
+    if (step.when !== undefined && typeof step.when?.path !== 'string') {
+      errors.push(`Step ${step.id}: when.path is required`);
+    }
+    if (step.concurrency !== undefined && (!Number.isInteger(step.concurrency) || step.concurrency < 1)) {
+      errors.push(`Step ${step.id}: concurrency must be a positive integer`);
+    }
+    steps.set(step.id, step);
+  }
+
+  for (const step of steps.values()) {
+    for (const dependency of step.dependsOn || []) {
+      if (!steps.has(dependency)) {
+        errors.push(`Step ${step.id} depends on unknown step: ${dependency}`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Cycle detection (depth-first, tracking the current path)
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (id: string, trail: string[]): void => {
+    if (visited.has(id)) return;
+    if (visiting.has(id)) {
+      errors.push(`Dependency cycle: ${[...trail, id].join(' -> ')}`);
+      return;
+    }
+    visiting.add(id);
+    for (const dependency of steps.get(id)!.dependsOn || []) {
+      visit(dependency, [...trail, id]);
+    }
+    visiting.delete(id);
+    visited.add(id);
+  };
+  for (const id of steps.keys()) {
+    visit(id, []);
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // A step may only read outputs of steps it (transitively) depends on
+  const ancestors = (id: string, seen: Set<string> = new Set()): Set<string> => {
+    for (const dependency of steps.get(id)!.dependsOn || []) {
+      if (!seen.has(dependency)) {
+        seen.add(dependency);
+        ancestors(dependency, seen);
+      }
+    }
+    return seen;
+  };
+  for (const step of steps.values()) {
+    const references = JSON.stringify([step.payload, step.when?.path, step.forEach]);
+    const reachable = ancestors(step.id);
+    for (const [, referenced] of references.matchAll(STEP_REFERENCE_PATTERN)) {
+      if (!reachable.has(referenced)) {
+        errors.push(`Step ${step.id} references steps.${referenced} without depending on it`);
+      }
+    }
+  }
+
+  return Array.from(new Set(errors));
+}
+
+/**
+ * Map items with at most `limit` calls in flight; results keep the items' order
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+export class WorkflowEngine {
+  private workflows: Map<string, WorkflowDefinition> = new Map();
+
+  constructor(private readonly executeFn: ExecuteFn) {}
+
+  /**
+   * Register (or replace) a workflow; throws if the definition is invalid
+   */
+  register(definition: WorkflowDefinition): WorkflowDefinition {
+    const errors = validateWorkflow(definition);
+    if (errors.length > 0) {
+      throw new Error(`Invalid workflow: ${errors.join('; ')}`);
+    }
+
+    this.workflows.set(definition.id, definition);
+    log.info(`Workflow registered: ${definition.id}`, { steps: definition.steps.length });
+    return definition;
+  }
+
+  unregister(id: string): boolean {
+    return this.workflows.delete(id);
+  }
+
+  get(id: string): WorkflowDefinition | undefined {
+    return this.workflows.get(id);
+  }
+
+  list(): WorkflowDefinition[] {
+    return Array.from(this.workflows.values());
+  }
+
+  /**
+   * Run a workflow to completion
+   * The first failing step (without continueOnError) fails the run; steps not yet started are skipped
+   */
+  async run(
+    definition: WorkflowDefinition,
+    input: any = {},
+    context: AgentTask['context'] = {}
+  ): Promise<WorkflowRun> {
+    const run: WorkflowRun = {
+      id: `wfr_${randomBytes(12).toString('base64url')}`,
+      workflowId: definition.id,
+      status: 'succeeded',
+      input,
+      steps: {},
+      startedAt: Date.now(),
+      finishedAt: 0,
+    };
+
+    const scope = {
+      input,
+      context,
+      steps: {} as Record<string, any>,
+    };
+
+    const stepsById = new Map(definition.steps.map(step => [step.id, step]));
+    const pending = new Set(stepsById.keys());
+    const running = new Map<string, Promise<void>>();
+
+    log.info(`Workflow started: ${definition.id}`, { runId: run.id });
+
+    while (pending.size > 0 || running.size > 0) {
+      if (run.status === 'failed') {
+        for (const id of pending) {
+          run.steps[id] = { status: 'skipped', error: run.error };
+        }
+        pending.clear();
+      }
+
+      for (const id of Array.from(pending)) {
+        const step = stepsById.get(id)!;
+        const dependencies = step.dependsOn || [];
+        if (!dependencies.every(dependency => run.steps[dependency])) {
+          continue;
+        }
+
+        pending.delete(id);
+        const promise = this.runStep(step, run, scope, context).then(stepRun => {
+          running.delete(id);
+          run.steps[id] = stepRun;
+          scope.steps[id] = {
+            status: stepRun.status,
+            success: stepRun.result?.success ?? false,
+            data: stepRun.result?.data,
+            error: stepRun.error,
+            metadata: stepRun.result?.metadata,
+          };
+
+          if (stepRun.status === 'failed' && !step.continueOnError && run.status !== 'failed') {
+            run.status = 'failed';
+            run.error = `Step ${id} failed: ${stepRun.error}`;
+          }
+        });
+        running.set(id, promise);
+      }
+
+      if (running.size === 0) {
+        // Nothing runnable left (validated definitions never get here with steps pending)
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    if (run.status === 'succeeded') {
+      run.output = definition.output !== undefined
+        ? resolveTemplate(definition.output, scope)
+        : Object.fromEntries(Object.entries(scope.steps).map(([id, step]) => [id, step.data]));
+    }
+
+    run.finishedAt = Date.now();
+    log.info(`Workflow finished: ${definition.id}`, {
+      runId: run.id,
+      status: run.status,
+      durationMs: run.finishedAt - run.startedAt,
+    });
+
+    return run;
+  }
+
+  private async runStep(
+    step: WorkflowStep,
+    run: WorkflowRun,
+    scope: any,
+    context: AgentTask['context']
+  ): Promise<WorkflowStepRun> {
+    const dependencies = step.dependsOn || [];
+
+    // A step whose branches were all skipped is skipped too; joins run if any branch ran
+    if (dependencies.length > 0 && dependencies.every(dependency => run.steps[dependency].status === 'skipped')) {
+      return { status: 'skipped' };
+    }
+
+    if (step.when && !evaluateCondition(step.when, scope)) {
+      return { status: 'skipped' };
+    }
+
+    const startedAt = Date.now();
+    const taskContext = { ...context, workflowId: run.workflowId, workflowRunId: run.id };
+
+    try {
+      let result: AgentResult;
+
+      if (step.forEach) {
+        const items = getPath(scope, step.forEach);
+        if (!Array.isArray(items)) {
+          return {
+            status: 'failed',
+            error: `forEach path ${step.forEach} is not an array`,
+            startedAt,
+            finishedAt: Date.now(),
+          };
+        }
+
+        if (items.length > env.WORKFLOW_FOREACH_MAX_ITEMS) {
+          return {
+            status: 'failed',
+            error: `forEach path ${step.forEach} has ${items.length} items (max ${env.WORKFLOW_FOREACH_MAX_ITEMS})`,
+            startedAt,
+            finishedAt: Date.now(),
+          };
+        }
+
+        const results = await mapConcurrently(items, step.concurrency ?? env.WORKFLOW_FOREACH_CONCURRENCY, (item, index) =>
+          this.executeFn(step.agentId, {
+            id: `${run.id}:${step.id}:${index}`,
+            type: step.taskType,
+            payload: resolveTemplate(step.payload, { ...scope, item, index }),
+            context: taskContext,
+          }, { timeoutMs: step.timeoutMs })
+        );
+
+        const failed = results.find(itemResult => !itemResult.success);
+        result = {
+          success: !failed,
+          data: results.map(itemResult => itemResult.data),
+          error: failed?.error,
+          metadata: { items: results.length },
+        };
+      } else {
+        result = await this.executeFn(step.agentId, {
+          id: `${run.id}:${step.id}`,
+          type: step.taskType,
+          payload: resolveTemplate(step.payload, scope),
+          context: taskContext,
+        }, { timeoutMs: step.timeoutMs });
+      }
+
+      return {
+        status: result.success ? 'succeeded' : 'failed',
+        result,
+        error: result.success ? undefined : result.error || 'Step failed',
+        startedAt,
+        finishedAt: Date.now(),
+      };
+    } catch (error: any) {
+      return {
+        status: 'failed',
+        error: error.message || 'Step failed',
+        startedAt,
+        finishedAt: Date.now(),
+      };
+    }
+  }
+}
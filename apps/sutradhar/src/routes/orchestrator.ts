@@ -5,17 +5,57 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { orchestrator } from '../orchestrator/orchestrator';
-import { AgentDefinition, AgentTask } from '../orchestrator/types';
+import { AgentDefinition, AgentTask, AgentSelector, WorkflowDefinition } from '../orchestrator/types';
+import { validateWorkflow } from '../orchestrator/workflow-engine';
+import {
+  authenticateClient,
+  authorize,
+  denyAccess,
+  hasScope,
+  requireScope,
+  taskScope,
+} from '../orchestrator/auth';
+import { usageService, isGuestUser, USAGE_DIMENSIONS, UsageDimension } from '../core/services/usage-service';
+import { promptRegistry, PromptTemplateError } from '../core/services/prompt-registry';
+import { semanticCache } from '../core/services/semantic-cache';
+import { guardrailRegistry } from '../core/guardrails';
+import { env } from '../env';
 import { randomBytes } from 'crypto';
 
 function nanoid(size = 21) {
   return randomBytes(size).toString('base64url').slice(0, size);
 }
 
+/**
+ * Predicate limiting routed tasks to agents the caller may run this task type on
+ */
+function allowedAgents(req: Request, taskType: string): (agentId: string) => boolean {
+  return agentId => hasScope(req.client, taskScope(agentId, taskType));
+}
+
+/**
+ * Check the caller may run a task, either on a named agent or on at least one agent matching the selector
+ * Sends 403 and returns false otherwise
+ */
+function authorizeTask(req: Request, res: Response, agentId: string | undefined, selector: AgentSelector | undefined, taskType: string): boolean {
+  if (agentId) {
+    return authorize(req, res, taskScope(agentId, taskType));
+  }
+
+  const matches = orchestrator.findAgents(selector!, taskType);
+  if (matches.length > 0 && !matches.some(handle => allowedAgents(req, taskType)(handle.id))) {
+    denyAccess(req, res, 403, `No agent matching selector is allowed for ${taskType}`, taskScope('*', taskType));
+    return false;
+  }
+  return true;
+}
+
 const router = Router();
 
+router.use(authenticateClient);
+
 // Register agent
-router.post('/agents/register', async (req: Request, res: Response) => {
+router.post('/agents/register', requireScope('orchestrator:agents.register'), async (req: Request, res: Response) => {
   try {
     const definition = req.body as AgentDefinition;
     
@@ -27,6 +67,14 @@ router.post('/agents/register', async (req: Request, res: Response) => {
       });
     }
 
+    // Agents that start something on this host are configured server-side unless the operator opts in
+    if ((definition.runtime === 'process' || definition.runtime === 'container') && env.ORCHESTRATOR_API_SPAWN !== 'enabled') {
+      return res.status(403).json({
+        ok: false,
+        error: `${definition.runtime} agents cannot be registered through the API (ORCHESTRATOR_API_SPAWN is disabled)`,
+      });
+    }
+
     const handle = await orchestrator.registerAgent(definition);
     res.json({
       ok: true,
@@ -45,7 +93,7 @@ router.post('/agents/register', async (req: Request, res: Response) => {
 });
 
 // List agents
-router.get('/agents', async (req: Request, res: Response) => {
+router.get('/agents', requireScope('orchestrator:agents.read'), async (req: Request, res: Response) => {
   try {
     const agents = orchestrator.listAgents();
     res.json({
@@ -54,6 +102,8 @@ router.get('/agents', async (req: Request, res: Response) => {
         id: agent.id,
         type: agent.type,
         runtime: agent.runtime,
+        capabilities: agent.capabilities,
+        health: agent.health?.status ?? 'unknown',
       })),
     });
   } catch (error: any) {
@@ -65,7 +115,7 @@ router.get('/agents', async (req: Request, res: Response) => {
 });
 
 // Get agent by ID
-router.get('/agents/:id', async (req: Request, res: Response) => {
+router.get('/agents/:id', requireScope('orchestrator:agents.read'), async (req: Request, res: Response) => {
   try {
     const agent = orchestrator.getAgent(req.params.id);
     if (!agent) {
@@ -81,6 +131,9 @@ router.get('/agents/:id', async (req: Request, res: Response) => {
         id: agent.id,
         type: agent.type,
         runtime: agent.runtime,
+        capabilities: agent.capabilities,
+        health: agent.health,
+        routing: orchestrator.getRoutingStats(agent.id),
       },
     });
   } catch (error: any) {
@@ -91,26 +144,109 @@ router.get('/agents/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Execute task
+// Capabilities of an agent with their payload/result schemas
+router.get('/agents/:id/capabilities', requireScope('orchestrator:agents.read'), async (req: Request, res: Response) => {
+  try {
+    const agent = orchestrator.getAgent(req.params.id);
+    if (!agent) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Agent not found',
+      });
+    }
+
+    const schemas = agent.capabilitySchemas || {};
+    const names = agent.capabilities ?? Object.keys(schemas);
+    res.json({
+      ok: true,
+      agentId: agent.id,
+      // Agents without declared capabilities accept any task type
+      open: !agent.capabilities,
+      capabilities: names.map(name => ({
+        name,
+        description: schemas[name]?.description,
+        payload: schemas[name]?.payload ?? null,
+        result: schemas[name]?.result ?? null,
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to get capabilities',
+    });
+  }
+});
+
+// Unregister agent (stops its process/container, if any)
+router.delete('/agents/:id', requireScope('orchestrator:agents.delete'), async (req: Request, res: Response) => {
+  try {
+    const agent = orchestrator.getAgent(req.params.id);
+    if (!agent) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Agent not found',
+      });
+    }
+
+    await orchestrator.unregisterAgent(req.params.id);
+    res.json({ ok: true });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to unregister agent',
+    });
+  }
+});
+
+// Execute task (pass `async: true` to get a job ID back instead of waiting)
+// Address the agent by `agentId`, or by `selector` ({ type, capability, strategy }) to route and fail over
 router.post('/tasks/execute', async (req: Request, res: Response) => {
   try {
-    const { agentId, task } = req.body;
+    const { agentId, selector, task, timeoutMs } = req.body;
 
-    if (!agentId || !task) {
+    if ((!agentId && !selector) || !task) {
       return res.status(400).json({
         ok: false,
-        error: 'Missing required fields: agentId, task',
+        error: 'Missing required fields: agentId or selector, task',
       });
     }
 
+    if (!authorizeTask(req, res, agentId, selector, task.type)) {
+      return;
+    }
+
     // Add task ID if not provided
     if (!task.id) {
       task.id = nanoid();
     }
 
-    const result = await orchestrator.executeTask(agentId, task as AgentTask);
+    if (req.body.async === true) {
+      // Background jobs are pinned to the instance picked at submit time
+      const targetId = agentId || orchestrator.selectAgent(selector as AgentSelector, task.type, allowedAgents(req, task.type))?.id;
+      if (!targetId || !orchestrator.getAgent(targetId)) {
+        return res.status(404).json({
+          ok: false,
+          error: agentId ? `Agent not found: ${agentId}` : 'No healthy agent matches selector',
+        });
+      }
+
+      const job = await orchestrator.submitTask(targetId, task as AgentTask, { timeoutMs });
+      return res.status(202).json({
+        ok: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `${req.baseUrl}/tasks/${job.id}`,
+      });
+    }
+
+    const result = agentId
+      ? await orchestrator.executeTask(agentId, task as AgentTask, { timeoutMs })
+      : await orchestrator.executeRouted(selector as AgentSelector, task as AgentTask, { timeoutMs }, allowedAgents(req, task.type));
     
-    res.status(result.success ? 200 : 500).json({
+    // Tasks rejected by the agent's capability contract are the caller's mistake
+    const rejected = ['capability', 'payload'].includes(result.metadata?.contractViolation);
+    const blocked = result.metadata?.guardrails?.outcome === 'block';
+    res.status(result.success ? 200 : rejected ? 400 : blocked ? 422 : 500).json({
       ok: result.success,
       ...result,
     });
@@ -122,13 +258,272 @@ router.post('/tasks/execute', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Execute a task and stream its output as Server-Sent Events
+ * Events: `delta` ({ text }) while the agent produces output, then one `result` (AgentResult)
+ */
+router.post('/tasks/stream', async (req: Request, res: Response) => {
+  const { selector, task } = req.body;
+
+  if ((!req.body.agentId && !selector) || !task) {
+    return res.status(400).json({
+      ok: false,
+      error: 'Missing required fields: agentId or selector, task',
+    });
+  }
+
+  if (!authorizeTask(req, res, req.body.agentId, selector, task.type)) {
+    return;
+  }
+
+  if (!task.id) {
+    task.id = nanoid();
+  }
+
+  // Streams can't fail over mid-answer, so the selector picks a single instance
+  const agentId = req.body.agentId || orchestrator.selectAgent(selector as AgentSelector, task.type, allowedAgents(req, task.type))?.id;
+  if (!agentId) {
+    return res.status(404).json({
+      ok: false,
+      error: 'No healthy agent matches selector',
+    });
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // A client that disconnects cancels the task, so the agent stops generating
+  let closed = false;
+  const controller = new AbortController();
+  res.on('close', () => {
+    closed = true;
+    controller.abort();
+  });
+
+  const send = (event: string, data: any) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // The compression middleware buffers output until flushed
+    (res as any).flush?.();
+  };
+
+  try {
+    for await (const event of orchestrator.executeTaskStream(agentId, task as AgentTask, { signal: controller.signal })) {
+      if (closed) break;
+      if (event.type === 'delta') {
+        send('delta', { text: event.text });
+      } else {
+        send('result', { ok: event.result.success, ...event.result });
+      }
+    }
+  } catch (error: any) {
+    if (!closed) {
+      send('result', { ok: false, success: false, error: error.message || 'Failed to execute task' });
+    }
+  }
+
+  res.end();
+});
+
+// Get background job status/result
+router.get('/tasks/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await orchestrator.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Job not found',
+      });
+    }
+
+    // Job results are visible to callers allowed to run the same task
+    if (!authorize(req, res, taskScope(job.agentId, job.task.type))) {
+      return;
+    }
+
+    res.json({
+      ok: true,
+      job,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to get job',
+    });
+  }
+});
+
+// Cancel background job
+router.delete('/tasks/:id', async (req: Request, res: Response) => {
+  try {
+    const existing = await orchestrator.getJob(req.params.id);
+    if (existing && !authorize(req, res, taskScope(existing.agentId, existing.task.type))) {
+      return;
+    }
+
+    const job = existing && await orchestrator.cancelJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Job not found',
+      });
+    }
+
+    if (job.status !== 'cancelled') {
+      return res.status(409).json({
+        ok: false,
+        error: `Job already ${job.status}`,
+        job,
+      });
+    }
+
+    res.json({
+      ok: true,
+      job,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to cancel job',
+    });
+  }
+});
+
+// Register workflow (replaces an existing workflow with the same ID)
+router.post('/workflows', requireScope('orchestrator:workflows.write'), async (req: Request, res: Response) => {
+  try {
+    const definition = req.body as WorkflowDefinition;
+
+    const errors = validateWorkflow(definition);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        ok: false,
+        error: 'Invalid workflow definition',
+        errors,
+      });
+    }
+
+    orchestrator.registerWorkflow(definition);
+    res.json({
+      ok: true,
+      workflow: {
+        id: definition.id,
+        description: definition.description,
+        steps: definition.steps.map(step => step.id),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to register workflow',
+    });
+  }
+});
+
+// List workflows
+router.get('/workflows', requireScope('orchestrator:workflows.read'), async (req: Request, res: Response) => {
+  try {
+    res.json({
+      ok: true,
+      workflows: orchestrator.listWorkflows().map(workflow => ({
+        id: workflow.id,
+        description: workflow.description,
+        steps: workflow.steps.map(step => step.id),
+      })),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to list workflows',
+    });
+  }
+});
+
+// Get workflow definition
+router.get('/workflows/:id', requireScope('orchestrator:workflows.read'), async (req: Request, res: Response) => {
+  try {
+    const workflow = orchestrator.getWorkflow(req.params.id);
+    if (!workflow) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    res.json({ ok: true, workflow });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to get workflow',
+    });
+  }
+});
+
+// Delete workflow
+router.delete('/workflows/:id', requireScope('orchestrator:workflows.write'), async (req: Request, res: Response) => {
+  try {
+    if (!orchestrator.unregisterWorkflow(req.params.id)) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    res.json({ ok: true });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to delete workflow',
+    });
+  }
+});
+
+// Run workflow and wait for the result
+router.post('/workflows/:id/run', requireScope('orchestrator:workflows.run'), async (req: Request, res: Response) => {
+  try {
+    const { input, context } = req.body || {};
+
+    // Running a workflow needs the task scope of every step it may execute
+    const workflow = orchestrator.getWorkflow(req.params.id);
+    for (const step of workflow?.steps || []) {
+      if (!authorize(req, res, taskScope(step.agentId, step.taskType))) {
+        return;
+      }
+    }
+
+    const run = await orchestrator.runWorkflow(req.params.id, input || {}, context || {});
+    if (!run) {
+      return res.status(404).json({
+        ok: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    res.status(run.status === 'succeeded' ? 200 : 500).json({
+      ok: run.status === 'succeeded',
+      run,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to run workflow',
+    });
+  }
+});
+
 // Check agent health
-router.get('/agents/:id/health', async (req: Request, res: Response) => {
+router.get('/agents/:id/health', requireScope('orchestrator:agents.read'), async (req: Request, res: Response) => {
   try {
     const health = await orchestrator.checkHealth(req.params.id);
+    const agent = orchestrator.getAgent(req.params.id);
     res.json({
       ok: true,
       health,
+      circuitBreaker: orchestrator.getCircuitBreakerStats(req.params.id),
+      policy: agent?.policy,
     });
   } catch (error: any) {
     res.status(500).json({
@@ -138,5 +533,148 @@ router.get('/agents/:id/health', async (req: Request, res: Response) => {
   }
 });
 
+// LLM token usage and cost for a day, grouped by user, userType, course, agent or model
+// ?userId= adds that user's totals and recent calls
+router.get('/costs', requireScope('orchestrator:costs.read'), async (req: Request, res: Response) => {
+  try {
+    const groupBy = (req.query.groupBy as string) || 'user';
+    const date = req.query.date as string | undefined;
+    const userId = req.query.userId as string | undefined;
+
+    if (!USAGE_DIMENSIONS.includes(groupBy as UsageDimension)) {
+      return res.status(400).json({
+        ok: false,
+        error: `groupBy must be one of: ${USAGE_DIMENSIONS.join(', ')}`,
+      });
+    }
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({
+        ok: false,
+        error: 'date must be YYYY-MM-DD (UTC)',
+      });
+    }
+
+    const summary = usageService.summary(groupBy as UsageDimension, date);
+    res.json({
+      ok: true,
+      ...summary,
+      groupBy,
+      budgets: usageService.getBudgets(),
+      ...(userId && {
+        user: {
+          userId,
+          guest: isGuestUser(userId),
+          totals: usageService.getTotals('user', userId, summary.day),
+          recent: usageService.getRecent({ userId, limit: 20 }),
+        },
+      }),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to get costs',
+    });
+  }
+});
+
+// Prompt templates llm-agent can render, every loaded version
+router.get('/prompts', requireScope('orchestrator:prompts.read'), async (req: Request, res: Response) => {
+  try {
+    const templates = await promptRegistry.list();
+    res.json({
+      ok: true,
+      templates,
+      count: templates.length,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to list prompts',
+    });
+  }
+});
+
+// Preview a template with the given variables without calling the model
+router.post('/prompts/:id/render', requireScope('orchestrator:prompts.read'), async (req: Request, res: Response) => {
+  try {
+    const { variables, version, variant, assignmentKey } = req.body || {};
+    const rendered = await promptRegistry.render(req.params.id, variables, { version, variant, assignmentKey });
+    res.json({
+      ok: true,
+      ...rendered,
+    });
+  } catch (error: any) {
+    res.status(error instanceof PromptTemplateError ? 400 : 500).json({
+      ok: false,
+      error: error.message || 'Failed to render prompt',
+      validationErrors: error.validationErrors,
+    });
+  }
+});
+
+// Pick up template edits now instead of waiting for the next rescan
+router.post('/prompts/reload', requireScope('orchestrator:prompts.write'), async (req: Request, res: Response) => {
+  try {
+    await promptRegistry.reload();
+    const templates = await promptRegistry.list();
+    res.json({
+      ok: true,
+      templates: templates.map(template => ({ id: template.id, version: template.version })),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      ok: false,
+      error: error.message || 'Failed to reload prompts',
+    });
+  }
+});
+
+// Semantic LLM cache hit rate and estimated savings
+router.get('/cache/semantic', requireScope('orchestrator:cache.read'), async (req: Request, res: Response) => {
+  res.json({
+    ok: true,
+    ...semanticCache.stats(),
+  });
+});
+
+// Drop cached answers after lesson content changes outside the retrieval index
+// Body: { courseSlug?, lessonId? }; an empty body clears everything
+router.post('/cache/semantic/invalidate', requireScope('orchestrator:cache.write'), async (req: Request, res: Response) => {
+  const { courseSlug, lessonId } = req.body || {};
+  if ((courseSlug !== undefined && typeof courseSlug !== 'string') || (lessonId !== undefined && typeof lessonId !== 'string')) {
+    return res.status(400).json({
+      ok: false,
+      error: 'courseSlug and lessonId must be strings',
+    });
+  }
+
+  const removed = semanticCache.invalidate({ courseSlug, lessonId });
+  res.json({
+    ok: true,
+    removed,
+  });
+});
+
+// Registered guardrails, persona configurations, check metrics and the agents running them before dispatch
+router.get('/guardrails', requireScope('orchestrator:guardrails.read'), async (req: Request, res: Response) => {
+  res.json({
+    ok: true,
+    mode: env.GUARDRAILS_MODE,
+    blockSeverity: env.GUARDRAILS_BLOCK_SEVERITY,
+    guardrails: guardrailRegistry.list().map(guardrail => ({
+      name: guardrail.name,
+      category: guardrail.category,
+      description: guardrail.description,
+    })),
+    personas: guardrailRegistry.listPersonaConfigs(),
+    agents: Object.fromEntries(
+      orchestrator.listAgents()
+        .filter(agent => agent.policy?.guardrails)
+        .map(agent => [agent.id, agent.policy!.guardrails])
+    ),
+    metrics: guardrailRegistry.getMetrics(),
+  });
+});
+
 export { router as orchestratorRoutes };
 
@@ -16,6 +16,8 @@ import { ActionAgent } from './agents/action-agent';
 import { LLMAgent } from './agents/llm-agent';
 import { RetrievalAgent } from './agents/retrieval-agent';
 import { DataAgent } from './agents/data-agent';
+import { shutdownService } from './core/services/shutdown';
+import { env } from './env';
 import { log } from './log';
 
 const app = express();
@@ -24,7 +26,7 @@ const PORT = 3999; // Hardcoded port for Sutradhar
 // Middleware
 app.use(cors());
 app.use(compression());
-app.use(bodyParser.json());
+app.use(bodyParser.json({ limit: env.REQUEST_BODY_LIMIT }));
 app.use(morgan('combined'));
 
 // Health check
@@ -59,7 +61,16 @@ const agentDefinitions = [
     version: '1.0.0',
     runtime: 'in-process' as const,
     implementation: new LLMAgent(),
-    capabilities: ['chat'],
+    capabilities: ['chat', 'chatWithTools', 'chatStructured', 'embed'],
+    config: {
+      // Only the student's own text: templates carry it in the `question` variable and chat history in `messages`
+      // `user` is left out, other agents put their own prompts (code under review, grading, lesson content) there
+      guardrails: {
+        taskTypes: ['chat', 'chatWithTools', 'chatStructured'],
+        input: ['variables.question', 'messages'],
+        persona: 'tutor',
+      },
+    },
   },
   {
     id: 'retrieval-agent',
@@ -67,7 +78,10 @@ const agentDefinitions = [
     version: '1.0.0',
     runtime: 'in-process' as const,
     implementation: new RetrievalAgent(),
-    capabilities: ['search', 'index', 'getStatus'],
+    capabilities: ['search', 'index', 'ingest', 'evaluate', 'getStatus'],
+    config: {
+      guardrails: { taskTypes: ['search'], input: ['query'], persona: 'tutor' },
+    },
   },
   {
     id: 'data-agent',
@@ -79,6 +93,12 @@ const agentDefinitions = [
   },
 ];
 
+// Without auth every caller holds every scope, which is only acceptable on a developer's machine
+if (env.ORCHESTRATOR_AUTH === 'disabled' && env.NODE_ENV !== 'development') {
+  log.error(`ORCHESTRATOR_AUTH=disabled is only allowed with NODE_ENV=development (NODE_ENV is ${env.NODE_ENV})`);
+  process.exit(1);
+}
+
 // Initialize plugins and register agents on startup
 (async () => {
   try {
@@ -93,17 +113,28 @@ const agentDefinitions = [
     log.info('Agents registered with orchestrator', {
       agents: agentDefinitions.map(a => a.id),
     });
+
+    // HTTP/process/container agents registered through the API before the last restart
+    await orchestrator.restoreAgents();
+
+    orchestrator.startHealthMonitor();
   } catch (error) {
     log.error('Failed to initialize plugins or register agents', error);
     process.exit(1);
   }
 })();
 
+// Stop agents and plugins cleanly on SIGTERM/SIGINT
+shutdownService.register();
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Sutradhar Orchestrator running on port ${PORT}`);
   console.log(`📡 Orchestrator API: http://localhost:${PORT}/orchestrator`);
   console.log(`🏥 Health Check: http://localhost:${PORT}/health`);
+  if (env.ORCHESTRATOR_AUTH === 'disabled') {
+    log.warn('Orchestrator API auth is disabled; every caller has full access (set ORCHESTRATOR_AUTH=enabled)');
+  }
 });
 
 export { app };
@@ -61,7 +61,8 @@ if [ ! -d "node_modules" ]; then
     echo "   Installing dependencies..."
     npm install --silent
 fi
-npm run dev > /tmp/sutradhar.log 2>&1 &
+# Optimus calls the orchestrator without an API key locally
+ORCHESTRATOR_AUTH=disabled npm run dev > /tmp/sutradhar.log 2>&1 &
 SUTRADHAR_PID=$!
 echo "   PID: $SUTRADHAR_PID"
 echo "   Logs: /tmp/sutradhar.log"